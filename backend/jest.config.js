@@ -5,6 +5,7 @@ module.exports = {
     'routes/**/*.js',
     'models/**/*.js',
     'middleware/**/*.js',
+    'utils/**/*.js',
     '!**/node_modules/**'
   ],
   setupFilesAfterEnv: ['<rootDir>/tests/setup.js'],
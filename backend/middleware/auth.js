@@ -16,6 +16,14 @@ const auth = async (req, res, next) => {
       return res.status(401).json({ message: 'Invalid token. User not found.' });
     }
 
+    if (!user.active) {
+      return res.status(401).json({ message: 'Account is disabled.' });
+    }
+
+    if ((decoded.tv || 0) !== user.token_version) {
+      return res.status(401).json({ message: 'Token revoked.' });
+    }
+
     req.user = user;
     next();
   } catch (error) {
@@ -0,0 +1,12 @@
+const { PERMISSIONS, can } = require('../utils/permissions');
+
+// Must run after auth; only lets through roles that hold the permission
+const authorize = (permission) => (req, res, next) => {
+  if (!can(req.user?.role, permission)) {
+    const roles = PERMISSIONS[permission].map(role => role[0].toUpperCase() + role.slice(1)).join(' or ');
+    return res.status(403).json({ message: `Access denied. ${roles} role required.` });
+  }
+  next();
+};
+
+module.exports = authorize;
@@ -0,0 +1,40 @@
+const mongoose = require('mongoose');
+
+// One create, update, delete or import of a driver, route, order or
+// simulation result, with the fields that changed
+const auditEntrySchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Copied so entries stay readable after the user is deleted
+  user_name: String,
+  action: {
+    type: String,
+    enum: ['create', 'update', 'delete', 'restore', 'purge', 'import'],
+    required: true
+  },
+  entity: {
+    type: String,
+    enum: ['driver', 'route', 'order', 'simulation'],
+    required: true
+  },
+  entity_id: mongoose.Schema.Types.ObjectId,
+  // Human-readable key of the record, e.g. the order_id or driver name
+  label: String,
+  changes: [{
+    _id: false,
+    field: String,
+    before: mongoose.Schema.Types.Mixed,
+    after: mongoose.Schema.Types.Mixed
+  }],
+  // Extra facts that are not field changes, such as import counts
+  details: mongoose.Schema.Types.Mixed
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+auditEntrySchema.index({ entity: 1, entity_id: 1, createdAt: -1 });
+auditEntrySchema.index({ createdAt: -1 });
+
+module.exports = mongoose.model('AuditEntry', auditEntrySchema);
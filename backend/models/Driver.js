@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const { softDeletePlugin } = require('../utils/softDelete');
 
 const driverSchema = new mongoose.Schema({
   name: {
@@ -40,4 +41,7 @@ driverSchema.virtual('totalHoursLastWeek').get(function() {
 // Include virtuals when converting to JSON
 driverSchema.set('toJSON', { virtuals: true });
 
+// Deleted drivers go to the trash (deleted_at) until purged
+driverSchema.plugin(softDeletePlugin);
+
 module.exports = mongoose.model('Driver', driverSchema);
\ No newline at end of file
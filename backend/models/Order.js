@@ -1,4 +1,7 @@
 const mongoose = require('mongoose');
+const { softDeletePlugin } = require('../utils/softDelete');
+const { isHighValueOrder } = require('../utils/rules');
+const { TIME_PATTERN, padTime } = require('../utils/time');
 
 const orderSchema = new mongoose.Schema({
   order_id: {
@@ -20,18 +23,23 @@ const orderSchema = new mongoose.Schema({
   delivery_time: {
     type: String,
     required: [true, 'Delivery time is required'],
-    match: [/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Delivery time must be in HH:MM format']
+    match: [TIME_PATTERN, 'Delivery time must be in HH:MM format'],
+    // Stored zero-padded so delivery times sort and compare as text
+    set: padTime
   }
 }, {
   timestamps: true
 });
 
-// Virtual to check if order is high value
+// Virtual to check if order is high value (uses the active rule set)
 orderSchema.virtual('isHighValue').get(function() {
-  return this.value_rs > 1000;
+  return isHighValueOrder(this);
 });
 
 // Include virtuals when converting to JSON
 orderSchema.set('toJSON', { virtuals: true });
 
+// Deleted orders go to the trash (deleted_at) until purged
+orderSchema.plugin(softDeletePlugin);
+
 module.exports = mongoose.model('Order', orderSchema);
\ No newline at end of file
@@ -0,0 +1,30 @@
+const mongoose = require('mongoose');
+
+// A refresh token issued at login. Only a hash of the token is stored; each
+// refresh revokes the token and issues a new one in its place.
+const refreshTokenSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  token_hash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expires_at: {
+    type: Date,
+    required: true
+  },
+  revoked_at: Date,
+  replaced_by: String
+}, {
+  timestamps: true
+});
+
+// Let MongoDB drop tokens once they have expired
+refreshTokenSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('RefreshToken', refreshTokenSchema);
@@ -1,4 +1,6 @@
 const mongoose = require('mongoose');
+const { softDeletePlugin } = require('../utils/softDelete');
+const { routeFuelCost, routeEffectiveTimes } = require('../utils/rules');
 
 const routeSchema = new mongoose.Schema({
   route_id: {
@@ -29,18 +31,20 @@ const routeSchema = new mongoose.Schema({
   timestamps: true
 });
 
-// Virtual for fuel cost calculation
+// Virtual for fuel cost calculation (uses the active rule set)
 routeSchema.virtual('fuelCost').get(function() {
-  const baseCost = this.distance * 5; // ₹5/km base cost
-  const surcharge = this.traffic_level === 'High' ? this.distance * 2 : 0; // ₹2/km surcharge for high traffic
-  return {
-    base: baseCost,
-    surcharge: surcharge,
-    total: baseCost + surcharge
-  };
+  return routeFuelCost(this);
+});
+
+// Virtual for travel time in traffic at 09:00 and 17:00 (uses the active rule set)
+routeSchema.virtual('effectiveTimes').get(function() {
+  return routeEffectiveTimes(this);
 });
 
 // Include virtuals when converting to JSON
 routeSchema.set('toJSON', { virtuals: true });
 
+// Deleted routes go to the trash (deleted_at) until purged
+routeSchema.plugin(softDeletePlugin);
+
 module.exports = mongoose.model('Route', routeSchema);
\ No newline at end of file
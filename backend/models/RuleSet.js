@@ -0,0 +1,123 @@
+const mongoose = require('mongoose');
+const { DEFAULT_RULES, RULE_FIELDS, setCurrentRules } = require('../utils/rules');
+const { isTrafficModel } = require('../utils/traffic');
+
+const ruleSetSchema = new mongoose.Schema({
+  version: {
+    type: Number,
+    required: [true, 'Version is required'],
+    unique: true,
+    min: [1, 'Version must be positive']
+  },
+  fuel_cost_per_km: {
+    type: Number,
+    default: DEFAULT_RULES.fuel_cost_per_km,
+    min: [0, 'Fuel cost cannot be negative']
+  },
+  high_traffic_surcharge_per_km: {
+    type: Number,
+    default: DEFAULT_RULES.high_traffic_surcharge_per_km,
+    min: [0, 'Surcharge cannot be negative']
+  },
+  late_penalty: {
+    type: Number,
+    default: DEFAULT_RULES.late_penalty,
+    min: [0, 'Late penalty cannot be negative']
+  },
+  high_value_threshold: {
+    type: Number,
+    default: DEFAULT_RULES.high_value_threshold,
+    min: [0, 'High-value threshold cannot be negative']
+  },
+  high_value_bonus_rate: {
+    type: Number,
+    default: DEFAULT_RULES.high_value_bonus_rate,
+    min: [0, 'Bonus rate cannot be negative'],
+    max: [1, 'Bonus rate cannot exceed 100%']
+  },
+  late_grace_minutes: {
+    type: Number,
+    default: DEFAULT_RULES.late_grace_minutes,
+    min: [0, 'Grace window cannot be negative']
+  },
+  fatigue_threshold_hours: {
+    type: Number,
+    default: DEFAULT_RULES.fatigue_threshold_hours,
+    min: [0, 'Fatigue threshold cannot be negative'],
+    max: [24, 'Fatigue threshold cannot exceed 24 hours']
+  },
+  fatigue_speed_factor: {
+    type: Number,
+    default: DEFAULT_RULES.fatigue_speed_factor,
+    min: [0.1, 'Fatigue speed factor must be at least 0.1'],
+    max: [1, 'Fatigue speed factor cannot exceed 1']
+  },
+  weekly_hours_cap: {
+    type: Number,
+    default: DEFAULT_RULES.weekly_hours_cap,
+    min: [1, 'Weekly hours cap must be at least 1 hour'],
+    max: [168, 'Weekly hours cap cannot exceed 168 hours']
+  },
+  traffic_model: {
+    type: mongoose.Schema.Types.Mixed,
+    default: () => DEFAULT_RULES.traffic_model,
+    validate: {
+      validator: (value) => isTrafficModel(value),
+      message: 'Traffic model must set a multiplier and rush-hour windows for Low, Medium and High traffic'
+    }
+  },
+  active: {
+    type: Boolean,
+    default: false,
+    index: true
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Notes cannot exceed 200 characters']
+  },
+  created_by: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Plain rule values of this rule set
+ruleSetSchema.methods.toRules = function() {
+  const values = this.toObject();
+  const rules = {};
+  RULE_FIELDS.forEach(field => {
+    rules[field] = values[field];
+  });
+  return rules;
+};
+
+// Get the active rule set, creating version 1 from the defaults on first use.
+// Also refreshes the in-memory copy read by model virtuals.
+ruleSetSchema.statics.getActive = async function() {
+  let ruleSet = await this.findOne({ active: true });
+  if (!ruleSet) {
+    const latest = await this.findOne().sort({ version: -1 });
+    ruleSet = latest
+      ? await this.findByIdAndUpdate(latest._id, { active: true }, { new: true })
+      : await this.create({ version: 1, active: true, notes: 'Default company rules' });
+  }
+  setCurrentRules(ruleSet.toRules());
+  return ruleSet;
+};
+
+// Make the given rule set the only active one
+ruleSetSchema.statics.activate = async function(id) {
+  const ruleSet = await this.findById(id);
+  if (!ruleSet) return null;
+
+  await this.updateMany({ _id: { $ne: ruleSet._id } }, { active: false });
+  ruleSet.active = true;
+  await ruleSet.save();
+  setCurrentRules(ruleSet.toRules());
+  return ruleSet;
+};
+
+module.exports = mongoose.model('RuleSet', ruleSetSchema);
@@ -0,0 +1,60 @@
+const mongoose = require('mongoose');
+
+const simulationDeliverySchema = new mongoose.Schema({
+  simulation: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SimulationResult',
+    required: true,
+    index: true
+  },
+  order_id: {
+    type: Number,
+    required: true
+  },
+  day: {
+    type: Number,
+    default: 1
+  },
+  status: {
+    type: String,
+    enum: ['delivered', 'unassigned', 'orphaned'],
+    required: true
+  },
+  driver: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Driver'
+  },
+  driver_name: String,
+  route_id: Number,
+  dispatch_time: String,
+  arrival_time: String,
+  promised_time: String,
+  lateness_minutes: {
+    type: Number,
+    default: 0
+  },
+  earliness_minutes: {
+    type: Number,
+    default: 0
+  },
+  is_late: {
+    type: Boolean,
+    default: false
+  },
+  fuel_cost: {
+    type: Number,
+    default: 0
+  },
+  penalty: {
+    type: Number,
+    default: 0
+  },
+  bonus: {
+    type: Number,
+    default: 0
+  }
+});
+
+simulationDeliverySchema.index({ simulation: 1, day: 1, order_id: 1 });
+
+module.exports = mongoose.model('SimulationDelivery', simulationDeliverySchema);
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const { padTime } = require('../utils/time');
 
 const simulationResultSchema = new mongoose.Schema({
   total_profit: {
@@ -21,6 +22,15 @@ const simulationResultSchema = new mongoose.Schema({
     required: true,
     min: 0
   },
+  unassigned_orders: {
+    type: [Number],
+    default: []
+  },
+  // Orders skipped because their route no longer exists
+  orphaned_orders: {
+    type: [Number],
+    default: []
+  },
   fuel_cost_breakdown: {
     base_cost: {
       type: Number,
@@ -35,10 +45,41 @@ const simulationResultSchema = new mongoose.Schema({
       required: true
     }
   },
+  timing_distribution: {
+    early: [{
+      _id: false,
+      range: String,
+      count: Number
+    }],
+    late: [{
+      _id: false,
+      range: String,
+      count: Number
+    }]
+  },
+  days: [{
+    _id: false,
+    day: Number,
+    total_profit: Number,
+    efficiency_score: Number,
+    on_time_deliveries: Number,
+    late_deliveries: Number,
+    unassigned_orders: Number,
+    fuel_cost: Number,
+    fatigued_drivers: Number
+  }],
+  rule_set_version: {
+    type: Number
+  },
   simulation_params: {
     available_drivers: Number,
-    start_time: String,
-    max_hours_per_day: Number
+    start_time: { type: String, set: padTime },
+    max_hours_per_day: Number,
+    days: {
+      type: Number,
+      default: 1
+    },
+    seed: Number
   },
   timestamp: {
     type: Date,
@@ -23,8 +23,18 @@ const userSchema = new mongoose.Schema({
   },
   role: {
     type: String,
-    enum: ['manager', 'admin'],
-    default: 'manager'
+    enum: ['viewer', 'manager', 'admin'],
+    default: 'viewer'
+  },
+  // Disabled users cannot log in and their tokens stop working
+  active: {
+    type: Boolean,
+    default: true
+  },
+  // Bumped to invalidate every access token issued before
+  token_version: {
+    type: Number,
+    default: 0
   }
 }, {
   timestamps: true
@@ -52,6 +62,7 @@ userSchema.methods.comparePassword = async function(candidatePassword) {
 userSchema.methods.toJSON = function() {
   const userObject = this.toObject();
   delete userObject.password;
+  delete userObject.token_version;
   return userObject;
 };
 
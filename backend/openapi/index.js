@@ -0,0 +1,572 @@
+const schemas = require('./schemas');
+const { MAX_PAGE_SIZE } = require('../utils/listQuery');
+
+// The OpenAPI document of the API, served at /api/docs. Request bodies are
+// validated against the same component schemas (see
+// utils/schemaValidators.js); query parameters are checked by each router.
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (schema) => ({ 'application/json': { schema } });
+
+const idParam = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+
+const queryParam = (name, schema) => ({ name, in: 'query', required: false, schema });
+
+const pageParams = [
+  queryParam('page', { type: 'integer', minimum: 1 }),
+  queryParam('limit', { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE })
+];
+
+const sortParams = (sortFields) => [
+  queryParam('sort', { type: 'string', enum: sortFields }),
+  queryParam('order', { type: 'string', enum: ['asc', 'desc'] })
+];
+
+const listParams = (sortFields) => [...pageParams, ...sortParams(sortFields)];
+
+// A file download in each export format; JSON holds the records as the
+// list endpoint returns them
+const download = (item) => ({
+  'text/csv': { schema: { type: 'string' } },
+  ...json({ type: 'array', items: ref(item) }),
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { schema: { type: 'string', format: 'binary' } }
+});
+
+const exportParam = queryParam('format', { type: 'string', enum: ['csv', 'json', 'xlsx'] });
+
+const validationError = { description: 'Validation failed', content: json(ref('ValidationError')) };
+const notFound = { description: 'Not found', content: json(ref('Message')) };
+const forbidden = { description: 'Not allowed for this role', content: json(ref('Message')) };
+const unauthorized = { description: 'Not authenticated', content: json(ref('Message')) };
+
+// csv takes the body as CSV text instead of a JSON schema, and a file
+// response is downloaded in the format asked for instead of sent as JSON.
+// Public operations need no access token.
+const operation = ({
+  operationId, summary, tag, parameters, body, csv, status = 200, response, file, errors = {}, isPublic
+}) => ({
+  operationId,
+  summary,
+  tags: [tag],
+  ...(isPublic && { security: [] }),
+  ...(parameters && { parameters }),
+  ...(body && { requestBody: { required: true, content: json(ref(body)) } }),
+  ...(csv && { requestBody: { required: true, content: { 'text/csv': { schema: { type: 'string' } } } } }),
+  responses: {
+    [status]: { description: summary, content: file ? download(file) : json(ref(response)) },
+    ...errors
+  }
+});
+
+// The list, create, read, update, delete, trash, restore, import and export
+// endpoints of a record type. importConflict documents the 409 of imports
+// whose replace mode can be refused.
+const recordPaths = ({
+  base, tag, name, plural, sortFields, filters = [], deleted = 'Message', reassignParams, updated, importConflict
+}) => ({
+  [base]: {
+    get: operation({
+      operationId: `list${plural}`,
+      summary: `List ${plural.toLowerCase()}`,
+      tag,
+      parameters: [...listParams(sortFields), ...filters],
+      response: `${name}Page`,
+      errors: { 400: validationError }
+    }),
+    post: operation({
+      operationId: `create${name}`,
+      summary: `Create a ${name.toLowerCase()}`,
+      tag,
+      body: `${name}Input`,
+      status: 201,
+      response: name,
+      errors: { 400: validationError }
+    })
+  },
+  [`${base}/export`]: {
+    get: operation({
+      operationId: `export${plural}`,
+      summary: `Download ${plural.toLowerCase()} matching the list filters`,
+      tag,
+      parameters: [exportParam, ...sortParams(sortFields), ...filters],
+      file: name,
+      errors: { 400: validationError }
+    })
+  },
+  [`${base}/import`]: {
+    post: operation({
+      operationId: `import${plural}`,
+      summary: `Import ${plural.toLowerCase()} from a CSV file`,
+      tag,
+      parameters: [
+        queryParam('mode', { type: 'string', enum: ['merge', 'replace'] }),
+        queryParam('dry_run', { type: 'boolean' })
+      ],
+      csv: true,
+      response: 'ImportReport',
+      errors: {
+        400: { description: 'Invalid CSV or rows', content: json({ oneOf: [ref('ImportReport'), ref('Message')] }) },
+        403: forbidden,
+        ...(importConflict && { 409: { description: 'Replace would orphan dependent records', content: json(ref('ImportReport')) } })
+      }
+    })
+  },
+  [`${base}/trash`]: {
+    get: operation({
+      operationId: `list${name}Trash`,
+      summary: `List ${plural.toLowerCase()} in the trash`,
+      tag,
+      parameters: listParams(['deleted_at']),
+      response: `${name}Page`
+    })
+  },
+  [`${base}/{id}`]: {
+    get: operation({
+      operationId: `get${name}`,
+      summary: `Get a ${name.toLowerCase()}`,
+      tag,
+      parameters: [idParam],
+      response: name,
+      errors: { 404: notFound }
+    }),
+    put: operation({
+      operationId: `update${name}`,
+      summary: `Update a ${name.toLowerCase()}`,
+      tag,
+      parameters: [idParam, ...(reassignParams || [])],
+      body: `${name}Input`,
+      response: updated || name,
+      errors: { 400: validationError, 404: notFound }
+    }),
+    delete: operation({
+      operationId: `delete${name}`,
+      summary: `Move a ${name.toLowerCase()} to the trash`,
+      tag,
+      parameters: [idParam, ...(reassignParams || [])],
+      response: deleted,
+      errors: { 404: notFound }
+    })
+  },
+  [`${base}/{id}/restore`]: {
+    post: operation({
+      operationId: `restore${name}`,
+      summary: `Restore a ${name.toLowerCase()} from the trash`,
+      tag,
+      parameters: [idParam],
+      response: name,
+      errors: { 404: notFound, 409: { description: 'Cannot be restored', content: json(ref('Message')) } }
+    })
+  }
+});
+
+const reassignTo = queryParam('reassignTo', { type: 'integer', minimum: 1 });
+
+const document = {
+  openapi: '3.0.3',
+  info: {
+    title: 'GreenCart Logistics API',
+    version: '1.0.0',
+    description: 'Drivers, routes, orders, delivery simulations, business rules and user accounts. Every endpoint but the public auth ones needs a Bearer access token.'
+  },
+  servers: [{ url: '/api' }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    '/auth/register': {
+      post: operation({
+        operationId: 'register',
+        summary: 'Register a read-only viewer account',
+        tag: 'Auth',
+        isPublic: true,
+        body: 'RegisterInput',
+        status: 201,
+        response: 'AuthSession',
+        errors: { 400: validationError }
+      })
+    },
+    '/auth/login': {
+      post: operation({
+        operationId: 'login',
+        summary: 'Log in with an email and password',
+        tag: 'Auth',
+        isPublic: true,
+        body: 'LoginInput',
+        response: 'AuthSession',
+        errors: {
+          400: validationError,
+          401: { description: 'Invalid email or password', content: json(ref('Message')) },
+          403: { description: 'Account is disabled', content: json(ref('Message')) }
+        }
+      })
+    },
+    '/auth/refresh': {
+      post: operation({
+        operationId: 'refreshTokens',
+        summary: 'Swap a refresh token for a new access and refresh token pair',
+        tag: 'Auth',
+        isPublic: true,
+        body: 'RefreshTokenInput',
+        response: 'AuthTokens',
+        errors: { 400: validationError, 401: unauthorized }
+      })
+    },
+    '/auth/logout': {
+      post: operation({
+        operationId: 'logout',
+        summary: 'Revoke a refresh token, ending that session',
+        tag: 'Auth',
+        isPublic: true,
+        body: 'RefreshTokenInput',
+        response: 'Message',
+        errors: { 400: validationError }
+      })
+    },
+    '/auth/logout-all': {
+      post: operation({
+        operationId: 'logoutAll',
+        summary: 'Revoke every session of the current user',
+        tag: 'Auth',
+        response: 'Message',
+        errors: { 401: unauthorized }
+      })
+    },
+    '/auth/verify': {
+      get: operation({
+        operationId: 'verifyToken',
+        summary: 'Get the user of the access token',
+        tag: 'Auth',
+        response: 'AuthVerification',
+        errors: { 401: unauthorized }
+      })
+    },
+    '/users': {
+      get: operation({
+        operationId: 'listUsers',
+        summary: 'List users',
+        tag: 'Users',
+        parameters: [
+          ...listParams(['name', 'email', 'role', 'createdAt']),
+          queryParam('search', { type: 'string', maxLength: 50 }),
+          queryParam('role', ref('Role')),
+          queryParam('active', { type: 'boolean' })
+        ],
+        response: 'UserPage',
+        errors: { 400: validationError, 403: forbidden }
+      }),
+      post: operation({
+        operationId: 'createUser',
+        summary: 'Create a user with any role',
+        tag: 'Users',
+        body: 'UserCreateInput',
+        status: 201,
+        response: 'User',
+        errors: { 400: validationError, 403: forbidden }
+      })
+    },
+    '/users/{id}': {
+      get: operation({
+        operationId: 'getUser',
+        summary: 'Get a user',
+        tag: 'Users',
+        parameters: [idParam],
+        response: 'User',
+        errors: { 403: forbidden, 404: notFound }
+      }),
+      put: operation({
+        operationId: 'updateUser',
+        summary: 'Update a user\'s name, email, role and active flag',
+        tag: 'Users',
+        parameters: [idParam],
+        body: 'UserInput',
+        response: 'User',
+        errors: { 400: validationError, 403: forbidden, 404: notFound }
+      }),
+      delete: operation({
+        operationId: 'deleteUser',
+        summary: 'Delete a user',
+        tag: 'Users',
+        parameters: [idParam],
+        response: 'Message',
+        errors: { 400: { description: 'Cannot delete your own account', content: json(ref('Message')) }, 403: forbidden, 404: notFound }
+      })
+    },
+    '/users/{id}/password': {
+      put: operation({
+        operationId: 'resetUserPassword',
+        summary: 'Reset a user\'s password and log them out everywhere',
+        tag: 'Users',
+        parameters: [idParam],
+        body: 'PasswordInput',
+        response: 'Message',
+        errors: { 400: validationError, 403: forbidden, 404: notFound }
+      })
+    },
+    '/rules': {
+      get: operation({
+        operationId: 'listRuleSets',
+        summary: 'List every rule set version, newest first',
+        tag: 'Rules',
+        response: 'RuleSetList'
+      }),
+      post: operation({
+        operationId: 'createRuleSet',
+        summary: 'Save a new rule set version and make it active',
+        tag: 'Rules',
+        body: 'RuleSetInput',
+        status: 201,
+        response: 'RuleSet',
+        errors: { 400: validationError, 403: forbidden }
+      })
+    },
+    '/rules/active': {
+      get: operation({
+        operationId: 'getActiveRuleSet',
+        summary: 'Get the active rule set',
+        tag: 'Rules',
+        response: 'RuleSet'
+      })
+    },
+    '/rules/{id}/activate': {
+      put: operation({
+        operationId: 'activateRuleSet',
+        summary: 'Make an earlier rule set version active again',
+        tag: 'Rules',
+        parameters: [idParam],
+        response: 'RuleSet',
+        errors: { 403: forbidden, 404: notFound }
+      })
+    },
+    '/audit': {
+      get: operation({
+        operationId: 'listAuditEntries',
+        summary: 'List audit entries, newest first',
+        tag: 'Audit',
+        parameters: [
+          ...listParams(['createdAt', 'entity', 'action', 'user_name']),
+          queryParam('entity', ref('AuditEntity')),
+          queryParam('entity_id', { type: 'string' }),
+          queryParam('action', ref('AuditAction')),
+          queryParam('user', { type: 'string' }),
+          queryParam('from', { type: 'string', format: 'date-time' }),
+          queryParam('to', { type: 'string', format: 'date-time' })
+        ],
+        response: 'AuditEntryPage',
+        errors: { 400: validationError }
+      })
+    },
+    ...recordPaths({
+      base: '/drivers',
+      tag: 'Drivers',
+      name: 'Driver',
+      plural: 'Drivers',
+      sortFields: ['name', 'shift_hours', 'createdAt'],
+      filters: [queryParam('search', { type: 'string', maxLength: 50 })]
+    }),
+    '/drivers/report': {
+      get: operation({
+        operationId: 'getDriverReport',
+        summary: 'Utilization, fatigue and weekly cap figures of every driver',
+        tag: 'Drivers',
+        response: 'DriverReport'
+      })
+    },
+    ...recordPaths({
+      base: '/routes',
+      tag: 'Routes',
+      name: 'Route',
+      plural: 'Routes',
+      sortFields: ['route_id', 'distance', 'traffic_level', 'base_time'],
+      filters: [queryParam('traffic_level', ref('TrafficLevel'))],
+      deleted: 'RouteDeleted',
+      reassignParams: [reassignTo],
+      updated: 'RouteUpdate',
+      importConflict: true
+    }),
+    '/routes/analytics': {
+      get: operation({
+        operationId: 'getRouteAnalytics',
+        summary: 'Profitability and expected late rate of every route',
+        tag: 'Routes',
+        response: 'RouteAnalyticsReport'
+      })
+    },
+    ...recordPaths({
+      base: '/orders',
+      tag: 'Orders',
+      name: 'Order',
+      plural: 'Orders',
+      sortFields: ['order_id', 'value_rs', 'route_id', 'delivery_time'],
+      filters: [
+        queryParam('min_value', { type: 'integer', minimum: 0 }),
+        queryParam('max_value', { type: 'integer', minimum: 0 }),
+        queryParam('route_id', { type: 'integer', minimum: 1 }),
+        queryParam('delivery_from', { type: 'string' }),
+        queryParam('delivery_to', { type: 'string' })
+      ]
+    }),
+    '/simulation/run': {
+      post: operation({
+        operationId: 'runSimulation',
+        summary: 'Run a simulation and save its result',
+        tag: 'Simulation',
+        body: 'SimulationParams',
+        response: 'SimulationResult',
+        errors: { 400: validationError }
+      })
+    },
+    '/simulation/jobs': {
+      post: operation({
+        operationId: 'startSimulationJob',
+        summary: 'Start a simulation in the background',
+        tag: 'Simulation',
+        body: 'SimulationParams',
+        status: 202,
+        response: 'SimulationJob',
+        errors: { 400: validationError }
+      })
+    },
+    '/simulation/jobs/{id}': {
+      get: operation({
+        operationId: 'getSimulationJob',
+        summary: 'Get a simulation job',
+        tag: 'Simulation',
+        parameters: [idParam],
+        response: 'SimulationJob',
+        errors: { 404: notFound }
+      }),
+      delete: operation({
+        operationId: 'cancelSimulationJob',
+        summary: 'Cancel a running simulation job',
+        tag: 'Simulation',
+        parameters: [idParam],
+        response: 'SimulationJob',
+        errors: { 404: notFound, 409: { description: 'Job already finished', content: json(ref('Message')) } }
+      })
+    },
+    '/simulation/history': {
+      get: operation({
+        operationId: 'listSimulationResults',
+        summary: 'List saved simulation results, newest first',
+        tag: 'Simulation',
+        parameters: [
+          ...listParams(['timestamp', 'total_profit', 'efficiency_score']),
+          queryParam('from', { type: 'string', format: 'date-time' }),
+          queryParam('to', { type: 'string', format: 'date-time' }),
+          queryParam('drivers', { type: 'integer', minimum: 1 }),
+          queryParam('start_time', { type: 'string' })
+        ],
+        response: 'SimulationResultPage',
+        errors: { 400: validationError }
+      }),
+      delete: operation({
+        operationId: 'deleteSimulationResults',
+        summary: 'Delete several saved simulation results',
+        tag: 'Simulation',
+        body: 'SimulationResultIds',
+        response: 'SimulationResultsDeleted',
+        errors: { 400: validationError }
+      })
+    },
+    '/simulation/history/export': {
+      get: operation({
+        operationId: 'exportSimulationResults',
+        summary: 'Download the simulation results matching the history filters',
+        tag: 'Simulation',
+        parameters: [
+          exportParam,
+          ...sortParams(['timestamp', 'total_profit', 'efficiency_score']),
+          queryParam('from', { type: 'string', format: 'date-time' }),
+          queryParam('to', { type: 'string', format: 'date-time' }),
+          queryParam('drivers', { type: 'integer', minimum: 1 }),
+          queryParam('start_time', { type: 'string' })
+        ],
+        file: 'SimulationResult',
+        errors: { 400: validationError }
+      })
+    },
+    '/simulation/sweep': {
+      post: operation({
+        operationId: 'runSimulationSweep',
+        summary: 'Run the simulation for every combination of parameter values',
+        tag: 'Simulation',
+        body: 'SweepInput',
+        response: 'Sweep',
+        errors: { 400: validationError }
+      })
+    },
+    '/simulation/compare': {
+      get: operation({
+        operationId: 'compareSimulationResults',
+        summary: 'Compare the KPIs of simulation results against the first one',
+        tag: 'Simulation',
+        parameters: [
+          { ...queryParam('ids', { type: 'string' }), required: true, description: 'Two or more comma-separated result ids' }
+        ],
+        response: 'Comparison',
+        errors: {
+          400: { description: 'Too few or invalid ids', content: json(ref('SimulationResultIdsError')) },
+          404: { description: 'Results not found', content: json(ref('SimulationResultIdsError')) }
+        }
+      })
+    },
+    '/simulation/trends': {
+      get: operation({
+        operationId: 'getSimulationTrends',
+        summary: 'Run count and average KPIs per day or week',
+        tag: 'Simulation',
+        parameters: [
+          queryParam('from', { type: 'string', format: 'date-time' }),
+          queryParam('to', { type: 'string', format: 'date-time' }),
+          queryParam('bucket', { type: 'string', enum: ['day', 'week'] })
+        ],
+        response: 'KpiTrends',
+        errors: { 400: validationError }
+      })
+    },
+    '/simulation/history/{id}': {
+      get: operation({
+        operationId: 'getSimulationResult',
+        summary: 'Get a saved simulation result',
+        tag: 'Simulation',
+        parameters: [idParam],
+        response: 'SimulationResult',
+        errors: { 404: notFound }
+      }),
+      delete: operation({
+        operationId: 'deleteSimulationResult',
+        summary: 'Delete a saved simulation result',
+        tag: 'Simulation',
+        parameters: [idParam],
+        response: 'Message',
+        errors: { 404: notFound }
+      })
+    },
+    '/simulation/history/{id}/deliveries': {
+      get: operation({
+        operationId: 'listSimulationDeliveries',
+        summary: 'List the deliveries of a simulation result',
+        tag: 'Simulation',
+        parameters: [
+          idParam,
+          ...listParams(['day', 'order_id', 'route_id', 'lateness_minutes']),
+          queryParam('late', { type: 'boolean' }),
+          queryParam('status', { type: 'string', enum: ['delivered', 'unassigned', 'orphaned'] }),
+          queryParam('driver', { type: 'string' }),
+          queryParam('driver_name', { type: 'string' }),
+          queryParam('route_id', { type: 'integer', minimum: 1 }),
+          queryParam('day', { type: 'integer', minimum: 1 })
+        ],
+        response: 'SimulationDeliveryPage',
+        errors: { 400: validationError, 404: notFound }
+      })
+    }
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+    },
+    schemas
+  }
+};
+
+module.exports = document;
@@ -0,0 +1,789 @@
+const { MAX_SIMULATION_DAYS } = require('../utils/simulation');
+const { MAX_SEED } = require('../utils/random');
+const { TIME_PATTERN } = require('../utils/time');
+const { TRAFFIC_LEVELS, MIN_MULTIPLIER, MAX_MULTIPLIER } = require('../utils/traffic');
+
+// Component schemas of the API contract (OpenAPI 3.0 / JSON Schema). The
+// *Input schemas double as request validators (see utils/schemaValidators.js):
+// x-error-message is the validation message for a field and x-trim trims
+// strings before they are checked. x-validator names a check JSON Schema
+// cannot express, such as the sweep ranges. The frontend types in
+// src/services/apiTypes.ts are generated from these (npm run generate:api-types).
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+
+const time = (message) => ({ type: 'string', pattern: TIME_PATTERN.source, 'x-error-message': message });
+
+// Fields every stored document has
+const documentFields = {
+  _id: { type: 'string', readOnly: true },
+  createdAt: { type: 'string', format: 'date-time', readOnly: true },
+  updatedAt: { type: 'string', format: 'date-time', readOnly: true }
+};
+
+// Fields of documents that go to the trash when deleted
+const trashableFields = {
+  ...documentFields,
+  deleted_at: { type: 'string', format: 'date-time', nullable: true, readOnly: true }
+};
+
+// A stored document: its input fields plus the given read-only fields
+const stored = (input, fields, required = []) => ({
+  allOf: [
+    ref(input),
+    { type: 'object', required: ['_id', ...required], properties: fields }
+  ]
+});
+
+// A sweep axis: one value, a list of values or, for integers, a
+// { min, max, step } range
+const sweepAxis = (value, validator, message) => ({
+  oneOf: [
+    value,
+    { type: 'array', items: value },
+    ...(value.type === 'integer' ? [ref('SweepRange')] : [])
+  ],
+  'x-validator': validator,
+  'x-error-message': message
+});
+
+const seed = { type: 'integer', minimum: 0, maximum: MAX_SEED, 'x-error-message': `Seed must be an integer between 0 and ${MAX_SEED}` };
+
+// Fields of registration and of the user admin
+const userFields = {
+  name: { type: 'string', minLength: 2, maxLength: 50, 'x-trim': true, 'x-error-message': 'Name must be between 2 and 50 characters' },
+  email: { type: 'string', format: 'email', 'x-error-message': 'Please provide a valid email' }
+};
+
+const password = { type: 'string', minLength: 6, 'x-error-message': 'Password must be at least 6 characters long' };
+
+// Business rules of a rule set; each is optional when saving a new version
+const ruleFields = {
+  fuel_cost_per_km: { type: 'number', minimum: 0, 'x-error-message': 'Fuel cost per km cannot be negative' },
+  high_traffic_surcharge_per_km: { type: 'number', minimum: 0, 'x-error-message': 'High traffic surcharge cannot be negative' },
+  late_penalty: { type: 'number', minimum: 0, 'x-error-message': 'Late penalty cannot be negative' },
+  high_value_threshold: { type: 'number', minimum: 0, 'x-error-message': 'High-value threshold cannot be negative' },
+  high_value_bonus_rate: { type: 'number', minimum: 0, maximum: 1, 'x-error-message': 'Bonus rate must be between 0 and 1' },
+  late_grace_minutes: { type: 'integer', minimum: 0, 'x-error-message': 'Grace window must be a non-negative number of minutes' },
+  fatigue_threshold_hours: { type: 'number', minimum: 0, maximum: 24, 'x-error-message': 'Fatigue threshold must be between 0 and 24 hours' },
+  fatigue_speed_factor: { type: 'number', minimum: 0.1, maximum: 1, 'x-error-message': 'Fatigue speed factor must be between 0.1 and 1' },
+  weekly_hours_cap: { type: 'number', minimum: 1, maximum: 168, 'x-error-message': 'Weekly hours cap must be between 1 and 168 hours' }
+};
+
+const trafficLevels = Object.fromEntries(TRAFFIC_LEVELS.map(level => [level, ref('TrafficLevelModel')]));
+
+const page = (item) => ({
+  type: 'object',
+  required: ['results', 'pagination'],
+  properties: {
+    results: { type: 'array', items: ref(item) },
+    pagination: ref('Pagination')
+  }
+});
+
+const schemas = {
+  Message: {
+    type: 'object',
+    required: ['message'],
+    properties: {
+      message: { type: 'string' }
+    }
+  },
+
+  ValidationError: {
+    type: 'object',
+    required: ['message', 'errors'],
+    properties: {
+      message: { type: 'string' },
+      errors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            path: { type: 'string' },
+            msg: { type: 'string' }
+          }
+        }
+      }
+    }
+  },
+
+  Pagination: {
+    type: 'object',
+    required: ['current_page', 'total_pages', 'total_results', 'has_next', 'has_prev'],
+    properties: {
+      current_page: { type: 'integer' },
+      total_pages: { type: 'integer' },
+      total_results: { type: 'integer' },
+      has_next: { type: 'boolean' },
+      has_prev: { type: 'boolean' }
+    }
+  },
+
+  TrafficLevel: { type: 'string', enum: ['Low', 'Medium', 'High'] },
+
+  DriverInput: {
+    type: 'object',
+    required: ['name', 'shift_hours', 'past_week_hours'],
+    properties: {
+      name: { type: 'string', minLength: 2, maxLength: 50, 'x-trim': true, 'x-error-message': 'Name must be between 2 and 50 characters' },
+      shift_hours: { type: 'integer', minimum: 1, maximum: 24, 'x-error-message': 'Shift hours must be between 1 and 24' },
+      past_week_hours: {
+        type: 'array',
+        minItems: 7,
+        maxItems: 7,
+        'x-error-message': 'Past week hours must be an array of 7 numbers',
+        items: { type: 'integer', minimum: 0, maximum: 24, 'x-error-message': 'Each day hours must be between 0 and 24' }
+      }
+    }
+  },
+
+  Driver: stored('DriverInput', {
+    ...trashableFields,
+    averageHoursPerDay: { type: 'number', readOnly: true },
+    totalHoursLastWeek: { type: 'number', readOnly: true }
+  }, ['averageHoursPerDay', 'totalHoursLastWeek']),
+
+  RouteInput: {
+    type: 'object',
+    required: ['route_id', 'distance', 'traffic_level', 'base_time'],
+    properties: {
+      route_id: { type: 'integer', minimum: 1, 'x-error-message': 'Route ID must be a positive integer' },
+      distance: { type: 'number', minimum: 0.1, 'x-error-message': 'Distance must be at least 0.1 km' },
+      traffic_level: { ...ref('TrafficLevel'), 'x-error-message': 'Traffic level must be Low, Medium, or High' },
+      base_time: { type: 'integer', minimum: 1, 'x-error-message': 'Base time must be at least 1 minute' }
+    }
+  },
+
+  FuelCost: {
+    type: 'object',
+    required: ['base', 'surcharge', 'total'],
+    properties: {
+      base: { type: 'number' },
+      surcharge: { type: 'number' },
+      total: { type: 'number' }
+    }
+  },
+
+  Route: stored('RouteInput', {
+    ...trashableFields,
+    fuelCost: { ...ref('FuelCost'), readOnly: true },
+    // Travel time in minutes in traffic, by departure time (09:00 and 17:00)
+    effectiveTimes: { type: 'object', additionalProperties: { type: 'number' }, readOnly: true }
+  }, ['fuelCost', 'effectiveTimes']),
+
+  RouteUpdate: {
+    allOf: [
+      ref('Route'),
+      {
+        type: 'object',
+        required: ['affected_orders'],
+        properties: {
+          affected_orders: { type: 'array', items: { type: 'integer' } }
+        }
+      }
+    ]
+  },
+
+  RouteDeleted: {
+    type: 'object',
+    required: ['message', 'affected_orders'],
+    properties: {
+      message: { type: 'string' },
+      affected_orders: { type: 'array', items: { type: 'integer' } }
+    }
+  },
+
+  RouteAnalytics: {
+    type: 'object',
+    required: [
+      'route_id', 'distance', 'traffic_level', 'base_time', 'order_count', 'total_value',
+      'fuel_cost', 'profit', 'profit_per_km', 'expected_late_rate'
+    ],
+    properties: {
+      route_id: { type: 'integer' },
+      distance: { type: 'number' },
+      traffic_level: ref('TrafficLevel'),
+      base_time: { type: 'number' },
+      order_count: { type: 'integer' },
+      total_value: { type: 'number' },
+      fuel_cost: { type: 'number' },
+      profit: { type: 'number' },
+      profit_per_km: { type: 'number' },
+      // Percentage of the route's orders promised, grace window included, in
+      // less than its base time
+      expected_late_rate: { type: 'number' }
+    }
+  },
+
+  RouteAnalyticsReport: {
+    type: 'object',
+    required: ['rule_set_version', 'routes'],
+    properties: {
+      rule_set_version: { type: 'integer' },
+      // Most profitable first
+      routes: { type: 'array', items: ref('RouteAnalytics') }
+    }
+  },
+
+  OrderInput: {
+    type: 'object',
+    required: ['order_id', 'value_rs', 'route_id', 'delivery_time'],
+    properties: {
+      order_id: { type: 'integer', minimum: 1, 'x-error-message': 'Order ID must be a positive integer' },
+      value_rs: { type: 'integer', minimum: 1, 'x-error-message': 'Order value must be at least ₹1' },
+      route_id: { type: 'integer', minimum: 1, 'x-error-message': 'Route ID must be a positive integer' },
+      delivery_time: time('Delivery time must be in HH:MM format')
+    }
+  },
+
+  Order: stored('OrderInput', {
+    ...trashableFields,
+    isHighValue: { type: 'boolean', readOnly: true }
+  }, ['isHighValue']),
+
+  SimulationParams: {
+    type: 'object',
+    required: ['available_drivers', 'start_time', 'max_hours_per_day'],
+    properties: {
+      available_drivers: { type: 'integer', minimum: 1, 'x-error-message': 'Available drivers must be at least 1' },
+      start_time: time('Start time must be in HH:MM format'),
+      max_hours_per_day: { type: 'integer', minimum: 1, maximum: 24, 'x-error-message': 'Max hours per day must be between 1 and 24' },
+      days: { type: 'integer', minimum: 1, maximum: MAX_SIMULATION_DAYS, 'x-error-message': `Days must be between 1 and ${MAX_SIMULATION_DAYS}` },
+      seed
+    }
+  },
+
+  TimingBucket: {
+    type: 'object',
+    required: ['range', 'count'],
+    properties: {
+      range: { type: 'string' },
+      count: { type: 'integer' }
+    }
+  },
+
+  SimulationDay: {
+    type: 'object',
+    required: ['day', 'total_profit', 'efficiency_score', 'on_time_deliveries', 'late_deliveries', 'unassigned_orders', 'fuel_cost', 'fatigued_drivers'],
+    properties: {
+      day: { type: 'integer' },
+      total_profit: { type: 'number' },
+      efficiency_score: { type: 'number' },
+      on_time_deliveries: { type: 'integer' },
+      late_deliveries: { type: 'integer' },
+      unassigned_orders: { type: 'integer' },
+      fuel_cost: { type: 'number' },
+      fatigued_drivers: { type: 'integer' }
+    }
+  },
+
+  SimulationResult: {
+    type: 'object',
+    required: [
+      '_id', 'total_profit', 'efficiency_score', 'on_time_deliveries', 'late_deliveries', 'unassigned_orders',
+      'orphaned_orders', 'fuel_cost_breakdown', 'timing_distribution', 'days', 'simulation_params', 'timestamp'
+    ],
+    properties: {
+      ...documentFields,
+      total_profit: { type: 'number' },
+      efficiency_score: { type: 'number' },
+      on_time_deliveries: { type: 'integer' },
+      late_deliveries: { type: 'integer' },
+      unassigned_orders: { type: 'array', items: { type: 'integer' } },
+      // Orders whose route no longer exists
+      orphaned_orders: { type: 'array', items: { type: 'integer' } },
+      fuel_cost_breakdown: {
+        type: 'object',
+        required: ['base_cost', 'surcharge', 'total'],
+        properties: {
+          base_cost: { type: 'number' },
+          surcharge: { type: 'number' },
+          total: { type: 'number' }
+        }
+      },
+      timing_distribution: {
+        type: 'object',
+        required: ['early', 'late'],
+        properties: {
+          early: { type: 'array', items: ref('TimingBucket') },
+          late: { type: 'array', items: ref('TimingBucket') }
+        }
+      },
+      days: { type: 'array', items: ref('SimulationDay') },
+      simulation_params: ref('SimulationParams'),
+      rule_set_version: { type: 'integer' },
+      timestamp: { type: 'string', format: 'date-time' }
+    }
+  },
+
+  SimulationResultIds: {
+    type: 'object',
+    required: ['ids'],
+    properties: {
+      ids: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 100,
+        'x-error-message': 'Ids must be a list of 1 to 100 simulation result ids',
+        items: { type: 'string', pattern: '^[0-9a-fA-F]{24}$', 'x-error-message': 'Each id must be a valid simulation result id' }
+      }
+    }
+  },
+
+  SimulationResultsDeleted: {
+    type: 'object',
+    required: ['message', 'deleted'],
+    properties: {
+      message: { type: 'string' },
+      deleted: { type: 'integer' }
+    }
+  },
+
+  SimulationDelivery: {
+    type: 'object',
+    required: ['_id', 'order_id', 'status', 'route_id', 'lateness_minutes', 'is_late', 'fuel_cost', 'penalty', 'bonus'],
+    properties: {
+      _id: { type: 'string' },
+      order_id: { type: 'integer' },
+      day: { type: 'integer' },
+      status: { type: 'string', enum: ['delivered', 'unassigned', 'orphaned'] },
+      driver: { type: 'string' },
+      driver_name: { type: 'string' },
+      route_id: { type: 'integer' },
+      dispatch_time: { type: 'string' },
+      arrival_time: { type: 'string' },
+      promised_time: { type: 'string' },
+      lateness_minutes: { type: 'integer' },
+      earliness_minutes: { type: 'integer' },
+      is_late: { type: 'boolean' },
+      fuel_cost: { type: 'number' },
+      penalty: { type: 'number' },
+      bonus: { type: 'number' }
+    }
+  },
+
+  KpiTrendPoint: {
+    type: 'object',
+    required: ['period_start', 'runs', 'total_profit', 'efficiency_score', 'on_time_rate', 'fuel_cost'],
+    properties: {
+      period_start: { type: 'string', format: 'date-time' },
+      runs: { type: 'integer' },
+      // Averages over the bucket's runs
+      total_profit: { type: 'number' },
+      efficiency_score: { type: 'number' },
+      on_time_rate: { type: 'number' },
+      fuel_cost: { type: 'number' }
+    }
+  },
+
+  KpiTrends: {
+    type: 'object',
+    required: ['bucket', 'points'],
+    properties: {
+      bucket: { type: 'string', enum: ['day', 'week'] },
+      points: { type: 'array', items: ref('KpiTrendPoint') }
+    }
+  },
+
+  SimulationProgress: {
+    type: 'object',
+    required: ['processed', 'total', 'percent', 'total_profit', 'on_time_deliveries', 'late_deliveries', 'on_time_rate'],
+    properties: {
+      processed: { type: 'integer' },
+      total: { type: 'integer' },
+      percent: { type: 'number' },
+      total_profit: { type: 'number' },
+      on_time_deliveries: { type: 'integer' },
+      late_deliveries: { type: 'integer' },
+      on_time_rate: { type: 'number' }
+    }
+  },
+
+  SimulationJob: {
+    type: 'object',
+    required: ['id', 'status', 'params', 'progress', 'result_id', 'error', 'created_at'],
+    properties: {
+      id: { type: 'string' },
+      status: { type: 'string', enum: ['running', 'completed', 'failed', 'cancelled'] },
+      params: ref('SimulationParams'),
+      progress: ref('SimulationProgress'),
+      result_id: { type: 'string', nullable: true },
+      error: { type: 'string', nullable: true },
+      created_at: { type: 'string', format: 'date-time' }
+    }
+  },
+
+  SweepRange: {
+    type: 'object',
+    required: ['min', 'max'],
+    properties: {
+      min: { type: 'integer' },
+      max: { type: 'integer' },
+      step: { type: 'integer', minimum: 1 }
+    }
+  },
+
+  SweepInput: {
+    type: 'object',
+    required: ['available_drivers', 'start_time', 'max_hours_per_day'],
+    properties: {
+      available_drivers: sweepAxis({ type: 'integer', minimum: 1 }, 'intRange', 'Available drivers must be integers of at least 1'),
+      start_time: sweepAxis({ type: 'string', pattern: TIME_PATTERN.source }, 'timeList', 'Start times must be in HH:MM format'),
+      max_hours_per_day: sweepAxis({ type: 'integer', minimum: 1, maximum: 24 }, 'intRange', 'Max hours per day must be integers between 1 and 24'),
+      seed
+    }
+  },
+
+  // The KPIs sweeps and comparisons report for each run
+  SimulationKpis: {
+    type: 'object',
+    required: ['total_profit', 'efficiency_score', 'on_time_deliveries', 'late_deliveries', 'unassigned_orders', 'fuel_cost'],
+    properties: {
+      total_profit: { type: 'number' },
+      efficiency_score: { type: 'number' },
+      on_time_deliveries: { type: 'integer' },
+      late_deliveries: { type: 'integer' },
+      unassigned_orders: { type: 'integer' },
+      fuel_cost: { type: 'number' }
+    }
+  },
+
+  SweepRun: {
+    type: 'object',
+    required: ['params', 'kpis'],
+    properties: {
+      params: ref('SimulationParams'),
+      kpis: ref('SimulationKpis')
+    }
+  },
+
+  Sweep: {
+    type: 'object',
+    required: ['seed', 'rule_set_version', 'axes', 'results', 'best'],
+    properties: {
+      seed: { type: 'integer' },
+      rule_set_version: { type: 'integer' },
+      // The values tried for each parameter
+      axes: {
+        type: 'object',
+        required: ['available_drivers', 'start_time', 'max_hours_per_day'],
+        properties: {
+          available_drivers: { type: 'array', items: { type: 'integer' } },
+          start_time: { type: 'array', items: { type: 'string' } },
+          max_hours_per_day: { type: 'array', items: { type: 'integer' } }
+        }
+      },
+      results: { type: 'array', items: ref('SweepRun') },
+      best: {
+        type: 'object',
+        required: ['total_profit', 'efficiency_score'],
+        properties: {
+          total_profit: ref('SweepRun'),
+          efficiency_score: ref('SweepRun')
+        }
+      }
+    }
+  },
+
+  ComparedRun: {
+    type: 'object',
+    required: ['_id', 'timestamp', 'simulation_params', 'kpis'],
+    properties: {
+      _id: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' },
+      simulation_params: ref('SimulationParams'),
+      kpis: ref('SimulationKpis')
+    }
+  },
+
+  Comparison: {
+    type: 'object',
+    required: ['baseline', 'runs', 'differences'],
+    properties: {
+      // The first id given; the other runs are compared against it
+      baseline: { type: 'string' },
+      runs: { type: 'array', items: ref('ComparedRun') },
+      differences: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['_id', 'against', 'kpis'],
+          properties: {
+            _id: { type: 'string' },
+            against: { type: 'string' },
+            kpis: ref('SimulationKpis')
+          }
+        }
+      }
+    }
+  },
+
+  // A message naming the simulation result ids that are invalid or missing
+  SimulationResultIdsError: {
+    type: 'object',
+    required: ['message'],
+    properties: {
+      message: { type: 'string' },
+      ids: { type: 'array', items: { type: 'string' } }
+    }
+  },
+
+  RushHourWindow: {
+    type: 'object',
+    required: ['start', 'end', 'multiplier'],
+    properties: {
+      start: { type: 'string', pattern: TIME_PATTERN.source },
+      end: { type: 'string', pattern: TIME_PATTERN.source },
+      multiplier: { type: 'number', minimum: MIN_MULTIPLIER, maximum: MAX_MULTIPLIER }
+    }
+  },
+
+  TrafficLevelModel: {
+    type: 'object',
+    required: ['multiplier', 'rush_hours'],
+    properties: {
+      multiplier: { type: 'number', minimum: MIN_MULTIPLIER, maximum: MAX_MULTIPLIER },
+      rush_hours: { type: 'array', items: ref('RushHourWindow') }
+    }
+  },
+
+  TrafficModel: {
+    type: 'object',
+    required: TRAFFIC_LEVELS,
+    properties: trafficLevels
+  },
+
+  RuleSetInput: {
+    type: 'object',
+    properties: {
+      ...ruleFields,
+      // Traffic levels that are left out keep their active settings
+      traffic_model: {
+        type: 'object',
+        properties: trafficLevels,
+        'x-validator': 'partialTrafficModel',
+        'x-error-message': 'Traffic model levels must be Low, Medium or High, each with a multiplier between 0.5 and 5 and rush-hour windows in HH:MM format'
+      },
+      notes: { type: 'string', maxLength: 200, 'x-trim': true, 'x-error-message': 'Notes cannot exceed 200 characters' }
+    }
+  },
+
+  RuleSet: {
+    type: 'object',
+    required: ['_id', 'version', ...Object.keys(ruleFields), 'traffic_model', 'active', 'createdAt'],
+    properties: {
+      ...documentFields,
+      version: { type: 'integer' },
+      ...ruleFields,
+      traffic_model: ref('TrafficModel'),
+      active: { type: 'boolean' },
+      notes: { type: 'string' },
+      created_by: { type: 'string' }
+    }
+  },
+
+  // Newest version first
+  RuleSetList: { type: 'array', items: ref('RuleSet') },
+
+  DriverReportRow: {
+    type: 'object',
+    required: [
+      '_id', 'name', 'shift_hours', 'past_week_hours', 'total_hours', 'average_hours_per_day', 'utilization',
+      'is_fatigued', 'consecutive_days_over', 'projected_week_hours', 'exceeds_weekly_cap'
+    ],
+    properties: {
+      _id: { type: 'string' },
+      name: { type: 'string' },
+      shift_hours: { type: 'integer' },
+      past_week_hours: { type: 'array', items: { type: 'integer' } },
+      total_hours: { type: 'number' },
+      average_hours_per_day: { type: 'number' },
+      // Average hours worked as a percentage of the shift
+      utilization: { type: 'number' },
+      is_fatigued: { type: 'boolean' },
+      consecutive_days_over: { type: 'integer' },
+      // Hours over the last seven days once today's shift is worked
+      projected_week_hours: { type: 'number' },
+      exceeds_weekly_cap: { type: 'boolean' }
+    }
+  },
+
+  DriverReport: {
+    type: 'object',
+    required: ['rule_set_version', 'fatigue_threshold_hours', 'weekly_hours_cap', 'drivers'],
+    properties: {
+      rule_set_version: { type: 'integer' },
+      fatigue_threshold_hours: { type: 'number' },
+      weekly_hours_cap: { type: 'number' },
+      drivers: { type: 'array', items: ref('DriverReportRow') }
+    }
+  },
+
+  ImportReport: {
+    type: 'object',
+    required: ['message', 'mode', 'dry_run', 'total_rows', 'valid_rows', 'errors'],
+    properties: {
+      message: { type: 'string' },
+      mode: { type: 'string', enum: ['merge', 'replace'] },
+      dry_run: { type: 'boolean' },
+      total_rows: { type: 'integer' },
+      valid_rows: { type: 'integer' },
+      errors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['line', 'errors'],
+          properties: {
+            line: { type: 'integer' },
+            errors: { type: 'array', items: { type: 'string' } }
+          }
+        }
+      },
+      inserted: { type: 'integer' },
+      updated: { type: 'integer' },
+      // Orders a route replace would orphan; the import is refused while set
+      affected_orders: { type: 'array', items: { type: 'integer' } }
+    }
+  },
+
+  AuditEntity: { type: 'string', enum: ['driver', 'route', 'order', 'simulation'] },
+
+  AuditAction: { type: 'string', enum: ['create', 'update', 'delete', 'restore', 'purge', 'import'] },
+
+  AuditEntry: {
+    type: 'object',
+    required: ['_id', 'action', 'entity', 'changes', 'createdAt'],
+    properties: {
+      _id: { type: 'string' },
+      user: { type: 'string' },
+      // Copied so entries stay readable after the user is deleted
+      user_name: { type: 'string' },
+      action: ref('AuditAction'),
+      entity: ref('AuditEntity'),
+      entity_id: { type: 'string' },
+      // Human-readable key of the record, e.g. the order_id or driver name
+      label: { type: 'string' },
+      changes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['field'],
+          properties: {
+            field: { type: 'string' },
+            before: {},
+            after: {}
+          }
+        }
+      },
+      // Extra facts that are not field changes, such as import counts
+      details: {},
+      createdAt: { type: 'string', format: 'date-time' }
+    }
+  },
+
+  Role: { type: 'string', enum: ['viewer', 'manager', 'admin'], 'x-error-message': 'Role must be viewer, manager or admin' },
+
+  // The user as the auth endpoints return it
+  AuthUser: {
+    type: 'object',
+    required: ['id', 'name', 'email', 'role'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      email: { type: 'string' },
+      role: ref('Role')
+    }
+  },
+
+  AuthTokens: {
+    type: 'object',
+    required: ['message', 'token', 'refresh_token'],
+    properties: {
+      message: { type: 'string' },
+      // Short-lived access token, sent as a Bearer token
+      token: { type: 'string' },
+      refresh_token: { type: 'string' }
+    }
+  },
+
+  AuthSession: {
+    allOf: [
+      ref('AuthTokens'),
+      { type: 'object', required: ['user'], properties: { user: ref('AuthUser') } }
+    ]
+  },
+
+  AuthVerification: {
+    type: 'object',
+    required: ['message', 'user'],
+    properties: {
+      message: { type: 'string' },
+      user: ref('AuthUser')
+    }
+  },
+
+  RegisterInput: {
+    type: 'object',
+    required: ['name', 'email', 'password'],
+    properties: {
+      ...userFields,
+      password
+    }
+  },
+
+  LoginInput: {
+    type: 'object',
+    required: ['email', 'password'],
+    properties: {
+      email: userFields.email,
+      password: { type: 'string', 'x-error-message': 'Password is required' }
+    }
+  },
+
+  RefreshTokenInput: {
+    type: 'object',
+    required: ['refresh_token'],
+    properties: {
+      refresh_token: { type: 'string', minLength: 1, 'x-error-message': 'Refresh token is required' }
+    }
+  },
+
+  // The password is only set on create or through the reset endpoint
+  UserInput: {
+    type: 'object',
+    required: ['name', 'email', 'role'],
+    properties: {
+      ...userFields,
+      role: ref('Role'),
+      active: { type: 'boolean', 'x-error-message': 'Active must be true or false' }
+    }
+  },
+
+  PasswordInput: {
+    type: 'object',
+    required: ['password'],
+    properties: {
+      password
+    }
+  },
+
+  UserCreateInput: {
+    allOf: [ref('UserInput'), ref('PasswordInput')]
+  },
+
+  User: stored('UserInput', {
+    ...documentFields,
+    active: { type: 'boolean' }
+  }, ['active', 'createdAt']),
+
+  DriverPage: page('Driver'),
+  RoutePage: page('Route'),
+  OrderPage: page('Order'),
+  SimulationResultPage: page('SimulationResult'),
+  SimulationDeliveryPage: page('SimulationDelivery'),
+  AuditEntryPage: page('AuditEntry'),
+  UserPage: page('User')
+};
+
+module.exports = schemas;
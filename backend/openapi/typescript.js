@@ -0,0 +1,110 @@
+// Render the OpenAPI document as TypeScript: one type per component schema
+// and an ApiOperations map from 'METHOD /path' to the operation's path
+// parameters, query, body and response, for the typed client in
+// src/services/api.ts.
+
+const HEADER = [
+  '// Generated from the OpenAPI document in backend/openapi. Do not edit by',
+  '// hand: change the schemas and run `npm run generate:api-types` in backend.',
+  ''
+];
+
+const typeName = ($ref) => $ref.split('/').pop();
+
+const pad = (depth) => '  '.repeat(depth);
+
+// Wrap unions and intersections before adding [] to them
+const arrayOf = (type) => (/[|&]/.test(type) ? `(${type})[]` : `${type}[]`);
+
+const renderProperties = (properties, required, depth) => {
+  const lines = Object.entries(properties).map(([name, schema]) => {
+    const optional = required.includes(name) ? '' : '?';
+    return `${pad(depth + 1)}${name}${optional}: ${renderType(schema, depth + 1)};`;
+  });
+  return ['{', ...lines, `${pad(depth)}}`].join('\n');
+};
+
+const renderType = (schema, depth = 0) => {
+  let type;
+  if (schema.$ref) {
+    type = typeName(schema.$ref);
+  } else if (schema.allOf) {
+    type = schema.allOf.map(part => renderType(part, depth)).join(' & ');
+  } else if (schema.oneOf) {
+    type = schema.oneOf.map(part => renderType(part, depth)).join(' | ');
+  } else if (schema.enum) {
+    type = schema.enum.map(value => `'${value}'`).join(' | ');
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    type = 'number';
+  } else if (schema.type === 'string' || schema.type === 'boolean') {
+    type = schema.type;
+  } else if (schema.type === 'array') {
+    type = arrayOf(renderType(schema.items, depth));
+  } else if (schema.properties) {
+    type = renderProperties(schema.properties, schema.required || [], depth);
+  } else if (schema.additionalProperties) {
+    type = `Record<string, ${renderType(schema.additionalProperties, depth)}>`;
+  } else {
+    type = 'unknown';
+  }
+  return schema.nullable ? `${type} | null` : type;
+};
+
+const renderSchema = (name, schema) => (schema.properties
+  ? `export interface ${name} ${renderType(schema)}`
+  : `export type ${name} = ${renderType(schema)};`);
+
+// The fields of one ApiOperations entry
+const renderOperation = (operation) => {
+  const parameters = operation.parameters || [];
+  const inPath = parameters.filter(parameter => parameter.in === 'path');
+  const inQuery = parameters.filter(parameter => parameter.in === 'query');
+  const fields = [];
+
+  if (inPath.length > 0) {
+    const properties = Object.fromEntries(inPath.map(parameter => [parameter.name, parameter.schema]));
+    fields.push(`path: ${renderType({ properties, required: inPath.map(parameter => parameter.name) }, 2)};`);
+  }
+  if (inQuery.length > 0) {
+    const properties = Object.fromEntries(inQuery.map(parameter => [parameter.name, parameter.schema]));
+    const required = inQuery.filter(parameter => parameter.required).map(parameter => parameter.name);
+    fields.push(`query${required.length > 0 ? '' : '?'}: ${renderType({ properties, required }, 2)};`);
+  }
+  if (operation.requestBody) {
+    // JSON, or the text of a CSV upload
+    const [content] = Object.values(operation.requestBody.content);
+    fields.push(`body: ${renderType(content.schema, 2)};`);
+  }
+
+  const [, success] = Object.entries(operation.responses).find(([status]) => status.startsWith('2'));
+  fields.push(`response: ${renderType(success.content['application/json'].schema, 2)};`);
+
+  return fields.map(field => `${pad(2)}${field}`);
+};
+
+const renderApiTypes = (document) => {
+  const schemas = Object.entries(document.components.schemas).map(([name, schema]) => renderSchema(name, schema));
+
+  const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => [
+      `${pad(1)}'${method.toUpperCase()} ${path}': {`,
+      ...renderOperation(operation),
+      `${pad(1)}};`
+    ].join('\n'))
+  );
+
+  return [
+    ...HEADER,
+    schemas.join('\n\n'),
+    '',
+    'export interface ApiOperations {',
+    operations.join('\n'),
+    '}',
+    ''
+  ].join('\n');
+};
+
+module.exports = {
+  renderType,
+  renderApiTypes
+};
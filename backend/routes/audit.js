@@ -0,0 +1,52 @@
+const express = require('express');
+const { query, validationResult } = require('express-validator');
+const AuditEntry = require('../models/AuditEntry');
+const auth = require('../middleware/auth');
+const { validateListQuery, addRange, findPage } = require('../utils/listQuery');
+
+const router = express.Router();
+
+// Validation middleware for the audit log query
+const validateAuditQuery = [
+  ...validateListQuery(['createdAt', 'entity', 'action', 'user_name']),
+  query('entity').optional().isIn(['driver', 'route', 'order', 'simulation']).withMessage('Entity must be driver, route, order or simulation'),
+  query('entity_id').optional().isMongoId().withMessage('Entity ID must be a valid ID'),
+  query('action').optional().isIn(['create', 'update', 'delete', 'restore', 'purge', 'import']).withMessage('Action must be create, update, delete, restore, purge or import'),
+  query('user').optional().isMongoId().withMessage('User must be a valid ID'),
+  query('from').optional().isISO8601().withMessage('From must be an ISO 8601 date').toDate(),
+  query('to').optional().isISO8601().withMessage('To must be an ISO 8601 date').toDate()
+];
+
+// Mongo filter for the audit log query parameters
+const buildAuditFilter = ({ entity, entity_id, action, user, from, to }) => {
+  const filter = {};
+  if (entity) filter.entity = entity;
+  if (entity_id) filter.entity_id = entity_id;
+  if (action) filter.action = action;
+  if (user) filter.user = user;
+  return addRange(filter, 'createdAt', from, to);
+};
+
+// @route   GET /api/audit
+// @desc    Get a page of audit entries, newest first (page, limit, sort,
+//          order, entity, entity_id, action, user, from, to)
+// @access  Private
+router.get('/', auth, validateAuditQuery, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const page = await findPage(AuditEntry, buildAuditFilter(req.query), req.query, { createdAt: -1 });
+    res.json(page);
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    res.status(500).json({ message: 'Server error while fetching audit log' });
+  }
+});
+
+module.exports = router;
@@ -1,26 +1,24 @@
 const express = require('express');
-const jwt = require('jsonwebtoken');
-const { body, validationResult } = require('express-validator');
+const { validationResult } = require('express-validator');
 const User = require('../models/User');
 const auth = require('../middleware/auth');
+const { issueTokens, rotateRefreshToken, revokeRefreshToken, revokeSessions } = require('../utils/tokens');
+const { bodyValidators } = require('../utils/schemaValidators');
+const schemas = require('../openapi/schemas');
 
 const router = express.Router();
 
-// Generate JWT token
-const generateToken = (userId) => {
-  return jwt.sign({ id: userId }, process.env.JWT_SECRET, {
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d'
-  });
-};
+const validateRegister = bodyValidators(schemas.RegisterInput);
+
+const validateLogin = bodyValidators(schemas.LoginInput);
+
+const validateRefreshToken = bodyValidators(schemas.RefreshTokenInput);
 
 // @route   POST /api/auth/register
-// @desc    Register a new user
+// @desc    Register a new user. Self-registered users are viewers, who can
+//          only read, until an admin gives them another role.
 // @access  Public
-router.post('/register', [
-  body('name').trim().isLength({ min: 2, max: 50 }).withMessage('Name must be between 2 and 50 characters'),
-  body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email'),
-  body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters long')
-], async (req, res) => {
+router.post('/register', validateRegister, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -42,12 +40,13 @@ router.post('/register', [
     const user = new User({ name, email, password });
     await user.save();
 
-    // Generate token
-    const token = generateToken(user._id);
+    // Generate access and refresh tokens
+    const { token, refresh_token } = await issueTokens(user);
 
     res.status(201).json({
       message: 'User registered successfully',
       token,
+      refresh_token,
       user: {
         id: user._id,
         name: user.name,
@@ -64,10 +63,7 @@ router.post('/register', [
 // @route   POST /api/auth/login
 // @desc    Login user
 // @access  Public
-router.post('/login', [
-  body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email'),
-  body('password').exists().withMessage('Password is required')
-], async (req, res) => {
+router.post('/login', validateLogin, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -91,12 +87,17 @@ router.post('/login', [
       return res.status(401).json({ message: 'Invalid email or password' });
     }
 
-    // Generate token
-    const token = generateToken(user._id);
+    if (!user.active) {
+      return res.status(403).json({ message: 'Account is disabled. Ask an administrator to enable it.' });
+    }
+
+    // Generate access and refresh tokens
+    const { token, refresh_token } = await issueTokens(user);
 
     res.json({
       message: 'Login successful',
       token,
+      refresh_token,
       user: {
         id: user._id,
         name: user.name,
@@ -110,6 +111,68 @@ router.post('/login', [
   }
 });
 
+// @route   POST /api/auth/refresh
+// @desc    Swap a refresh token for a new access and refresh token pair
+// @access  Public
+router.post('/refresh', validateRefreshToken, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const rotated = await rotateRefreshToken(req.body.refresh_token);
+    if (!rotated) {
+      return res.status(401).json({ message: 'Invalid or expired refresh token' });
+    }
+
+    res.json({
+      message: 'Token refreshed',
+      ...rotated.tokens
+    });
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({ message: 'Server error during token refresh' });
+  }
+});
+
+// @route   POST /api/auth/logout
+// @desc    Revoke a refresh token, ending that session
+// @access  Public
+router.post('/logout', validateRefreshToken, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    await revokeRefreshToken(req.body.refresh_token);
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ message: 'Server error during logout' });
+  }
+});
+
+// @route   POST /api/auth/logout-all
+// @desc    Revoke every session of the current user, on all devices
+// @access  Private
+router.post('/logout-all', auth, async (req, res) => {
+  try {
+    await revokeSessions(req.user._id);
+    res.json({ message: 'Logged out of all sessions' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ message: 'Server error during logout' });
+  }
+});
+
 // @route   GET /api/auth/verify
 // @desc    Verify JWT token
 // @access  Private
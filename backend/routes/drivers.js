@@ -1,31 +1,114 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { query, validationResult } = require('express-validator');
 const Driver = require('../models/Driver');
+const RuleSet = require('../models/RuleSet');
 const auth = require('../middleware/auth');
+const authorize = require('../middleware/authorize');
+const { buildDriverReport } = require('../utils/driverReport');
+const { createImportHandler } = require('../utils/csvImport');
+const { recordAudit } = require('../utils/audit');
+const { validateExport, sendExport } = require('../utils/export');
+const { validateListQuery, buildSort, containsText, findPage } = require('../utils/listQuery');
+const { validateTrashQuery, validatePurge, createTrashHandlers } = require('../utils/softDelete');
+const { bodyValidators } = require('../utils/schemaValidators');
+const schemas = require('../openapi/schemas');
 
 const router = express.Router();
 
 // Validation middleware for driver data
-const validateDriver = [
-  body('name').trim().isLength({ min: 2, max: 50 }).withMessage('Name must be between 2 and 50 characters'),
-  body('shift_hours').isInt({ min: 1, max: 24 }).withMessage('Shift hours must be between 1 and 24'),
-  body('past_week_hours').isArray({ min: 7, max: 7 }).withMessage('Past week hours must be an array of 7 numbers'),
-  body('past_week_hours.*').isInt({ min: 0, max: 24 }).withMessage('Each day hours must be between 0 and 24')
+const validateDriver = bodyValidators(schemas.DriverInput);
+
+// Validation middleware for the driver list and export query
+const validateDriverQuery = [
+  ...validateListQuery(['name', 'shift_hours', 'createdAt']),
+  query('search').optional().trim().isLength({ max: 50 }).withMessage('Search cannot exceed 50 characters')
+];
+
+// Mongo filter for the driver list and export query parameters
+const buildDriverFilter = ({ search }) => (search ? { name: containsText(search) } : {});
+
+// Columns of the CSV import and export, the same layout as data/drivers.csv
+const csvColumns = [
+  { header: 'name', value: driver => driver.name },
+  { header: 'shift_hours', value: driver => driver.shift_hours },
+  { header: 'past_week_hours', value: driver => driver.past_week_hours.join('|') }
 ];
 
+const trash = createTrashHandlers({ Model: Driver, entity: 'driver', name: 'Driver', label: 'drivers' });
+
 // @route   GET /api/drivers
-// @desc    Get all drivers
+// @desc    Get a page of drivers (page, limit, sort, order, search)
 // @access  Private
-router.get('/', auth, async (req, res) => {
+router.get('/', auth, validateDriverQuery, async (req, res) => {
   try {
-    const drivers = await Driver.find().sort({ createdAt: -1 });
-    res.json(drivers);
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const page = await findPage(Driver, buildDriverFilter(req.query), req.query, { createdAt: -1 });
+    res.json(page);
   } catch (error) {
     console.error('Error fetching drivers:', error);
     res.status(500).json({ message: 'Server error while fetching drivers' });
   }
 });
 
+// @route   GET /api/drivers/report
+// @desc    Get utilization, fatigue and weekly cap figures for every driver
+// @access  Private
+router.get('/report', auth, async (req, res) => {
+  try {
+    const ruleSet = await RuleSet.getActive();
+    const rules = ruleSet.toRules();
+    const drivers = await Driver.find().sort({ name: 1 });
+
+    res.json({
+      rule_set_version: ruleSet.version,
+      fatigue_threshold_hours: rules.fatigue_threshold_hours,
+      weekly_hours_cap: rules.weekly_hours_cap,
+      drivers: drivers.map(driver => buildDriverReport(driver, rules))
+    });
+  } catch (error) {
+    console.error('Error building driver report:', error);
+    res.status(500).json({ message: 'Server error while building driver report' });
+  }
+});
+
+// @route   GET /api/drivers/export?format=csv|json|xlsx
+// @desc    Download drivers; the CSV layout matches the import format
+// @access  Private
+router.get('/export', auth, validateExport, validateDriverQuery, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const drivers = await Driver.find(buildDriverFilter(req.query)).sort(buildSort(req.query, { createdAt: -1 }));
+    await sendExport(res, { format: req.query.format || 'csv', name: 'drivers', columns: csvColumns, rows: drivers });
+  } catch (error) {
+    console.error('Error exporting drivers:', error);
+    res.status(500).json({ message: 'Server error while exporting drivers' });
+  }
+});
+
+// @route   GET /api/drivers/trash
+// @desc    Get a page of deleted drivers (page, limit), most recently deleted first
+// @access  Private
+router.get('/trash', auth, validateTrashQuery, trash.list);
+
+// @route   DELETE /api/drivers/trash?older_than_days=
+// @desc    Permanently remove drivers deleted at least older_than_days ago
+// @access  Admin
+router.delete('/trash', auth, authorize('records:delete'), validatePurge, trash.purge);
+
 // @route   GET /api/drivers/:id
 // @desc    Get driver by ID
 // @access  Private
@@ -44,8 +127,8 @@ router.get('/:id', auth, async (req, res) => {
 
 // @route   POST /api/drivers
 // @desc    Create a new driver
-// @access  Private
-router.post('/', auth, validateDriver, async (req, res) => {
+// @access  Admin
+router.post('/', auth, authorize('drivers:write'), validateDriver, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -64,6 +147,7 @@ router.post('/', auth, validateDriver, async (req, res) => {
     });
 
     await driver.save();
+    await recordAudit(req, { action: 'create', entity: 'driver', after: driver });
     res.status(201).json(driver);
   } catch (error) {
     console.error('Error creating driver:', error);
@@ -77,10 +161,33 @@ router.post('/', auth, validateDriver, async (req, res) => {
   }
 });
 
+// @route   POST /api/drivers/import?mode=merge|replace&dry_run=true
+// @desc    Import drivers from a CSV file (name,shift_hours,past_week_hours
+//          with the week's hours separated by |); merge matches on name
+// @access  Admin
+router.post('/import', auth, authorize('drivers:write'), express.text({ type: 'text/csv', limit: '10mb' }), createImportHandler({
+  Model: Driver,
+  entity: 'driver',
+  label: 'drivers',
+  columns: csvColumns.map(column => column.header),
+  key: 'name',
+  chains: validateDriver,
+  toBody: (row) => ({
+    name: row.name,
+    shift_hours: row.shift_hours,
+    past_week_hours: row.past_week_hours ? row.past_week_hours.split('|').map(hours => hours.trim()) : []
+  }),
+  toDocument: (body) => ({
+    name: body.name,
+    shift_hours: Number(body.shift_hours),
+    past_week_hours: body.past_week_hours.map(Number)
+  })
+}));
+
 // @route   PUT /api/drivers/:id
 // @desc    Update driver
-// @access  Private
-router.put('/:id', auth, validateDriver, async (req, res) => {
+// @access  Admin
+router.put('/:id', auth, authorize('drivers:write'), validateDriver, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -91,6 +198,8 @@ router.put('/:id', auth, validateDriver, async (req, res) => {
     }
 
     const { name, shift_hours, past_week_hours } = req.body;
+    // Current version, for the audit entry
+    const before = await Driver.findById(req.params.id);
 
     const driver = await Driver.findByIdAndUpdate(
       req.params.id,
@@ -102,6 +211,7 @@ router.put('/:id', auth, validateDriver, async (req, res) => {
       return res.status(404).json({ message: 'Driver not found' });
     }
 
+    await recordAudit(req, { action: 'update', entity: 'driver', before, after: driver });
     res.json(driver);
   } catch (error) {
     console.error('Error updating driver:', error);
@@ -115,16 +225,22 @@ router.put('/:id', auth, validateDriver, async (req, res) => {
   }
 });
 
+// @route   POST /api/drivers/:id/restore
+// @desc    Bring a deleted driver back from the trash
+// @access  Admin
+router.post('/:id/restore', auth, authorize('records:delete'), trash.restore);
+
 // @route   DELETE /api/drivers/:id
-// @desc    Delete driver
-// @access  Private
-router.delete('/:id', auth, async (req, res) => {
+// @desc    Move driver to the trash
+// @access  Admin
+router.delete('/:id', auth, authorize('records:delete'), async (req, res) => {
   try {
-    const driver = await Driver.findByIdAndDelete(req.params.id);
+    const driver = await Driver.findByIdAndUpdate(req.params.id, { deleted_at: new Date() }, { new: true });
     if (!driver) {
       return res.status(404).json({ message: 'Driver not found' });
     }
-    res.json({ message: 'Driver deleted successfully' });
+    await recordAudit(req, { action: 'delete', entity: 'driver', before: driver });
+    res.json({ message: 'Driver moved to the trash' });
   } catch (error) {
     console.error('Error deleting driver:', error);
     res.status(500).json({ message: 'Server error while deleting driver' });
@@ -1,32 +1,120 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { query, validationResult } = require('express-validator');
 const Order = require('../models/Order');
 const Route = require('../models/Route');
 const auth = require('../middleware/auth');
+const authorize = require('../middleware/authorize');
+const { createImportHandler } = require('../utils/csvImport');
+const { recordAudit } = require('../utils/audit');
+const { validateExport, sendExport } = require('../utils/export');
+const { validateListQuery, buildSort, addRange, findPage } = require('../utils/listQuery');
+const { TIME_PATTERN, padTime } = require('../utils/time');
+const { validateTrashQuery, validatePurge, createTrashHandlers } = require('../utils/softDelete');
+const { bodyValidators } = require('../utils/schemaValidators');
+const schemas = require('../openapi/schemas');
 
 const router = express.Router();
 
 // Validation middleware for order data
-const validateOrder = [
-  body('order_id').isInt({ min: 1 }).withMessage('Order ID must be a positive integer'),
-  body('value_rs').isInt({ min: 1 }).withMessage('Order value must be at least ₹1'),
-  body('route_id').isInt({ min: 1 }).withMessage('Route ID must be a positive integer'),
-  body('delivery_time').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).withMessage('Delivery time must be in HH:MM format')
+const validateOrder = bodyValidators(schemas.OrderInput);
+
+// Validation middleware for the order list and export query
+const validateOrderQuery = [
+  ...validateListQuery(['order_id', 'value_rs', 'route_id', 'delivery_time']),
+  query('min_value').optional().isInt({ min: 0 }).withMessage('Minimum value must be a non-negative integer').toInt(),
+  query('max_value').optional().isInt({ min: 0 }).withMessage('Maximum value must be a non-negative integer').toInt(),
+  query('route_id').optional().isInt({ min: 1 }).withMessage('Route ID must be a positive integer').toInt(),
+  query('delivery_from').optional().matches(TIME_PATTERN).withMessage('Delivery window start must be in HH:MM format').customSanitizer(padTime),
+  query('delivery_to').optional().matches(TIME_PATTERN).withMessage('Delivery window end must be in HH:MM format').customSanitizer(padTime)
 ];
 
+// Mongo filter for the order list and export query parameters. Delivery
+// times are stored as zero-padded HH:MM strings, so the window can compare
+// them as text.
+const buildOrderFilter = ({ min_value, max_value, route_id, delivery_from, delivery_to }) => {
+  const filter = {};
+  addRange(filter, 'value_rs', min_value, max_value);
+  addRange(filter, 'delivery_time', delivery_from, delivery_to);
+  if (route_id !== undefined) filter.route_id = route_id;
+  return filter;
+};
+
+// Columns of the CSV import and export, the same layout as data/orders.csv
+const csvColumns = [
+  { header: 'order_id', value: order => order.order_id },
+  { header: 'value_rs', value: order => order.value_rs },
+  { header: 'route_id', value: order => order.route_id },
+  { header: 'delivery_time', value: order => order.delivery_time }
+];
+
+// Orders only come back onto a route that still exists
+const trash = createTrashHandlers({
+  Model: Order,
+  entity: 'order',
+  name: 'Order',
+  label: 'orders',
+  checkRestore: async (order) => ((await Route.exists({ route_id: order.route_id }))
+    ? null
+    : `Route #${order.route_id} no longer exists. Restore it first.`)
+});
+
+// Message for an order_id that is taken, possibly by an order in the trash
+const takenOrderIdMessage = (order) => (order.deleted_at
+  ? 'Order ID belongs to an order in the trash. Restore it instead.'
+  : 'Order ID already exists');
+
 // @route   GET /api/orders
-// @desc    Get all orders
+// @desc    Get a page of orders (page, limit, sort, order, min_value, max_value, route_id, delivery_from, delivery_to)
 // @access  Private
-router.get('/', auth, async (req, res) => {
+router.get('/', auth, validateOrderQuery, async (req, res) => {
   try {
-    const orders = await Order.find().sort({ order_id: 1 });
-    res.json(orders);
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const page = await findPage(Order, buildOrderFilter(req.query), req.query, { order_id: 1 });
+    res.json(page);
   } catch (error) {
     console.error('Error fetching orders:', error);
     res.status(500).json({ message: 'Server error while fetching orders' });
   }
 });
 
+// @route   GET /api/orders/export?format=csv|json|xlsx
+// @desc    Download orders; the CSV layout matches the import format
+// @access  Private
+router.get('/export', auth, validateExport, validateOrderQuery, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const orders = await Order.find(buildOrderFilter(req.query)).sort(buildSort(req.query, { order_id: 1 }));
+    await sendExport(res, { format: req.query.format || 'csv', name: 'orders', columns: csvColumns, rows: orders });
+  } catch (error) {
+    console.error('Error exporting orders:', error);
+    res.status(500).json({ message: 'Server error while exporting orders' });
+  }
+});
+
+// @route   GET /api/orders/trash
+// @desc    Get a page of deleted orders (page, limit), most recently deleted first
+// @access  Private
+router.get('/trash', auth, validateTrashQuery, trash.list);
+
+// @route   DELETE /api/orders/trash?older_than_days=
+// @desc    Permanently remove orders deleted at least older_than_days ago
+// @access  Admin
+router.delete('/trash', auth, authorize('records:delete'), validatePurge, trash.purge);
+
 // @route   GET /api/orders/:id
 // @desc    Get order by ID
 // @access  Private
@@ -46,7 +134,7 @@ router.get('/:id', auth, async (req, res) => {
 // @route   POST /api/orders
 // @desc    Create a new order
 // @access  Private
-router.post('/', auth, validateOrder, async (req, res) => {
+router.post('/', auth, authorize('orders:write'), validateOrder, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -59,9 +147,9 @@ router.post('/', auth, validateOrder, async (req, res) => {
     const { order_id, value_rs, route_id, delivery_time } = req.body;
 
     // Check if order_id already exists
-    const existingOrder = await Order.findOne({ order_id });
+    const existingOrder = await Order.findOne({ order_id }).setOptions({ withDeleted: true });
     if (existingOrder) {
-      return res.status(400).json({ message: 'Order ID already exists' });
+      return res.status(400).json({ message: takenOrderIdMessage(existingOrder) });
     }
 
     // Check if route exists
@@ -78,6 +166,7 @@ router.post('/', auth, validateOrder, async (req, res) => {
     });
 
     await order.save();
+    await recordAudit(req, { action: 'create', entity: 'order', after: order });
     res.status(201).json(order);
   } catch (error) {
     console.error('Error creating order:', error);
@@ -91,10 +180,34 @@ router.post('/', auth, validateOrder, async (req, res) => {
   }
 });
 
+// @route   POST /api/orders/import?mode=merge|replace&dry_run=true
+// @desc    Import orders from a CSV file (order_id,value_rs,route_id,delivery_time);
+//          every route_id must refer to an existing route, merge matches on order_id
+// @access  Private
+router.post('/import', auth, authorize('orders:write'), express.text({ type: 'text/csv', limit: '10mb' }), createImportHandler({
+  Model: Order,
+  entity: 'order',
+  label: 'orders',
+  columns: csvColumns.map(column => column.header),
+  key: 'order_id',
+  chains: validateOrder,
+  toBody: (row) => ({ ...row }),
+  toDocument: (body) => ({
+    order_id: Number(body.order_id),
+    value_rs: Number(body.value_rs),
+    route_id: Number(body.route_id),
+    delivery_time: body.delivery_time
+  }),
+  loadCheckRow: async () => {
+    const routeIds = new Set(await Route.distinct('route_id'));
+    return (body) => (routeIds.has(Number(body.route_id)) ? [] : [`Route ${body.route_id} does not exist`]);
+  }
+}));
+
 // @route   PUT /api/orders/:id
 // @desc    Update order
 // @access  Private
-router.put('/:id', auth, validateOrder, async (req, res) => {
+router.put('/:id', auth, authorize('orders:write'), validateOrder, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -105,14 +218,16 @@ router.put('/:id', auth, validateOrder, async (req, res) => {
     }
 
     const { order_id, value_rs, route_id, delivery_time } = req.body;
+    // Current version, for the audit entry
+    const before = await Order.findById(req.params.id);
 
     // Check if order_id already exists (excluding current order)
     const existingOrder = await Order.findOne({ 
       order_id, 
       _id: { $ne: req.params.id } 
-    });
+    }).setOptions({ withDeleted: true });
     if (existingOrder) {
-      return res.status(400).json({ message: 'Order ID already exists' });
+      return res.status(400).json({ message: takenOrderIdMessage(existingOrder) });
     }
 
     // Check if route exists
@@ -131,6 +246,7 @@ router.put('/:id', auth, validateOrder, async (req, res) => {
       return res.status(404).json({ message: 'Order not found' });
     }
 
+    await recordAudit(req, { action: 'update', entity: 'order', before, after: order });
     res.json(order);
   } catch (error) {
     console.error('Error updating order:', error);
@@ -144,16 +260,22 @@ router.put('/:id', auth, validateOrder, async (req, res) => {
   }
 });
 
+// @route   POST /api/orders/:id/restore
+// @desc    Bring a deleted order back from the trash; its route must exist
+// @access  Admin
+router.post('/:id/restore', auth, authorize('records:delete'), trash.restore);
+
 // @route   DELETE /api/orders/:id
-// @desc    Delete order
-// @access  Private
-router.delete('/:id', auth, async (req, res) => {
+// @desc    Move order to the trash
+// @access  Admin
+router.delete('/:id', auth, authorize('records:delete'), async (req, res) => {
   try {
-    const order = await Order.findByIdAndDelete(req.params.id);
+    const order = await Order.findByIdAndUpdate(req.params.id, { deleted_at: new Date() }, { new: true });
     if (!order) {
       return res.status(404).json({ message: 'Order not found' });
     }
-    res.json({ message: 'Order deleted successfully' });
+    await recordAudit(req, { action: 'delete', entity: 'order', before: order });
+    res.json({ message: 'Order moved to the trash' });
   } catch (error) {
     console.error('Error deleting order:', error);
     res.status(500).json({ message: 'Server error while deleting order' });
@@ -1,31 +1,143 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { query, validationResult } = require('express-validator');
 const Route = require('../models/Route');
+const Order = require('../models/Order');
+const RuleSet = require('../models/RuleSet');
 const auth = require('../middleware/auth');
+const authorize = require('../middleware/authorize');
+const { createImportHandler } = require('../utils/csvImport');
+const { recordAudit } = require('../utils/audit');
+const { validateExport, sendExport } = require('../utils/export');
+const { validateListQuery, buildSort, findPage } = require('../utils/listQuery');
+const { analyzeRoutes } = require('../utils/routeAnalytics');
+const { validateTrashQuery, validatePurge, createTrashHandlers } = require('../utils/softDelete');
+const { bodyValidators } = require('../utils/schemaValidators');
+const schemas = require('../openapi/schemas');
 
 const router = express.Router();
 
 // Validation middleware for route data
-const validateRoute = [
-  body('route_id').isInt({ min: 1 }).withMessage('Route ID must be a positive integer'),
-  body('distance').isFloat({ min: 0.1 }).withMessage('Distance must be at least 0.1 km'),
-  body('traffic_level').isIn(['Low', 'Medium', 'High']).withMessage('Traffic level must be Low, Medium, or High'),
-  body('base_time').isInt({ min: 1 }).withMessage('Base time must be at least 1 minute')
+const validateRoute = bodyValidators(schemas.RouteInput);
+
+const trash = createTrashHandlers({ Model: Route, entity: 'route', name: 'Route', label: 'routes' });
+
+// Message for a route_id that is taken, possibly by a route in the trash
+const takenRouteIdMessage = (route) => (route.deleted_at
+  ? 'Route ID belongs to a route in the trash. Restore it instead.'
+  : 'Route ID already exists');
+
+// Validation middleware for the ?reassignTo= route_id that orders of a
+// deleted or renumbered route move to
+const validateReassign = [
+  query('reassignTo').optional().isInt({ min: 1 }).withMessage('reassignTo must be a route ID').toInt()
+];
+
+// order_ids of the orders on a route, trashed ones included: restoring an
+// order needs its route to still exist
+const ordersOnRoute = async (route_id) => (await Order.distinct('order_id', { route_id })
+  .setOptions({ withDeleted: true })).sort((a, b) => a - b);
+
+// Move the orders of a route, trashed ones included, to another route. Each
+// order gets its own update audit entry so its history shows the change.
+const moveOrders = async (req, from, to) => {
+  const orders = await Order.find({ route_id: from }).setOptions({ withDeleted: true });
+  await Order.updateMany({ route_id: from }, { route_id: to });
+  for (const order of orders) {
+    await recordAudit(req, { action: 'update', entity: 'order', before: order, after: { ...order.toObject(), route_id: to } });
+  }
+};
+
+// Validation middleware for the route list and export query
+const validateRouteQuery = [
+  ...validateListQuery(['route_id', 'distance', 'traffic_level', 'base_time']),
+  query('traffic_level').optional().isIn(['Low', 'Medium', 'High']).withMessage('Traffic level must be Low, Medium, or High')
+];
+
+// Mongo filter for the route list and export query parameters
+const buildRouteFilter = ({ traffic_level }) => (traffic_level ? { traffic_level } : {});
+
+// Columns of the CSV import and export
+const csvColumns = [
+  { header: 'route_id', value: route => route.route_id },
+  { header: 'distance', value: route => route.distance },
+  { header: 'traffic_level', value: route => route.traffic_level },
+  { header: 'base_time', value: route => route.base_time }
 ];
 
 // @route   GET /api/routes
-// @desc    Get all routes
+// @desc    Get a page of routes (page, limit, sort, order, traffic_level)
 // @access  Private
-router.get('/', auth, async (req, res) => {
+router.get('/', auth, validateRouteQuery, async (req, res) => {
   try {
-    const routes = await Route.find().sort({ route_id: 1 });
-    res.json(routes);
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const page = await findPage(Route, buildRouteFilter(req.query), req.query, { route_id: 1 });
+    res.json(page);
   } catch (error) {
     console.error('Error fetching routes:', error);
     res.status(500).json({ message: 'Server error while fetching routes' });
   }
 });
 
+// @route   GET /api/routes/export?format=csv|json|xlsx
+// @desc    Download routes; the CSV layout matches the import format
+// @access  Private
+router.get('/export', auth, validateExport, validateRouteQuery, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const routes = await Route.find(buildRouteFilter(req.query)).sort(buildSort(req.query, { route_id: 1 }));
+    await sendExport(res, { format: req.query.format || 'csv', name: 'routes', columns: csvColumns, rows: routes });
+  } catch (error) {
+    console.error('Error exporting routes:', error);
+    res.status(500).json({ message: 'Server error while exporting routes' });
+  }
+});
+
+// @route   GET /api/routes/analytics
+// @desc    Order count, value, fuel cost, profit per km and expected late
+//          rate of every route under the active rules, most profitable first
+// @access  Private
+router.get('/analytics', auth, async (req, res) => {
+  try {
+    const [routes, orders, ruleSet] = await Promise.all([
+      Route.find(),
+      Order.find(),
+      RuleSet.getActive()
+    ]);
+
+    res.json({
+      rule_set_version: ruleSet.version,
+      routes: analyzeRoutes(routes, orders, ruleSet.toRules())
+    });
+  } catch (error) {
+    console.error('Error fetching route analytics:', error);
+    res.status(500).json({ message: 'Server error while fetching route analytics' });
+  }
+});
+
+// @route   GET /api/routes/trash
+// @desc    Get a page of deleted routes (page, limit), most recently deleted first
+// @access  Private
+router.get('/trash', auth, validateTrashQuery, trash.list);
+
+// @route   DELETE /api/routes/trash?older_than_days=
+// @desc    Permanently remove routes deleted at least older_than_days ago
+// @access  Admin
+router.delete('/trash', auth, authorize('records:delete'), validatePurge, trash.purge);
+
 // @route   GET /api/routes/:id
 // @desc    Get route by ID
 // @access  Private
@@ -44,8 +156,8 @@ router.get('/:id', auth, async (req, res) => {
 
 // @route   POST /api/routes
 // @desc    Create a new route
-// @access  Private
-router.post('/', auth, validateRoute, async (req, res) => {
+// @access  Admin
+router.post('/', auth, authorize('routes:write'), validateRoute, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -58,9 +170,9 @@ router.post('/', auth, validateRoute, async (req, res) => {
     const { route_id, distance, traffic_level, base_time } = req.body;
 
     // Check if route_id already exists
-    const existingRoute = await Route.findOne({ route_id });
+    const existingRoute = await Route.findOne({ route_id }).setOptions({ withDeleted: true });
     if (existingRoute) {
-      return res.status(400).json({ message: 'Route ID already exists' });
+      return res.status(400).json({ message: takenRouteIdMessage(existingRoute) });
     }
 
     const route = new Route({
@@ -71,6 +183,7 @@ router.post('/', auth, validateRoute, async (req, res) => {
     });
 
     await route.save();
+    await recordAudit(req, { action: 'create', entity: 'route', after: route });
     res.status(201).json(route);
   } catch (error) {
     console.error('Error creating route:', error);
@@ -84,10 +197,46 @@ router.post('/', auth, validateRoute, async (req, res) => {
   }
 });
 
-// @route   PUT /api/routes/:id
-// @desc    Update route
-// @access  Private
-router.put('/:id', auth, validateRoute, async (req, res) => {
+// @route   POST /api/routes/import?mode=merge|replace&dry_run=true
+// @desc    Import routes from a CSV file (route_id,distance,traffic_level,base_time);
+//          merge matches on route_id. Replace returns 409 with the
+//          affected_orders when orders are on routes missing from the file
+// @access  Admin
+router.post('/import', auth, authorize('routes:write'), express.text({ type: 'text/csv', limit: '10mb' }), createImportHandler({
+  Model: Route,
+  entity: 'route',
+  label: 'routes',
+  columns: csvColumns.map(column => column.header),
+  key: 'route_id',
+  chains: validateRoute,
+  toBody: (row) => ({ ...row }),
+  toDocument: (body) => ({
+    route_id: Number(body.route_id),
+    distance: Number(body.distance),
+    traffic_level: body.traffic_level,
+    base_time: Number(body.base_time)
+  }),
+  // Replacing must not leave orders on routes the file drops, the same
+  // check as deleting a route
+  checkReplace: async (documents) => {
+    const kept = documents.map(document => document.route_id);
+    const affectedOrders = (await Order.distinct('order_id', { route_id: { $nin: kept } })
+      .setOptions({ withDeleted: true })).sort((a, b) => a - b);
+    return affectedOrders.length > 0
+      ? {
+          message: `${affectedOrders.length} orders are on routes missing from the file. Reassign them to another route first.`,
+          affected_orders: affectedOrders
+        }
+      : null;
+  }
+}));
+
+// @route   PUT /api/routes/:id?reassignTo=
+// @desc    Update route. When route_id changes, its orders follow it to the
+//          new number, or move to the reassignTo route when given; the
+//          response lists them in affected_orders
+// @access  Admin
+router.put('/:id', auth, authorize('routes:write'), validateRoute, validateReassign, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -98,14 +247,23 @@ router.put('/:id', auth, validateRoute, async (req, res) => {
     }
 
     const { route_id, distance, traffic_level, base_time } = req.body;
+    // Current version, for the audit entry
+    const before = await Route.findById(req.params.id);
 
     // Check if route_id already exists (excluding current route)
     const existingRoute = await Route.findOne({ 
       route_id, 
       _id: { $ne: req.params.id } 
-    });
+    }).setOptions({ withDeleted: true });
     if (existingRoute) {
-      return res.status(400).json({ message: 'Route ID already exists' });
+      return res.status(400).json({ message: takenRouteIdMessage(existingRoute) });
+    }
+
+    // The target is another route, or this route under its new number
+    const { reassignTo } = req.query;
+    if (reassignTo !== undefined && reassignTo !== Number(route_id) &&
+        !(await Route.exists({ route_id: reassignTo, _id: { $ne: req.params.id } }))) {
+      return res.status(400).json({ message: 'reassignTo must be another existing route' });
     }
 
     const route = await Route.findByIdAndUpdate(
@@ -118,7 +276,20 @@ router.put('/:id', auth, validateRoute, async (req, res) => {
       return res.status(404).json({ message: 'Route not found' });
     }
 
-    res.json(route);
+    let affectedOrders = [];
+    if (before.route_id !== route.route_id) {
+      affectedOrders = await ordersOnRoute(before.route_id);
+      await moveOrders(req, before.route_id, reassignTo ?? route.route_id);
+    }
+
+    await recordAudit(req, {
+      action: 'update',
+      entity: 'route',
+      before,
+      after: route,
+      details: affectedOrders.length > 0 ? { affected_orders: affectedOrders, reassigned_to: reassignTo ?? route.route_id } : undefined
+    });
+    res.json({ ...route.toJSON(), affected_orders: affectedOrders });
   } catch (error) {
     console.error('Error updating route:', error);
     if (error.name === 'ValidationError') {
@@ -131,16 +302,56 @@ router.put('/:id', auth, validateRoute, async (req, res) => {
   }
 });
 
-// @route   DELETE /api/routes/:id
-// @desc    Delete route
-// @access  Private
-router.delete('/:id', auth, async (req, res) => {
+// @route   POST /api/routes/:id/restore
+// @desc    Bring a deleted route back from the trash
+// @access  Admin
+router.post('/:id/restore', auth, authorize('records:delete'), trash.restore);
+
+// @route   DELETE /api/routes/:id?reassignTo=
+// @desc    Move route to the trash. A route that still has orders is only deleted when
+//          reassignTo names another route to move them to; otherwise the
+//          response is 409 with the affected_orders.
+// @access  Admin
+router.delete('/:id', auth, authorize('records:delete'), validateReassign, async (req, res) => {
   try {
-    const route = await Route.findByIdAndDelete(req.params.id);
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const route = await Route.findById(req.params.id);
     if (!route) {
       return res.status(404).json({ message: 'Route not found' });
     }
-    res.json({ message: 'Route deleted successfully' });
+
+    const { reassignTo } = req.query;
+    const affectedOrders = await ordersOnRoute(route.route_id);
+    if (affectedOrders.length > 0) {
+      if (reassignTo === undefined) {
+        return res.status(409).json({
+          message: `Route #${route.route_id} still has ${affectedOrders.length} orders. Reassign them to another route first.`,
+          affected_orders: affectedOrders
+        });
+      }
+      if (reassignTo === route.route_id || !(await Route.exists({ route_id: reassignTo }))) {
+        return res.status(400).json({ message: 'reassignTo must be another existing route' });
+      }
+      await moveOrders(req, route.route_id, reassignTo);
+    }
+
+    const before = route.toObject();
+    route.deleted_at = new Date();
+    await route.save();
+    await recordAudit(req, {
+      action: 'delete',
+      entity: 'route',
+      before,
+      details: affectedOrders.length > 0 ? { affected_orders: affectedOrders, reassigned_to: reassignTo } : undefined
+    });
+    res.json({ message: 'Route moved to the trash', affected_orders: affectedOrders });
   } catch (error) {
     console.error('Error deleting route:', error);
     res.status(500).json({ message: 'Server error while deleting route' });
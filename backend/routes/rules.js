@@ -0,0 +1,107 @@
+const express = require('express');
+const { validationResult } = require('express-validator');
+const RuleSet = require('../models/RuleSet');
+const auth = require('../middleware/auth');
+const authorize = require('../middleware/authorize');
+const { RULE_FIELDS } = require('../utils/rules');
+const { bodyValidators } = require('../utils/schemaValidators');
+const schemas = require('../openapi/schemas');
+
+const router = express.Router();
+
+// Validation middleware for rule set data; every rule is optional and
+// falls back to the currently active value
+const validateRuleSet = bodyValidators(schemas.RuleSetInput);
+
+// @route   GET /api/rules
+// @desc    Get all rule set versions
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    await RuleSet.getActive();
+    const ruleSets = await RuleSet.find().sort({ version: -1 });
+    res.json(ruleSets);
+  } catch (error) {
+    console.error('Error fetching rule sets:', error);
+    res.status(500).json({ message: 'Server error while fetching rule sets' });
+  }
+});
+
+// @route   GET /api/rules/active
+// @desc    Get the active rule set
+// @access  Private
+router.get('/active', auth, async (req, res) => {
+  try {
+    const ruleSet = await RuleSet.getActive();
+    res.json(ruleSet);
+  } catch (error) {
+    console.error('Error fetching active rule set:', error);
+    res.status(500).json({ message: 'Server error while fetching active rule set' });
+  }
+});
+
+// @route   POST /api/rules
+// @desc    Save a new rule set version and make it active
+// @access  Admin
+router.post('/', auth, authorize('rules:write'), validateRuleSet, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    // Start from the active rules so only changed fields need to be sent
+    const active = await RuleSet.getActive();
+    const latest = await RuleSet.findOne().sort({ version: -1 });
+
+    const rules = active.toRules();
+    RULE_FIELDS.forEach(field => {
+      if (req.body[field] === undefined) return;
+      // Traffic levels that are not sent keep their active settings
+      rules[field] = field === 'traffic_model'
+        ? { ...rules.traffic_model, ...req.body.traffic_model }
+        : Number(req.body[field]);
+    });
+
+    const ruleSet = new RuleSet({
+      ...rules,
+      version: latest.version + 1,
+      notes: req.body.notes,
+      created_by: req.user._id
+    });
+
+    await ruleSet.save();
+    const activated = await RuleSet.activate(ruleSet._id);
+    res.status(201).json(activated);
+  } catch (error) {
+    console.error('Error creating rule set:', error);
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ 
+        message: 'Validation error', 
+        errors: Object.values(error.errors).map(e => e.message) 
+      });
+    }
+    res.status(500).json({ message: 'Server error while creating rule set' });
+  }
+});
+
+// @route   PUT /api/rules/:id/activate
+// @desc    Make an earlier rule set version active again
+// @access  Admin
+router.put('/:id/activate', auth, authorize('rules:write'), async (req, res) => {
+  try {
+    const ruleSet = await RuleSet.activate(req.params.id);
+    if (!ruleSet) {
+      return res.status(404).json({ message: 'Rule set not found' });
+    }
+    res.json(ruleSet);
+  } catch (error) {
+    console.error('Error activating rule set:', error);
+    res.status(500).json({ message: 'Server error while activating rule set' });
+  }
+});
+
+module.exports = router;
@@ -1,131 +1,189 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const mongoose = require('mongoose');
+const { query, validationResult } = require('express-validator');
 const Driver = require('../models/Driver');
 const Route = require('../models/Route');
 const Order = require('../models/Order');
 const SimulationResult = require('../models/SimulationResult');
+const SimulationDelivery = require('../models/SimulationDelivery');
+const RuleSet = require('../models/RuleSet');
 const auth = require('../middleware/auth');
+const authorize = require('../middleware/authorize');
+const { simulateDeliveries, simulateDays } = require('../utils/simulation');
+const { generateSeed } = require('../utils/random');
+const { validateExport, sendExport } = require('../utils/export');
+const { TREND_BUCKETS, buildTrendPipeline, formatTrendPoint } = require('../utils/trends');
+const { validateListQuery, buildSort, addRange, findPage } = require('../utils/listQuery');
+const { TIME_PATTERN, padTime } = require('../utils/time');
+const { recordAudit } = require('../utils/audit');
+const { bodyValidators } = require('../utils/schemaValidators');
+const schemas = require('../openapi/schemas');
+const {
+  jobSnapshot,
+  startSimulationJob,
+  getSimulationJob,
+  cancelSimulationJob,
+  subscribeToJob
+} = require('../utils/simulationJobs');
+const {
+  expandRange,
+  expandTimes,
+  sweepSizeError,
+  yieldToEventLoop,
+  buildCombinations
+} = require('../utils/sweep');
 
 const router = express.Router();
 
 // Validation middleware for simulation parameters
-const validateSimulation = [
-  body('available_drivers').isInt({ min: 1 }).withMessage('Available drivers must be at least 1'),
-  body('start_time').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).withMessage('Start time must be in HH:MM format'),
-  body('max_hours_per_day').isInt({ min: 1, max: 24 }).withMessage('Max hours per day must be between 1 and 24')
+const validateSimulation = bodyValidators(schemas.SimulationParams);
+
+// Simulation results per page of history
+const HISTORY_PAGE_SIZE = 10;
+
+// Validation middleware for the history list and export query
+const validateHistoryQuery = [
+  ...validateListQuery(['timestamp', 'total_profit', 'efficiency_score']),
+  query('from').optional().isISO8601().withMessage('From must be an ISO 8601 date').toDate(),
+  query('to').optional().isISO8601().withMessage('To must be an ISO 8601 date').toDate(),
+  query('drivers').optional().isInt({ min: 1 }).withMessage('Drivers must be a positive integer').toInt(),
+  query('start_time').optional().matches(TIME_PATTERN).withMessage('Start time must be in HH:MM format').customSanitizer(padTime)
 ];
 
-// Helper function to convert time string to minutes
-const timeToMinutes = (timeString) => {
-  const [hours, minutes] = timeString.split(':').map(Number);
-  return hours * 60 + minutes;
+// Mongo filter for the history query parameters
+const buildHistoryFilter = ({ from, to, drivers, start_time }) => {
+  const filter = {};
+  if (drivers) filter['simulation_params.available_drivers'] = drivers;
+  if (start_time) filter['simulation_params.start_time'] = start_time;
+  return addRange(filter, 'timestamp', from, to);
 };
 
-// Helper function to convert minutes to time string
-const minutesToTime = (minutes) => {
-  const hours = Math.floor(minutes / 60);
-  const mins = minutes % 60;
-  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+// Validation middleware for the delivery list query
+const validateDeliveryQuery = [
+  ...validateListQuery(['day', 'order_id', 'route_id', 'lateness_minutes']),
+  query('late').optional().isBoolean().withMessage('Late must be true or false').toBoolean(),
+  query('status').optional().isIn(['delivered', 'unassigned', 'orphaned']).withMessage('Status must be delivered, unassigned, or orphaned'),
+  query('driver').optional().isMongoId().withMessage('Driver must be a driver ID'),
+  query('driver_name').optional().isString().trim().notEmpty().withMessage('Driver name must not be empty'),
+  query('route_id').optional().isInt({ min: 1 }).withMessage('Route ID must be a positive integer').toInt(),
+  query('day').optional().isInt({ min: 1 }).withMessage('Day must be a positive integer').toInt()
+];
+
+// Mongo filter for the delivery list query parameters
+const buildDeliveryFilter = (simulation, { late, status, driver, driver_name, route_id, day }) => {
+  const filter = { simulation };
+  if (late !== undefined) filter.is_late = late;
+  if (status) filter.status = status;
+  if (driver) filter.driver = driver;
+  if (driver_name) filter.driver_name = driver_name;
+  if (route_id) filter.route_id = route_id;
+  if (day) filter.day = day;
+  return filter;
 };
 
-// Main simulation logic
-const runDeliverySimulation = async (params) => {
-  const { available_drivers, start_time, max_hours_per_day } = params;
+// Validation middleware for the trends query
+const validateTrendsQuery = [
+  query('from').optional().isISO8601().withMessage('From must be an ISO 8601 date').toDate(),
+  query('to').optional().isISO8601().withMessage('To must be an ISO 8601 date').toDate(),
+  query('bucket').optional().isIn(TREND_BUCKETS).withMessage(`Bucket must be one of: ${TREND_BUCKETS.join(', ')}`)
+];
+
+// Validation middleware for a list of simulation result ids
+const validateResultIds = bodyValidators(schemas.SimulationResultIds);
 
-  // Fetch data
-  const drivers = await Driver.find().limit(available_drivers);
-  const routes = await Route.find();
-  const orders = await Order.find();
+// Validation middleware for parameter sweeps; each field takes a single
+// value or a range ({ min, max, step } or a list, start_time a list of times)
+const validateSweep = bodyValidators(schemas.SweepInput);
+
+// Fetch the drivers, routes and orders a simulation runs against, in a
+// fixed order so a stored result's parameters replay against the same data
+const loadSimulationData = async (available_drivers) => {
+  const drivers = await Driver.find().sort({ _id: 1 }).limit(available_drivers);
+  const routes = await Route.find().sort({ _id: 1 });
+  const orders = await Order.find().sort({ order_id: 1 });
 
   if (drivers.length < available_drivers) {
     throw new Error(`Only ${drivers.length} drivers available, but ${available_drivers} requested`);
   }
 
-  // Create route lookup
-  const routeMap = {};
-  routes.forEach(route => {
-    routeMap[route.route_id] = route;
-  });
+  return { drivers, routes, orders };
+};
 
-  // Initialize simulation variables
-  let totalProfit = 0;
-  let onTimeDeliveries = 0;
-  let lateDeliveries = 0;
-  let totalFuelCost = 0;
-  let totalSurcharge = 0;
-
-  // Driver fatigue tracking (simplified - assume previous day data)
-  const driverFatigue = {};
-  drivers.forEach(driver => {
-    // Check if driver worked >8 hours yesterday (use last day of past_week_hours)
-    const yesterdayHours = driver.past_week_hours[driver.past_week_hours.length - 1];
-    driverFatigue[driver._id] = yesterdayHours > 8 ? 0.7 : 1.0; // 30% speed decrease if fatigued
-  });
+// Main simulation logic, run against the active rule set; runs covering
+// more than one day carry driver fatigue over from day to day
+const runDeliverySimulation = async (params) => {
+  const data = await loadSimulationData(params.available_drivers);
+  const ruleSet = await RuleSet.getActive();
+  const simulate = params.days > 1 ? simulateDays : simulateDeliveries;
+  const result = simulate(data, params, { rules: ruleSet.toRules() });
+  return { ...result, rule_set_version: ruleSet.version };
+};
 
-  // Process each order
-  for (const order of orders) {
-    const route = routeMap[order.route_id];
-    if (!route) continue;
-
-    // Calculate fuel cost
-    const baseFuelCost = route.distance * 5; // ₹5/km
-    const surcharge = route.traffic_level === 'High' ? route.distance * 2 : 0; // ₹2/km for high traffic
-    const orderFuelCost = baseFuelCost + surcharge;
-
-    totalFuelCost += baseFuelCost;
-    totalSurcharge += surcharge;
-
-    // Simulate delivery time (simplified)
-    const expectedDeliveryMinutes = timeToMinutes(order.delivery_time);
-    const baseRouteMinutes = route.base_time;
-    
-    // Apply driver fatigue (randomly assign driver for simulation)
-    const randomDriver = drivers[Math.floor(Math.random() * drivers.length)];
-    const fatigueMultiplier = driverFatigue[randomDriver._id];
-    const actualDeliveryMinutes = baseRouteMinutes / fatigueMultiplier;
-
-    // Check if delivery is on time (within base time + 10 minutes)
-    const isOnTime = actualDeliveryMinutes <= (baseRouteMinutes + 10);
-    
-    if (isOnTime) {
-      onTimeDeliveries++;
-      
-      // High-value bonus: 10% bonus for orders >₹1000 delivered on time
-      if (order.value_rs > 1000) {
-        totalProfit += order.value_rs * 0.1; // 10% bonus
-      }
-    } else {
-      lateDeliveries++;
-      totalProfit -= 50; // ₹50 penalty for late delivery
-    }
-
-    // Add order value to profit and subtract fuel cost
-    totalProfit += order.value_rs - orderFuelCost;
-  }
-
-  // Calculate efficiency score
-  const totalDeliveries = onTimeDeliveries + lateDeliveries;
-  const efficiencyScore = totalDeliveries > 0 ? (onTimeDeliveries / totalDeliveries) * 100 : 0;
-
-  return {
-    total_profit: Math.round(totalProfit),
-    efficiency_score: Math.round(efficiencyScore * 10) / 10,
-    on_time_deliveries: onTimeDeliveries,
-    late_deliveries: lateDeliveries,
-    fuel_cost_breakdown: {
-      base_cost: Math.round(totalFuelCost),
-      surcharge: Math.round(totalSurcharge),
-      total: Math.round(totalFuelCost + totalSurcharge)
-    },
-    simulation_params: params,
-    timestamp: new Date().toISOString()
-  };
+// Simulation parameters of a validated run request, with the defaults filled in
+const readSimulationParams = (body) => ({
+  available_drivers: body.available_drivers,
+  start_time: body.start_time,
+  max_hours_per_day: body.max_hours_per_day,
+  days: body.days ?? 1,
+  seed: body.seed ?? generateSeed()
+});
+
+// Save a simulation result along with its per-order delivery lines
+const saveSimulationResult = async (req, result) => {
+  const { deliveries, driver_hours, ...totals } = result;
+  const simulationResult = new SimulationResult(totals);
+  await simulationResult.save();
+
+  await SimulationDelivery.insertMany(
+    deliveries.map(delivery => ({ ...delivery, simulation: simulationResult._id }))
+  );
+
+  await recordAudit(req, { action: 'create', entity: 'simulation', after: simulationResult });
+  return simulationResult;
+};
+
+// KPIs that are compared between runs
+const extractKpis = (result) => ({
+  total_profit: result.total_profit,
+  efficiency_score: result.efficiency_score,
+  on_time_deliveries: result.on_time_deliveries,
+  late_deliveries: result.late_deliveries,
+  unassigned_orders: result.unassigned_orders.length,
+  fuel_cost: result.fuel_cost_breakdown.total
+});
+
+// Columns of the simulation history export, one row per run
+const historyColumns = [
+  { header: 'timestamp', value: result => result.timestamp.toISOString() },
+  { header: 'total_profit', value: result => result.total_profit },
+  { header: 'efficiency_score', value: result => result.efficiency_score },
+  { header: 'on_time_deliveries', value: result => result.on_time_deliveries },
+  { header: 'late_deliveries', value: result => result.late_deliveries },
+  { header: 'unassigned_orders', value: result => result.unassigned_orders.length },
+  { header: 'orphaned_orders', value: result => (result.orphaned_orders || []).length },
+  { header: 'fuel_cost', value: result => result.fuel_cost_breakdown.total },
+  { header: 'available_drivers', value: result => result.simulation_params.available_drivers },
+  { header: 'start_time', value: result => result.simulation_params.start_time },
+  { header: 'max_hours_per_day', value: result => result.simulation_params.max_hours_per_day },
+  { header: 'days', value: result => result.simulation_params.days },
+  { header: 'seed', value: result => result.simulation_params.seed },
+  { header: 'rule_set_version', value: result => result.rule_set_version }
+];
+
+// Difference of each KPI against a baseline run
+const diffKpis = (kpis, baseline) => {
+  const diff = {};
+  Object.keys(kpis).forEach(key => {
+    diff[key] = Math.round((kpis[key] - baseline[key]) * 10) / 10;
+  });
+  return diff;
 };
 
 // @route   POST /api/simulation/run
-// @desc    Run delivery simulation
+// @desc    Run delivery simulation and wait for the result. Large runs are
+//          better started as a job (POST /api/simulation/jobs).
 // @access  Private
-router.post('/run', auth, validateSimulation, async (req, res) => {
+router.post('/run', auth, authorize('simulation:run'), validateSimulation, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -135,28 +193,20 @@ router.post('/run', auth, validateSimulation, async (req, res) => {
       });
     }
 
-    const { available_drivers, start_time, max_hours_per_day } = req.body;
+    const params = readSimulationParams(req.body);
 
     // Check if we have enough drivers
     const driverCount = await Driver.countDocuments();
-    if (available_drivers > driverCount) {
+    if (params.available_drivers > driverCount) {
       return res.status(400).json({ 
-        message: `Only ${driverCount} drivers available, but ${available_drivers} requested` 
+        message: `Only ${driverCount} drivers available, but ${params.available_drivers} requested` 
       });
     }
 
     // Run simulation
-    const result = await runDeliverySimulation({
-      available_drivers,
-      start_time,
-      max_hours_per_day
-    });
-
-    // Save simulation result
-    const simulationResult = new SimulationResult(result);
-    await simulationResult.save();
-
-    res.json(result);
+    const result = await runDeliverySimulation(params);
+    const simulationResult = await saveSimulationResult(req, result);
+    res.json(simulationResult);
   } catch (error) {
     console.error('Simulation error:', error);
     res.status(500).json({ 
@@ -166,37 +216,347 @@ router.post('/run', auth, validateSimulation, async (req, res) => {
   }
 });
 
-// @route   GET /api/simulation/history
-// @desc    Get simulation history
+// @route   POST /api/simulation/jobs
+// @desc    Start a delivery simulation in the background. Responds 202 with
+//          the job; follow it at /jobs/:id/events and find the stored run
+//          at result_id once it completes
 // @access  Private
-router.get('/history', auth, async (req, res) => {
+router.post('/jobs', auth, authorize('simulation:run'), validateSimulation, async (req, res) => {
   try {
-    const { limit = 10, page = 1 } = req.query;
-    const skip = (page - 1) * limit;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
 
-    const results = await SimulationResult.find()
-      .sort({ timestamp: -1 })
-      .limit(parseInt(limit))
-      .skip(skip);
+    const params = readSimulationParams(req.body);
 
-    const total = await SimulationResult.countDocuments();
+    const driverCount = await Driver.countDocuments();
+    if (params.available_drivers > driverCount) {
+      return res.status(400).json({ 
+        message: `Only ${driverCount} drivers available, but ${params.available_drivers} requested` 
+      });
+    }
+
+    const data = await loadSimulationData(params.available_drivers);
+    const ruleSet = await RuleSet.getActive();
+    const job = startSimulationJob({
+      owner: req.user._id,
+      // Worker threads only take plain data
+      data: JSON.parse(JSON.stringify(data)),
+      params,
+      rules: ruleSet.toRules(),
+      onResult: async (result) => {
+        const simulationResult = await saveSimulationResult(req, { ...result, rule_set_version: ruleSet.version });
+        return simulationResult._id;
+      }
+    });
+
+    res.status(202).json(jobSnapshot(job));
+  } catch (error) {
+    console.error('Error starting simulation job:', error);
+    res.status(500).json({ message: 'Server error while starting simulation' });
+  }
+});
+
+// @route   GET /api/simulation/jobs/:id
+// @desc    Get the status and progress of one of your simulation jobs
+// @access  Private
+router.get('/jobs/:id', auth, (req, res) => {
+  const job = getSimulationJob(req.params.id, req.user._id);
+  if (!job) {
+    return res.status(404).json({ message: 'Simulation job not found' });
+  }
+  res.json(jobSnapshot(job));
+});
+
+// @route   GET /api/simulation/jobs/:id/events
+// @desc    Server-Sent Events stream of a simulation job. Sends the current
+//          state first, then a 'progress' event per update and a final
+//          'completed', 'failed' or 'cancelled' event before closing
+// @access  Private
+router.get('/jobs/:id/events', auth, (req, res) => {
+  const job = getSimulationJob(req.params.id, req.user._id);
+  if (!job) {
+    return res.status(404).json({ message: 'Simulation job not found' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const send = (event, snapshot) => res.write(`event: ${event}\ndata: ${JSON.stringify(snapshot)}\n\n`);
+
+  send(job.status === 'running' ? 'progress' : job.status, jobSnapshot(job));
+  if (job.status !== 'running') {
+    return res.end();
+  }
+
+  // Comment lines keep proxies from closing a quiet connection
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  const unsubscribe = subscribeToJob(job, (event, snapshot) => {
+    send(event, snapshot);
+    if (event !== 'progress') res.end();
+  });
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+});
+
+// @route   DELETE /api/simulation/jobs/:id
+// @desc    Cancel a running simulation job; nothing is saved
+// @access  Private
+router.delete('/jobs/:id', auth, (req, res) => {
+  const job = getSimulationJob(req.params.id, req.user._id);
+  if (!job) {
+    return res.status(404).json({ message: 'Simulation job not found' });
+  }
+  if (!cancelSimulationJob(job)) {
+    return res.status(409).json({ message: `Simulation job is already ${job.status === 'running' ? 'saving its result' : job.status}` });
+  }
+  res.json(jobSnapshot(job));
+});
+
+// @route   POST /api/simulation/sweep
+// @desc    Run the simulation for every combination of parameter ranges
+// @access  Private
+router.post('/sweep', auth, authorize('simulation:run'), validateSweep, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const axes = {
+      available_drivers: expandRange(req.body.available_drivers),
+      start_time: expandTimes(req.body.start_time),
+      max_hours_per_day: expandRange(req.body.max_hours_per_day)
+    };
+    const seed = req.body.seed ?? generateSeed();
+
+    const combinations = buildCombinations(axes);
+    const sizeError = sweepSizeError(combinations.length, await Order.countDocuments());
+    if (sizeError) {
+      return res.status(400).json({ message: sizeError });
+    }
+
+    // Check if we have enough drivers for the largest run
+    const maxDrivers = Math.max(...axes.available_drivers);
+    const driverCount = await Driver.countDocuments();
+    if (maxDrivers > driverCount) {
+      return res.status(400).json({ 
+        message: `Only ${driverCount} drivers available, but ${maxDrivers} requested` 
+      });
+    }
+
+    // Load data once; every run uses the first N drivers like a single run does
+    const data = await loadSimulationData(maxDrivers);
+    const ruleSet = await RuleSet.getActive();
+    const rules = ruleSet.toRules();
+
+    // Each run is synchronous; yielding between them keeps the server
+    // answering other requests while the sweep works through the grid
+    const results = [];
+    for (const params of combinations) {
+      const result = simulateDeliveries(
+        { ...data, drivers: data.drivers.slice(0, params.available_drivers) },
+        { ...params, seed },
+        { rules }
+      );
+      results.push({ params: { ...params, seed }, kpis: extractKpis(result) });
+      await yieldToEventLoop();
+    }
+
+    const bestBy = (key) => results.reduce((best, cell) => (cell.kpis[key] > best.kpis[key] ? cell : best));
 
     res.json({
+      seed,
+      rule_set_version: ruleSet.version,
+      axes,
       results,
-      pagination: {
-        current_page: parseInt(page),
-        total_pages: Math.ceil(total / limit),
-        total_results: total,
-        has_next: skip + results.length < total,
-        has_prev: page > 1
+      best: {
+        total_profit: bestBy('total_profit'),
+        efficiency_score: bestBy('efficiency_score')
       }
     });
+  } catch (error) {
+    console.error('Sweep error:', error);
+    res.status(500).json({ 
+      message: 'Sweep failed', 
+      error: error.message 
+    });
+  }
+});
+
+// @route   GET /api/simulation/history
+// @desc    Get a page of simulation results, newest first (page, limit,
+//          sort, order, from, to, drivers, start_time)
+// @access  Private
+router.get('/history', auth, validateHistoryQuery, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const page = await findPage(
+      SimulationResult,
+      buildHistoryFilter(req.query),
+      { ...req.query, limit: req.query.limit || HISTORY_PAGE_SIZE },
+      { timestamp: -1 }
+    );
+    res.json(page);
   } catch (error) {
     console.error('Error fetching simulation history:', error);
     res.status(500).json({ message: 'Server error while fetching simulation history' });
   }
 });
 
+// @route   DELETE /api/simulation/history
+// @desc    Delete several simulation results and their delivery lines
+//          ({ ids: [...] }); ids that are not found are skipped
+// @access  Admin
+router.delete('/history', auth, authorize('records:delete'), validateResultIds, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const results = await SimulationResult.find({ _id: { $in: req.body.ids } });
+    const ids = results.map(result => result._id);
+    await SimulationResult.deleteMany({ _id: { $in: ids } });
+    await SimulationDelivery.deleteMany({ simulation: { $in: ids } });
+    for (const result of results) {
+      await recordAudit(req, { action: 'delete', entity: 'simulation', before: result });
+    }
+
+    res.json({ message: `${results.length} simulation results deleted`, deleted: results.length });
+  } catch (error) {
+    console.error('Error deleting simulation results:', error);
+    res.status(500).json({ message: 'Server error while deleting simulation results' });
+  }
+});
+
+// @route   GET /api/simulation/trends?from&to&bucket=day|week
+// @desc    Run count and average KPIs per day or week, oldest first
+// @access  Private
+router.get('/trends', auth, validateTrendsQuery, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const buckets = await SimulationResult.aggregate(buildTrendPipeline(req.query));
+    res.json({
+      bucket: req.query.bucket || 'day',
+      points: buckets.map(formatTrendPoint)
+    });
+  } catch (error) {
+    console.error('Error fetching simulation trends:', error);
+    res.status(500).json({ message: 'Server error while fetching simulation trends' });
+  }
+});
+
+// @route   GET /api/simulation/history/export?format=csv|json|xlsx
+// @desc    Download the KPIs of every simulation result matching the
+//          history query (sort, order, from, to, drivers, start_time)
+// @access  Private
+router.get('/history/export', auth, validateExport, validateHistoryQuery, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const results = await SimulationResult.find(buildHistoryFilter(req.query))
+      .sort(buildSort(req.query, { timestamp: -1 }));
+    await sendExport(res, {
+      format: req.query.format || 'csv',
+      name: 'simulation-history',
+      columns: historyColumns,
+      rows: results
+    });
+  } catch (error) {
+    console.error('Error exporting simulation history:', error);
+    res.status(500).json({ message: 'Server error while exporting simulation history' });
+  }
+});
+
+// @route   GET /api/simulation/compare?ids=a,b,c
+// @desc    Compare KPIs of two or more simulation results against the first one
+// @access  Private
+router.get('/compare', auth, async (req, res) => {
+  try {
+    const ids = (req.query.ids || '').split(',').map(id => id.trim()).filter(Boolean);
+
+    if (ids.length < 2) {
+      return res.status(400).json({ message: 'Provide at least two simulation result ids to compare' });
+    }
+
+    const invalidIds = ids.filter(id => !mongoose.isValidObjectId(id));
+    if (invalidIds.length > 0) {
+      return res.status(400).json({ message: 'Invalid simulation result ids', ids: invalidIds });
+    }
+
+    const results = await SimulationResult.find({ _id: { $in: ids } });
+    const resultMap = {};
+    results.forEach(result => {
+      resultMap[result._id.toString()] = result;
+    });
+
+    const missingIds = ids.filter(id => !resultMap[id]);
+    if (missingIds.length > 0) {
+      return res.status(404).json({ message: 'Simulation results not found', ids: missingIds });
+    }
+
+    // Keep the order the ids were given in; the first run is the baseline
+    const runs = ids.map(id => ({
+      _id: id,
+      timestamp: resultMap[id].timestamp,
+      simulation_params: resultMap[id].simulation_params,
+      kpis: extractKpis(resultMap[id])
+    }));
+    const baseline = runs[0];
+
+    res.json({
+      baseline: baseline._id,
+      runs,
+      differences: runs.slice(1).map(run => ({
+        _id: run._id,
+        against: baseline._id,
+        kpis: diffKpis(run.kpis, baseline.kpis)
+      }))
+    });
+  } catch (error) {
+    console.error('Error comparing simulation results:', error);
+    res.status(500).json({ message: 'Server error while comparing simulation results' });
+  }
+});
+
 // @route   GET /api/simulation/history/:id
 // @desc    Get specific simulation result
 // @access  Private
@@ -213,15 +573,45 @@ router.get('/history/:id', auth, async (req, res) => {
   }
 });
 
+// @route   GET /api/simulation/history/:id/deliveries
+// @desc    Get a page of per-order delivery lines of a simulation result
+//          (page, limit, sort, order, late, status, driver, driver_name,
+//          route_id, day)
+// @access  Private
+router.get('/history/:id/deliveries', auth, validateDeliveryQuery, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: errors.array() 
+      });
+    }
+
+    const result = await SimulationResult.findById(req.params.id);
+    if (!result) {
+      return res.status(404).json({ message: 'Simulation result not found' });
+    }
+
+    const page = await findPage(SimulationDelivery, buildDeliveryFilter(result._id, req.query), req.query, { day: 1, order_id: 1 });
+    res.json(page);
+  } catch (error) {
+    console.error('Error fetching simulation deliveries:', error);
+    res.status(500).json({ message: 'Server error while fetching simulation deliveries' });
+  }
+});
+
 // @route   DELETE /api/simulation/history/:id
 // @desc    Delete simulation result
-// @access  Private
-router.delete('/history/:id', auth, async (req, res) => {
+// @access  Admin
+router.delete('/history/:id', auth, authorize('records:delete'), async (req, res) => {
   try {
     const result = await SimulationResult.findByIdAndDelete(req.params.id);
     if (!result) {
       return res.status(404).json({ message: 'Simulation result not found' });
     }
+    await SimulationDelivery.deleteMany({ simulation: result._id });
+    await recordAudit(req, { action: 'delete', entity: 'simulation', before: result });
     res.json({ message: 'Simulation result deleted successfully' });
   } catch (error) {
     console.error('Error deleting simulation result:', error);
@@ -0,0 +1,214 @@
+const express = require('express');
+const { query, validationResult } = require('express-validator');
+const User = require('../models/User');
+const auth = require('../middleware/auth');
+const authorize = require('../middleware/authorize');
+const { validateListQuery, containsText, findPage } = require('../utils/listQuery');
+const { revokeSessions } = require('../utils/tokens');
+const { bodyValidators } = require('../utils/schemaValidators');
+const schemas = require('../openapi/schemas');
+
+const router = express.Router();
+
+const ROLES = schemas.Role.enum;
+
+// Every route here is admin only
+router.use(auth, authorize('users:manage'));
+
+// Validation middleware for user data; the password is only set on create
+// or through the reset endpoint
+const validateUser = bodyValidators(schemas.UserInput);
+
+const validatePassword = bodyValidators(schemas.PasswordInput);
+
+// Validation middleware for the user list query
+const validateUserQuery = [
+  ...validateListQuery(['name', 'email', 'role', 'createdAt']),
+  query('search').optional().trim().isLength({ max: 50 }).withMessage('Search cannot exceed 50 characters'),
+  query('role').optional().isIn(ROLES).withMessage(schemas.Role['x-error-message']),
+  query('active').optional().isBoolean().withMessage('Active must be true or false').toBoolean()
+];
+
+// Mongo filter for the user list query parameters
+const buildUserFilter = ({ search, role, active }) => {
+  const filter = {};
+  if (search) filter.$or = [{ name: containsText(search) }, { email: containsText(search) }];
+  if (role) filter.role = role;
+  if (active !== undefined) filter.active = active;
+  return filter;
+};
+
+// Admins may not lock themselves out by demoting, disabling or deleting
+// their own account
+const isSelf = (req) => req.user._id.equals(req.params.id);
+
+// @route   GET /api/users
+// @desc    Get a page of users (page, limit, sort, order, search, role, active)
+// @access  Admin
+router.get('/', validateUserQuery, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const page = await findPage(User, buildUserFilter(req.query), req.query, { name: 1 });
+    res.json(page);
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({ message: 'Server error while fetching users' });
+  }
+});
+
+// @route   GET /api/users/:id
+// @desc    Get user by ID
+// @access  Admin
+router.get('/:id', async (req, res) => {
+  try {
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    res.json(user);
+  } catch (error) {
+    console.error('Error fetching user:', error);
+    res.status(500).json({ message: 'Server error while fetching user' });
+  }
+});
+
+// @route   POST /api/users
+// @desc    Create a user with any role
+// @access  Admin
+router.post('/', validateUser, validatePassword, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { name, email, password, role, active } = req.body;
+
+    const existingUser = await User.findOne({ email });
+    if (existingUser) {
+      return res.status(400).json({ message: 'User already exists with this email' });
+    }
+
+    const user = new User({ name, email, password, role, active });
+    await user.save();
+    res.status(201).json(user);
+  } catch (error) {
+    console.error('Error creating user:', error);
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        message: 'Validation error',
+        errors: Object.values(error.errors).map(e => e.message)
+      });
+    }
+    res.status(500).json({ message: 'Server error while creating user' });
+  }
+});
+
+// @route   PUT /api/users/:id
+// @desc    Update a user's name, email, role and active flag
+// @access  Admin
+router.put('/:id', validateUser, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { name, email, role, active } = req.body;
+
+    if (isSelf(req) && (role !== 'admin' || active === false)) {
+      return res.status(400).json({ message: 'You cannot demote or disable your own account' });
+    }
+
+    const existingUser = await User.findOne({ email, _id: { $ne: req.params.id } });
+    if (existingUser) {
+      return res.status(400).json({ message: 'User already exists with this email' });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.params.id,
+      { name, email, role, ...(active !== undefined && { active }) },
+      { new: true, runValidators: true }
+    );
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    res.json(user);
+  } catch (error) {
+    console.error('Error updating user:', error);
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        message: 'Validation error',
+        errors: Object.values(error.errors).map(e => e.message)
+      });
+    }
+    res.status(500).json({ message: 'Server error while updating user' });
+  }
+});
+
+// @route   PUT /api/users/:id/password
+// @desc    Reset a user's password and log them out everywhere
+// @access  Admin
+router.put('/:id/password', validatePassword, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    // Saved through the document so the pre-save hook hashes it
+    user.password = req.body.password;
+    await user.save();
+    // Sessions opened with the old password end
+    await revokeSessions(user._id);
+    res.json({ message: 'Password reset successfully' });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    res.status(500).json({ message: 'Server error while resetting password' });
+  }
+});
+
+// @route   DELETE /api/users/:id
+// @desc    Delete user
+// @access  Admin
+router.delete('/:id', async (req, res) => {
+  try {
+    if (isSelf(req)) {
+      return res.status(400).json({ message: 'You cannot delete your own account' });
+    }
+
+    const user = await User.findByIdAndDelete(req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    res.json({ message: 'User deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    res.status(500).json({ message: 'Server error while deleting user' });
+  }
+});
+
+module.exports = router;
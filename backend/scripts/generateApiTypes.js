@@ -0,0 +1,10 @@
+const fs = require('fs');
+const path = require('path');
+const openApiDocument = require('../openapi');
+const { renderApiTypes } = require('../openapi/typescript');
+
+// Write the frontend API types generated from the OpenAPI document
+const API_TYPES_PATH = path.join(__dirname, '../../src/services/apiTypes.ts');
+
+fs.writeFileSync(API_TYPES_PATH, renderApiTypes(openApiDocument));
+console.log(`Wrote ${path.relative(process.cwd(), API_TYPES_PATH)}`);
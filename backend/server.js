@@ -10,19 +10,35 @@ const driverRoutes = require('./routes/drivers');
 const routeRoutes = require('./routes/routes');
 const orderRoutes = require('./routes/orders');
 const simulationRoutes = require('./routes/simulation');
+const ruleRoutes = require('./routes/rules');
+const userRoutes = require('./routes/users');
+const auditRoutes = require('./routes/audit');
+const openApiDocument = require('./openapi');
+const RuleSet = require('./models/RuleSet');
 
 const app = express();
 
 // Security middleware
 app.use(helmet());
 
-// Rate limiting
-const limiter = rateLimit({
+// Rate limiting. Reads get their own, larger budget: one page load fetches
+// the record counts, every page of routes and the list it shows, which
+// would use up a budget shared with writes within a few minutes.
+const rateLimitMessage = 'Too many requests from this IP, please try again later.';
+const isRead = (req) => req.method === 'GET';
+const readLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.'
+  max: 1000, // limit each IP to 1000 reads per windowMs
+  skip: (req) => !isRead(req),
+  message: rateLimitMessage
 });
-app.use('/api/', limiter);
+const writeLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100, // limit each IP to 100 other requests per windowMs
+  skip: isRead,
+  message: rateLimitMessage
+});
+app.use('/api/', readLimiter, writeLimiter);
 
 // CORS configuration
 app.use(cors({
@@ -34,13 +50,19 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
-// MongoDB connection
-mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/greencart-logistics', {
-  useNewUrlParser: true,
-  useUnifiedTopology: true,
-})
-.then(() => console.log('Connected to MongoDB'))
-.catch(err => console.error('MongoDB connection error:', err));
+// MongoDB connection (tests connect to their own database)
+if (process.env.NODE_ENV !== 'test') {
+  mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/greencart-logistics', {
+    useNewUrlParser: true,
+    useUnifiedTopology: true,
+  })
+  .then(() => {
+    console.log('Connected to MongoDB');
+    // Load the active business rules used by model virtuals
+    return RuleSet.getActive();
+  })
+  .catch(err => console.error('MongoDB connection error:', err));
+}
 
 // Routes
 app.use('/api/auth', authRoutes);
@@ -48,6 +70,14 @@ app.use('/api/drivers', driverRoutes);
 app.use('/api/routes', routeRoutes);
 app.use('/api/orders', orderRoutes);
 app.use('/api/simulation', simulationRoutes);
+app.use('/api/rules', ruleRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/audit', auditRoutes);
+
+// OpenAPI document of the API
+app.get('/api/docs', (req, res) => {
+  res.json(openApiDocument);
+});
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -72,8 +102,13 @@ app.use('*', (req, res) => {
   res.status(404).json({ message: 'Route not found' });
 });
 
-const PORT = process.env.PORT || 3001;
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
-});
\ No newline at end of file
+// Only listen when started directly so tests can import the app
+if (require.main === module) {
+  const PORT = process.env.PORT || 3001;
+  app.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+    console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  });
+}
+
+module.exports = app;
\ No newline at end of file
@@ -0,0 +1,28 @@
+const { AUDIT_FIELDS, diffDocuments } = require('../utils/audit');
+
+describe('Audit diffs', () => {
+  const order = { order_id: 7, value_rs: 500, route_id: 2, delivery_time: '01:00' };
+
+  it('should list only the fields that changed on update', () => {
+    const changes = diffDocuments(order, { ...order, value_rs: 750 }, AUDIT_FIELDS.order);
+
+    expect(changes).toEqual([{ field: 'value_rs', before: 500, after: 750 }]);
+  });
+
+  it('should record every field on create and delete', () => {
+    const created = diffDocuments(null, order, AUDIT_FIELDS.order);
+    const deleted = diffDocuments(order, null, AUDIT_FIELDS.order);
+
+    expect(created).toHaveLength(4);
+    expect(created[0]).toEqual({ field: 'order_id', before: undefined, after: 7 });
+    expect(deleted[1]).toEqual({ field: 'value_rs', before: 500, after: undefined });
+  });
+
+  it('should compare arrays by value', () => {
+    const driver = { name: 'Amit', shift_hours: 8, past_week_hours: [8, 8, 8, 8, 8, 8, 8] };
+
+    expect(diffDocuments(driver, { ...driver, past_week_hours: [...driver.past_week_hours] }, AUDIT_FIELDS.driver)).toEqual([]);
+    expect(diffDocuments(driver, { ...driver, past_week_hours: [8, 8, 8, 8, 8, 8, 6] }, AUDIT_FIELDS.driver))
+      .toHaveLength(1);
+  });
+});
@@ -36,6 +36,7 @@ describe('Authentication API', () => {
       expect(response.body).toHaveProperty('token');
       expect(response.body).toHaveProperty('user');
       expect(response.body.user.email).toBe(userData.email);
+      expect(response.body.user.role).toBe('viewer');
       expect(response.body.user).not.toHaveProperty('password');
     });
 
@@ -122,4 +123,92 @@ describe('Authentication API', () => {
       expect(response.body.message).toContain('Invalid email or password');
     });
   });
-});
\ No newline at end of file
+
+  describe('Refresh tokens and logout', () => {
+    let tokens;
+
+    beforeEach(async () => {
+      await new User({
+        name: 'Test User',
+        email: 'test@example.com',
+        password: 'password123'
+      }).save();
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'password123' });
+      tokens = response.body;
+    });
+
+    it('should rotate the refresh token', async () => {
+      expect(tokens).toHaveProperty('refresh_token');
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refresh_token: tokens.refresh_token });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('token');
+      expect(response.body.refresh_token).not.toBe(tokens.refresh_token);
+    });
+
+    it('should revoke every session when a used refresh token comes back', async () => {
+      const rotated = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refresh_token: tokens.refresh_token });
+
+      const reused = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refresh_token: tokens.refresh_token });
+      expect(reused.status).toBe(401);
+
+      const next = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refresh_token: rotated.body.refresh_token });
+      expect(next.status).toBe(401);
+    });
+
+    it('should not revoke other sessions when a logged out token is used', async () => {
+      const other = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'password123' });
+
+      await request(app)
+        .post('/api/auth/logout')
+        .send({ refresh_token: tokens.refresh_token });
+      const reused = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refresh_token: tokens.refresh_token });
+      expect(reused.status).toBe(401);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refresh_token: other.body.refresh_token });
+      expect(response.status).toBe(200);
+    });
+
+    it('should not refresh after logout', async () => {
+      const logout = await request(app)
+        .post('/api/auth/logout')
+        .send({ refresh_token: tokens.refresh_token });
+      expect(logout.status).toBe(200);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refresh_token: tokens.refresh_token });
+      expect(response.status).toBe(401);
+    });
+
+    it('should invalidate access tokens when logging out of all sessions', async () => {
+      const response = await request(app)
+        .post('/api/auth/logout-all')
+        .set('Authorization', `Bearer ${tokens.token}`);
+      expect(response.status).toBe(200);
+
+      const verify = await request(app)
+        .get('/api/auth/verify')
+        .set('Authorization', `Bearer ${tokens.token}`);
+      expect(verify.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+const { body } = require('express-validator');
+const { parseCsv, missingColumns, validateRows, mergeChanges } = require('../utils/csvImport');
+
+describe('CSV import', () => {
+  describe('parseCsv', () => {
+    it('should map each data row onto the header columns', () => {
+      const { columns, rows } = parseCsv('name,shift_hours,past_week_hours\r\nAmit,6,6|8|7|7|7|6|10\r\n\r\nPriya,6,10|9|6|6|6|7|7\r\n');
+
+      expect(columns).toEqual(['name', 'shift_hours', 'past_week_hours']);
+      expect(rows).toEqual([
+        { line: 2, values: { name: 'Amit', shift_hours: '6', past_week_hours: '6|8|7|7|7|6|10' } },
+        { line: 4, values: { name: 'Priya', shift_hours: '6', past_week_hours: '10|9|6|6|6|7|7' } }
+      ]);
+    });
+
+    it('should read quoted fields', () => {
+      const { rows } = parseCsv('name,notes\n"Rao, K.","said ""hi"""\n');
+
+      expect(rows[0].values).toEqual({ name: 'Rao, K.', notes: 'said "hi"' });
+    });
+
+    it('should report missing columns', () => {
+      const { columns } = parseCsv('order_id,value_rs\n1,500\n');
+
+      expect(missingColumns(columns, ['order_id', 'value_rs', 'route_id'])).toEqual(['route_id']);
+    });
+  });
+
+  describe('validateRows', () => {
+    const chains = [
+      body('order_id').isInt({ min: 1 }).withMessage('Order ID must be a positive integer'),
+      body('route_id').isInt({ min: 1 }).withMessage('Route ID must be a positive integer')
+    ];
+    const options = {
+      chains,
+      toBody: (row) => ({ ...row }),
+      keyOf: (row) => row.order_id,
+      checkRow: (row) => (row.route_id === '9' ? ['Route 9 does not exist'] : [])
+    };
+
+    it('should report errors per line and keep valid rows', async () => {
+      const { rows } = parseCsv('order_id,route_id\n1,2\nx,2\n1,3\n2,9\n3,1\n');
+
+      const result = await validateRows(rows, options);
+
+      expect(result.bodies).toEqual([{ order_id: '1', route_id: '2' }, { order_id: '3', route_id: '1' }]);
+      expect(result.errors).toEqual([
+        { line: 3, errors: ['Order ID must be a positive integer'] },
+        { line: 4, errors: ['Duplicate of line 2'] },
+        { line: 5, errors: ['Route 9 does not exist'] }
+      ]);
+    });
+  });
+
+  describe('mergeChanges', () => {
+    const route = { route_id: 1, distance: 5, traffic_level: 'Low', base_time: 30, deleted_at: null };
+
+    it('should audit new, restored and changed records', () => {
+      const existing = [route, { ...route, route_id: 2 }, { ...route, route_id: 3, deleted_at: new Date() }];
+      const written = [
+        { ...route, distance: 6 },
+        { ...route, route_id: 2 },
+        { ...route, route_id: 3 },
+        { ...route, route_id: 4 }
+      ];
+
+      const changes = mergeChanges(existing, written, { key: 'route_id', entity: 'route' });
+
+      expect(changes.map(change => [change.action, change.after.route_id])).toEqual([
+        ['update', 1],
+        ['restore', 3],
+        ['create', 4]
+      ]);
+      expect(changes[0].before).toBe(existing[0]);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+const { consecutiveDaysOver, buildDriverReport } = require('../utils/driverReport');
+const { DEFAULT_RULES } = require('../utils/rules');
+
+describe('Driver report', () => {
+  it('should count consecutive days over the threshold back from yesterday', () => {
+    expect(consecutiveDaysOver([9, 9, 6, 9, 10, 9, 9], 8)).toBe(4);
+    expect(consecutiveDaysOver([9, 9, 9, 9, 9, 9, 8], 8)).toBe(0);
+  });
+
+  it('should report utilization against shift hours', () => {
+    const report = buildDriverReport({ name: 'Amit', shift_hours: 8, past_week_hours: [6, 8, 4, 8, 6, 8, 2] });
+
+    expect(report.total_hours).toBe(42);
+    expect(report.average_hours_per_day).toBe(6);
+    expect(report.utilization).toBe(75);
+    expect(report.is_fatigued).toBe(false);
+  });
+
+  it('should flag fatigue and drivers who would break the weekly cap', () => {
+    const report = buildDriverReport({ name: 'Priya', shift_hours: 10, past_week_hours: [4, 7, 7, 7, 7, 10, 9] });
+
+    expect(report.is_fatigued).toBe(true);
+    expect(report.consecutive_days_over).toBe(2);
+    expect(report.projected_week_hours).toBe(57);
+    expect(report.exceeds_weekly_cap).toBe(true);
+    expect(buildDriverReport(
+      { name: 'Priya', shift_hours: 10, past_week_hours: [4, 7, 7, 7, 7, 10, 9] },
+      { ...DEFAULT_RULES, weekly_hours_cap: 60 }
+    ).exceeds_weekly_cap).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+const ExcelJS = require('exceljs');
+const { toCsv, toXlsx } = require('../utils/export');
+const { parseCsv } = require('../utils/csvImport');
+
+describe('Export', () => {
+  const columns = [
+    { header: 'name', value: driver => driver.name },
+    { header: 'shift_hours', value: driver => driver.shift_hours },
+    { header: 'past_week_hours', value: driver => driver.past_week_hours.join('|') }
+  ];
+  const drivers = [
+    { name: 'Amit', shift_hours: 6, past_week_hours: [6, 8, 7, 7, 7, 6, 10] },
+    { name: 'Rao, "K"', shift_hours: 8, past_week_hours: [8, 8, 8, 8, 8, 8, 8] }
+  ];
+
+  it('should write CSV in the seed file layout', () => {
+    expect(toCsv(columns, drivers)).toBe(
+      'name,shift_hours,past_week_hours\n' +
+      'Amit,6,6|8|7|7|7|6|10\n' +
+      '"Rao, ""K""",8,8|8|8|8|8|8|8\n'
+    );
+  });
+
+  it('should write CSV the importer reads back', () => {
+    const { rows } = parseCsv(toCsv(columns, drivers));
+
+    expect(rows.map(row => row.values.name)).toEqual(['Amit', 'Rao, "K"']);
+  });
+
+  it('should write an XLSX sheet with a header row', async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await toXlsx('drivers', columns, drivers));
+    const sheet = workbook.getWorksheet('drivers');
+
+    expect(sheet.getRow(1).values.slice(1)).toEqual(['name', 'shift_hours', 'past_week_hours']);
+    expect(sheet.getRow(2).values.slice(1)).toEqual(['Amit', 6, '6|8|7|7|7|6|10']);
+  });
+});
@@ -0,0 +1,50 @@
+const { buildSort, containsText, addRange, buildPagination, findPage } = require('../utils/listQuery');
+
+describe('List queries', () => {
+  it('should sort on the requested field and fall back to the default', () => {
+    expect(buildSort({ sort: 'value_rs', order: 'desc' }, { order_id: 1 })).toEqual({ value_rs: -1, _id: 1 });
+    expect(buildSort({}, { order_id: 1 })).toEqual({ order_id: 1, _id: 1 });
+  });
+
+  it('should only add the range bounds that are given', () => {
+    expect(addRange({}, 'value_rs', 500, undefined)).toEqual({ value_rs: { $gte: 500 } });
+    expect(addRange({}, 'delivery_time', '01:00', '02:00')).toEqual({ delivery_time: { $gte: '01:00', $lte: '02:00' } });
+    expect(addRange({}, 'value_rs', undefined, undefined)).toEqual({});
+  });
+
+  it('should escape search text', () => {
+    expect(containsText('a.b')).toEqual({ $regex: 'a\\.b', $options: 'i' });
+  });
+
+  it('should build the pagination envelope', () => {
+    expect(buildPagination({ page: 2, limit: 10, total: 25, count: 10 })).toEqual({
+      current_page: 2,
+      total_pages: 3,
+      total_results: 25,
+      has_next: true,
+      has_prev: true
+    });
+  });
+
+  it('should fetch one page of documents', async () => {
+    const calls = {};
+    const Model = {
+      find: (filter) => {
+        calls.filter = filter;
+        const cursor = {
+          sort: (sort) => { calls.sort = sort; return cursor; },
+          skip: (skip) => { calls.skip = skip; return cursor; },
+          limit: (limit) => { calls.limit = limit; return Promise.resolve([{ order_id: 3 }]); }
+        };
+        return cursor;
+      },
+      countDocuments: () => Promise.resolve(3)
+    };
+
+    const page = await findPage(Model, { route_id: 1 }, { page: 3, limit: 1 }, { order_id: 1 });
+
+    expect(calls).toEqual({ filter: { route_id: 1 }, sort: { order_id: 1, _id: 1 }, skip: 2, limit: 1 });
+    expect(page.results).toEqual([{ order_id: 3 }]);
+    expect(page.pagination).toMatchObject({ total_pages: 3, has_next: false, has_prev: true });
+  });
+});
@@ -0,0 +1,107 @@
+const fs = require('fs');
+const path = require('path');
+const { validationResult } = require('express-validator');
+const openApiDocument = require('../openapi');
+const schemas = require('../openapi/schemas');
+const { bodyValidators } = require('../utils/schemaValidators');
+const { renderType, renderApiTypes } = require('../openapi/typescript');
+
+describe('API contract', () => {
+  // Run the validators of a schema against a body one after another, the
+  // way a router would
+  const validate = async (schema, body) => {
+    const req = { body };
+    for (const chain of bodyValidators(schema)) {
+      await chain.run(req);
+    }
+    return { body: req.body, errors: validationResult(req).array().map(error => `${error.path}: ${error.msg}`) };
+  };
+
+  describe('bodyValidators', () => {
+    it('should accept a valid body and convert its numbers', async () => {
+      const { body, errors } = await validate(schemas.DriverInput, {
+        name: '  Amit  ',
+        shift_hours: '6',
+        past_week_hours: ['6', '8', '7', '7', '7', '6', '10']
+      });
+
+      expect(errors).toEqual([]);
+      expect(body).toEqual({ name: 'Amit', shift_hours: 6, past_week_hours: [6, 8, 7, 7, 7, 6, 10] });
+    });
+
+    it('should report each invalid field with its message', async () => {
+      const { errors } = await validate(schemas.DriverInput, {
+        name: 'A',
+        shift_hours: 30,
+        past_week_hours: [8, 8, 99]
+      });
+
+      expect(errors).toEqual([
+        'name: Name must be between 2 and 50 characters',
+        'shift_hours: Shift hours must be between 1 and 24',
+        'past_week_hours: Past week hours must be an array of 7 numbers',
+        'past_week_hours[2]: Each day hours must be between 0 and 24'
+      ]);
+    });
+
+    it('should check enums and patterns', async () => {
+      const route = await validate(schemas.RouteInput, { route_id: 1, distance: 5, traffic_level: 'Jammed', base_time: 30 });
+      const order = await validate(schemas.OrderInput, { order_id: 1, value_rs: 500, route_id: 1, delivery_time: '25:00' });
+
+      expect(route.errors).toEqual(['traffic_level: Traffic level must be Low, Medium, or High']);
+      expect(order.errors).toEqual(['delivery_time: Delivery time must be in HH:MM format']);
+    });
+
+    it('should zero-pad HH:MM times', async () => {
+      const { body, errors } = await validate(schemas.OrderInput, { order_id: 1, value_rs: 500, route_id: 1, delivery_time: '9:05' });
+
+      expect(errors).toEqual([]);
+      expect(body.delivery_time).toBe('09:05');
+    });
+
+    it('should only check optional fields when they are given', async () => {
+      const params = { available_drivers: 2, start_time: '09:00', max_hours_per_day: 8 };
+
+      expect((await validate(schemas.SimulationParams, params)).errors).toEqual([]);
+      expect((await validate(schemas.SimulationParams, { ...params, days: 0 })).errors)
+        .toEqual([expect.stringMatching(/^days: Days must be between 1 and \d+$/)]);
+    });
+
+    it('should normalize emails and convert booleans', async () => {
+      const { body, errors } = await validate(schemas.UserInput, { name: 'Priya', email: 'Priya@Example.com', role: 'viewer', active: 'false' });
+      const invalid = await validate(schemas.UserInput, { name: 'Priya', email: 'priya', role: 'owner' });
+
+      expect(errors).toEqual([]);
+      expect(body).toMatchObject({ email: 'priya@example.com', active: false });
+      expect(invalid.errors).toEqual(['email: Please provide a valid email', 'role: Role must be viewer, manager or admin']);
+    });
+
+    it('should run the x-validator checks', async () => {
+      const sweep = { available_drivers: { min: 1, max: 3 }, start_time: ['09:00', '10:00'], max_hours_per_day: 8 };
+      const rules = { traffic_model: { High: { multiplier: 2, rush_hours: [] } } };
+
+      expect((await validate(schemas.SweepInput, sweep)).errors).toEqual([]);
+      expect((await validate(schemas.SweepInput, { ...sweep, max_hours_per_day: [8, 30] })).errors)
+        .toEqual(['max_hours_per_day: Max hours per day must be integers between 1 and 24']);
+      expect((await validate(schemas.RuleSetInput, rules)).errors).toEqual([]);
+      expect((await validate(schemas.RuleSetInput, { traffic_model: { Jammed: {} } })).errors)
+        .toEqual([expect.stringMatching(/^traffic_model: Traffic model levels must be Low, Medium or High/)]);
+    });
+  });
+
+  describe('TypeScript types', () => {
+    it('should render schemas as TypeScript types', () => {
+      expect(renderType({ type: 'array', items: { type: 'string', enum: ['a', 'b'] } })).toBe("('a' | 'b')[]");
+      expect(renderType({ type: 'string', nullable: true })).toBe('string | null');
+      expect(renderType({ type: 'object', additionalProperties: { type: 'number' } })).toBe('Record<string, number>');
+      expect(renderType({ type: 'array', items: { oneOf: [{ type: 'integer' }, { type: 'string' }] } })).toBe('(number | string)[]');
+    });
+
+    it('should match the generated file in the frontend', () => {
+      const generated = fs.readFileSync(path.join(__dirname, '../../src/services/apiTypes.ts'), 'utf8');
+
+      // Run `npm run generate:api-types` when this fails
+      expect(generated).toBe(renderApiTypes(openApiDocument));
+    });
+  });
+});
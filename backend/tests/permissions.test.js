@@ -0,0 +1,41 @@
+const { can } = require('../utils/permissions');
+const authorize = require('../middleware/authorize');
+
+describe('Permissions', () => {
+  it('should let managers run simulations and edit orders only', () => {
+    expect(can('manager', 'simulation:run')).toBe(true);
+    expect(can('manager', 'orders:write')).toBe(true);
+    expect(can('manager', 'drivers:write')).toBe(false);
+    expect(can('manager', 'records:delete')).toBe(false);
+    expect(can('manager', 'rules:write')).toBe(false);
+    expect(can('manager', 'users:manage')).toBe(false);
+  });
+
+  it('should only let viewers read', () => {
+    ['simulation:run', 'orders:write', 'drivers:write', 'routes:write', 'records:delete', 'rules:write', 'users:manage']
+      .forEach(permission => expect(can('viewer', permission)).toBe(false));
+  });
+
+  it('should let admins do everything', () => {
+    ['simulation:run', 'orders:write', 'drivers:write', 'routes:write', 'records:delete', 'rules:write', 'users:manage']
+      .forEach(permission => expect(can('admin', permission)).toBe(true));
+  });
+
+  it('should deny unknown roles and permissions', () => {
+    expect(can(undefined, 'simulation:run')).toBe(false);
+    expect(can('admin', 'unknown:action')).toBe(false);
+  });
+
+  it('should answer 403 from the middleware when the role lacks the permission', () => {
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+    const next = jest.fn();
+
+    authorize('records:delete')({ user: { role: 'manager' } }, res, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ message: 'Access denied. Admin role required.' });
+    expect(next).not.toHaveBeenCalled();
+
+    authorize('records:delete')({ user: { role: 'admin' } }, res, next);
+    expect(next).toHaveBeenCalled();
+  });
+});
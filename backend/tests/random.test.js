@@ -0,0 +1,32 @@
+const { createRandom, generateSeed, MAX_SEED } = require('../utils/random');
+
+describe('Seeded random', () => {
+  it('should return the same sequence for the same seed', () => {
+    const first = createRandom(1234);
+    const second = createRandom(1234);
+
+    for (let i = 0; i < 5; i++) {
+      expect(first()).toBe(second());
+    }
+  });
+
+  it('should return different sequences for different seeds', () => {
+    expect(createRandom(1)()).not.toBe(createRandom(2)());
+  });
+
+  it('should return values in [0, 1)', () => {
+    const random = createRandom(99);
+    for (let i = 0; i < 100; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('should generate seeds within range', () => {
+    const seed = generateSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(MAX_SEED);
+  });
+});
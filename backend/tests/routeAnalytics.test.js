@@ -0,0 +1,78 @@
+const { analyzeRoute, analyzeRoutes } = require('../utils/routeAnalytics');
+const { DEFAULT_RULES } = require('../utils/rules');
+
+describe('Route analytics', () => {
+  const route = { route_id: 1, distance: 10, traffic_level: 'Low', base_time: 30 };
+
+  describe('analyzeRoute', () => {
+    it('should combine the orders with the route fuel cost', () => {
+      const analytics = analyzeRoute(route, [
+        { order_id: 1, value_rs: 500, route_id: 1, delivery_time: '01:00' },
+        { order_id: 2, value_rs: 300, route_id: 1, delivery_time: '00:45' }
+      ]);
+
+      expect(analytics).toEqual({
+        route_id: 1,
+        distance: 10,
+        traffic_level: 'Low',
+        base_time: 30,
+        order_count: 2,
+        total_value: 800,
+        fuel_cost: 100,
+        profit: 700,
+        profit_per_km: 35,
+        expected_late_rate: 0
+      });
+    });
+
+    it('should charge the high traffic surcharge', () => {
+      const analytics = analyzeRoute({ ...route, traffic_level: 'High' }, [
+        { order_id: 1, value_rs: 500, route_id: 1, delivery_time: '01:00' }
+      ]);
+
+      expect(analytics.fuel_cost).toBe(70);
+    });
+
+    it('should expect orders promised in less than the base time to be late', () => {
+      const analytics = analyzeRoute(route, [
+        // 15 minutes plus the grace window is still short of 30
+        { order_id: 1, value_rs: 500, route_id: 1, delivery_time: '00:15' },
+        { order_id: 2, value_rs: 500, route_id: 1, delivery_time: '00:20' }
+      ]);
+
+      expect(analytics.expected_late_rate).toBe(50);
+      expect(analytics.profit).toBe(1000 - 100 - DEFAULT_RULES.late_penalty);
+    });
+
+    it('should add the bonus of high-value orders expected on time', () => {
+      const analytics = analyzeRoute(route, [
+        { order_id: 1, value_rs: 2000, route_id: 1, delivery_time: '01:00' }
+      ]);
+
+      expect(analytics.profit).toBe(2000 - 50 + 200);
+    });
+
+    it('should report zeros for a route without orders', () => {
+      const analytics = analyzeRoute(route, []);
+
+      expect(analytics).toMatchObject({ order_count: 0, profit: 0, profit_per_km: 0, expected_late_rate: 0 });
+    });
+  });
+
+  describe('analyzeRoutes', () => {
+    it('should group orders by route, most profitable first', () => {
+      const routes = [route, { route_id: 2, distance: 5, traffic_level: 'Medium', base_time: 20 }];
+      const analytics = analyzeRoutes(routes, [
+        { order_id: 1, value_rs: 100, route_id: 1, delivery_time: '01:00' },
+        { order_id: 2, value_rs: 900, route_id: 2, delivery_time: '01:00' },
+        // Orders on a route that no longer exists are left out
+        { order_id: 3, value_rs: 900, route_id: 9, delivery_time: '01:00' }
+      ]);
+
+      expect(analytics.map(row => [row.route_id, row.order_count, row.profit])).toEqual([
+        [2, 1, 875],
+        [1, 1, 50]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const app = require('../server');
+const User = require('../models/User');
+const RuleSet = require('../models/RuleSet');
+const { DEFAULT_RULES, setCurrentRules } = require('../utils/rules');
+
+describe('Business Rules API', () => {
+  let adminToken;
+  let managerToken;
+
+  const login = async (email) => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'testpass123' });
+    return response.body.token;
+  };
+
+  beforeAll(async () => {
+    await mongoose.connect(process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/greencart-test', {
+      useNewUrlParser: true,
+      useUnifiedTopology: true,
+    });
+
+    await User.create([
+      { name: 'Test Admin', email: 'admin@greencart.com', password: 'testpass123', role: 'admin' },
+      { name: 'Test Manager', email: 'manager@greencart.com', password: 'testpass123', role: 'manager' }
+    ]);
+
+    adminToken = await login('admin@greencart.com');
+    managerToken = await login('manager@greencart.com');
+  });
+
+  afterAll(async () => {
+    setCurrentRules(DEFAULT_RULES);
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+  });
+
+  beforeEach(async () => {
+    await RuleSet.deleteMany({});
+  });
+
+  it('should create version 1 from the default rules', async () => {
+    const response = await request(app)
+      .get('/api/rules/active')
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.version).toBe(1);
+    expect(response.body.fuel_cost_per_km).toBe(DEFAULT_RULES.fuel_cost_per_km);
+  });
+
+  it('should save a new active version with only the changed rules', async () => {
+    const response = await request(app)
+      .post('/api/rules')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ late_penalty: 75, notes: 'Stricter lateness' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.version).toBe(2);
+    expect(response.body.active).toBe(true);
+    expect(response.body.late_penalty).toBe(75);
+    expect(response.body.fuel_cost_per_km).toBe(DEFAULT_RULES.fuel_cost_per_km);
+
+    const versions = await RuleSet.find({ active: true });
+    expect(versions).toHaveLength(1);
+  });
+
+  it('should update the rush hours of a single traffic level', async () => {
+    const response = await request(app)
+      .post('/api/rules')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        traffic_model: {
+          High: { multiplier: 1.1, rush_hours: [{ start: '07:00', end: '09:30', multiplier: 1.8 }] }
+        }
+      });
+
+    expect(response.status).toBe(201);
+    expect(response.body.traffic_model.High.rush_hours).toHaveLength(1);
+    expect(response.body.traffic_model.Medium).toEqual(DEFAULT_RULES.traffic_model.Medium);
+  });
+
+  it('should reject an invalid traffic model', async () => {
+    const response = await request(app)
+      .post('/api/rules')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        traffic_model: {
+          High: { multiplier: 1, rush_hours: [{ start: '25:00', end: '09:00', multiplier: 1.5 }] }
+        }
+      });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should only let admins change rules', async () => {
+    const response = await request(app)
+      .post('/api/rules')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ late_penalty: 75 });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should activate an earlier version again', async () => {
+    const first = await RuleSet.getActive();
+    await request(app)
+      .post('/api/rules')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ late_penalty: 75 });
+
+    const response = await request(app)
+      .put(`/api/rules/${first._id}/activate`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.version).toBe(1);
+    expect(response.body.active).toBe(true);
+  });
+});
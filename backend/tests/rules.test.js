@@ -0,0 +1,26 @@
+const {
+  DEFAULT_RULES,
+  getCurrentRules,
+  setCurrentRules,
+  routeFuelCost,
+  isHighValueOrder
+} = require('../utils/rules');
+
+describe('Business rules', () => {
+  afterEach(() => {
+    setCurrentRules(DEFAULT_RULES);
+  });
+
+  it('should calculate route fuel cost with the high traffic surcharge', () => {
+    expect(routeFuelCost({ distance: 10, traffic_level: 'High' })).toEqual({ base: 50, surcharge: 20, total: 70 });
+    expect(routeFuelCost({ distance: 10, traffic_level: 'Low' })).toEqual({ base: 50, surcharge: 0, total: 50 });
+  });
+
+  it('should read the current rules when none are passed', () => {
+    setCurrentRules({ fuel_cost_per_km: 8, high_value_threshold: 500 });
+
+    expect(routeFuelCost({ distance: 10, traffic_level: 'Low' }).total).toBe(80);
+    expect(isHighValueOrder({ value_rs: 600 })).toBe(true);
+    expect(getCurrentRules().late_penalty).toBe(DEFAULT_RULES.late_penalty);
+  });
+});
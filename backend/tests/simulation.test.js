@@ -21,7 +21,8 @@ describe('Simulation API', () => {
     testUser = new User({
       name: 'Test Manager',
       email: 'test@greencart.com',
-      password: 'testpass123'
+      password: 'testpass123',
+      role: 'manager'
     });
     await testUser.save();
 
@@ -77,6 +78,146 @@ describe('Simulation API', () => {
       expect(response.body.fuel_cost_breakdown).toHaveProperty('base_cost');
       expect(response.body.fuel_cost_breakdown).toHaveProperty('surcharge');
       expect(response.body.fuel_cost_breakdown).toHaveProperty('total');
+      expect(response.body.simulation_params).toHaveProperty('seed');
+      expect(response.body).toHaveProperty('rule_set_version', 1);
+    });
+
+    it('should produce exact, repeatable KPIs for a given seed', async () => {
+      const params = {
+        available_drivers: 2,
+        start_time: '09:00',
+        max_hours_per_day: 8,
+        seed: 42
+      };
+
+      const first = await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(params);
+
+      const second = await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(params);
+
+      expect(first.status).toBe(200);
+      expect(first.body.total_profit).toBe(2069);
+      expect(first.body.efficiency_score).toBe(100);
+      expect(first.body.on_time_deliveries).toBe(2);
+      expect(first.body.late_deliveries).toBe(0);
+      expect(first.body.fuel_cost_breakdown).toEqual({ base_cost: 65, surcharge: 16, total: 81 });
+      expect(first.body.simulation_params.seed).toBe(42);
+      expect(first.body.timing_distribution.early).toEqual([
+        { range: '0-15', count: 0 },
+        { range: '15-30', count: 1 },
+        { range: '30-60', count: 1 },
+        { range: '60+', count: 0 }
+      ]);
+      expect(second.body.total_profit).toBe(first.body.total_profit);
+      expect(second.body.efficiency_score).toBe(first.body.efficiency_score);
+    });
+
+    it('should replay a stored result from its simulation_params', async () => {
+      const run = await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ available_drivers: 1, start_time: '09:00', max_hours_per_day: 8 });
+
+      const stored = await request(app)
+        .get(`/api/simulation/history/${run.body._id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      const replay = await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(stored.body.simulation_params);
+
+      expect(replay.status).toBe(200);
+      ['total_profit', 'efficiency_score', 'on_time_deliveries', 'late_deliveries', 'fuel_cost_breakdown', 'timing_distribution']
+        .forEach(kpi => expect(replay.body[kpi]).toEqual(stored.body[kpi]));
+    });
+
+    it('should store a multi-day run with a breakdown per day', async () => {
+      const response = await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          available_drivers: 2,
+          start_time: '09:00',
+          max_hours_per_day: 8,
+          days: 2,
+          seed: 42
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.simulation_params.days).toBe(2);
+      expect(response.body.days).toHaveLength(2);
+      expect(response.body.days[0]).toMatchObject({ day: 1, on_time_deliveries: 1 });
+      expect(response.body.on_time_deliveries).toBe(2);
+
+      const deliveries = await request(app)
+        .get(`/api/simulation/history/${response.body._id}/deliveries?day=2`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(deliveries.body.results).toHaveLength(1);
+      expect(deliveries.body.results[0]).toMatchObject({ order_id: 2, day: 2 });
+    });
+
+    it('should reject an invalid delivery list query', async () => {
+      const run = await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ available_drivers: 1, start_time: '09:00', max_hours_per_day: 8 });
+
+      const response = await request(app)
+        .get(`/api/simulation/history/${run.body._id}/deliveries?limit=0&day=x&driver=Test%20Driver%201`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.errors.map(error => error.path)).toEqual(['limit', 'driver', 'day']);
+    });
+
+    it('should filter deliveries by driver name', async () => {
+      const run = await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ available_drivers: 2, start_time: '09:00', max_hours_per_day: 8 });
+
+      const response = await request(app)
+        .get(`/api/simulation/history/${run.body._id}/deliveries?driver_name=Test%20Driver%201`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      response.body.results.forEach(delivery => expect(delivery.driver_name).toBe('Test Driver 1'));
+    });
+
+    it('should reject more than seven days', async () => {
+      const response = await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          available_drivers: 1,
+          start_time: '09:00',
+          max_hours_per_day: 8,
+          days: 8
+        });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject an invalid seed', async () => {
+      const response = await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          available_drivers: 1,
+          start_time: '09:00',
+          max_hours_per_day: 8,
+          seed: -5
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('message', 'Validation failed');
     });
 
     it('should return error for invalid parameters', async () => {
@@ -120,6 +261,42 @@ describe('Simulation API', () => {
     });
   });
 
+  describe('POST /api/simulation/jobs', () => {
+    it('should run the simulation in the background and store the result', async () => {
+      const started = await request(app)
+        .post('/api/simulation/jobs')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ available_drivers: 2, start_time: '09:00', max_hours_per_day: 8, seed: 42 });
+
+      expect(started.status).toBe(202);
+      expect(started.body.status).toBe('running');
+
+      let job = started.body;
+      while (job.status === 'running') {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        job = (await request(app)
+          .get(`/api/simulation/jobs/${started.body.id}`)
+          .set('Authorization', `Bearer ${authToken}`)).body;
+      }
+
+      expect(job.status).toBe('completed');
+      expect(job.progress.total_profit).toBe(2069);
+
+      const stored = await request(app)
+        .get(`/api/simulation/history/${job.result_id}/deliveries`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(stored.body.results).toHaveLength(2);
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      const response = await request(app)
+        .delete('/api/simulation/jobs/unknown')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe('GET /api/simulation/history', () => {
     it('should return simulation history', async () => {
       // First run a simulation
@@ -141,5 +318,213 @@ describe('Simulation API', () => {
       expect(response.body).toHaveProperty('pagination');
       expect(Array.isArray(response.body.results)).toBe(true);
     });
+
+    it('should only let admins delete a result', async () => {
+      const run = await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          available_drivers: 1,
+          start_time: '09:00',
+          max_hours_per_day: 8
+        });
+
+      const response = await request(app)
+        .delete(`/api/simulation/history/${run.body._id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should filter runs by driver count and start time', async () => {
+      await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ available_drivers: 2, start_time: '11:30', max_hours_per_day: 8 });
+
+      const response = await request(app)
+        .get('/api/simulation/history')
+        .query({ drivers: 2, start_time: '11:30', from: '2000-01-01' })
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.results).toHaveLength(1);
+      expect(response.body.results[0].simulation_params).toMatchObject({ available_drivers: 2, start_time: '11:30' });
+    });
+
+    it('should reject an invalid history filter', async () => {
+      const response = await request(app)
+        .get('/api/simulation/history')
+        .query({ start_time: 'noon' })
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should let admins delete several results at once', async () => {
+      await User.create({ name: 'Test Admin', email: 'admin@greencart.com', password: 'testpass123', role: 'admin' });
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'admin@greencart.com', password: 'testpass123' });
+      const runs = await Promise.all([1, 2].map(() => request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ available_drivers: 1, start_time: '09:00', max_hours_per_day: 8 })));
+      const ids = runs.map(run => run.body._id);
+
+      const forbidden = await request(app)
+        .delete('/api/simulation/history')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ ids });
+      const response = await request(app)
+        .delete('/api/simulation/history')
+        .set('Authorization', `Bearer ${login.body.token}`)
+        .send({ ids });
+      const gone = await request(app)
+        .get(`/api/simulation/history/${ids[0]}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(forbidden.status).toBe(403);
+      expect(response.status).toBe(200);
+      expect(response.body.deleted).toBe(2);
+      expect(gone.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/simulation/trends', () => {
+    it('should return average KPIs per day', async () => {
+      const response = await request(app)
+        .get('/api/simulation/trends')
+        .query({ from: '2000-01-01', bucket: 'day' })
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.bucket).toBe('day');
+      expect(response.body.points.length).toBeGreaterThan(0);
+      expect(response.body.points[0]).toHaveProperty('on_time_rate');
+    });
+
+    it('should reject an unknown bucket', async () => {
+      const response = await request(app)
+        .get('/api/simulation/trends')
+        .query({ bucket: 'month' })
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/simulation/history/:id/deliveries', () => {
+    let simulationId;
+
+    beforeAll(async () => {
+      const response = await request(app)
+        .post('/api/simulation/run')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          available_drivers: 2,
+          start_time: '09:00',
+          max_hours_per_day: 8,
+          seed: 1
+        });
+
+      simulationId = response.body._id;
+    });
+
+    it('should return a delivery line per order', async () => {
+      const response = await request(app)
+        .get(`/api/simulation/history/${simulationId}/deliveries`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.results).toHaveLength(2);
+      expect(response.body.results[0]).toHaveProperty('order_id', 1);
+      expect(response.body.results[0]).toHaveProperty('driver_name');
+      expect(response.body.results[0]).toHaveProperty('dispatch_time', '09:00');
+      expect(response.body.results[0]).toHaveProperty('arrival_time', '09:30');
+      expect(response.body.results[0]).toHaveProperty('promised_time', '10:00');
+      expect(response.body.pagination.total_results).toBe(2);
+    });
+
+    it('should filter and page delivery lines', async () => {
+      const late = await request(app)
+        .get(`/api/simulation/history/${simulationId}/deliveries?late=true`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(late.body.results).toHaveLength(0);
+
+      const paged = await request(app)
+        .get(`/api/simulation/history/${simulationId}/deliveries?limit=1&page=2`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(paged.body.results).toHaveLength(1);
+      expect(paged.body.results[0].order_id).toBe(2);
+      expect(paged.body.pagination.has_prev).toBe(true);
+    });
+  });
+  describe('GET /api/simulation/compare', () => {
+    const runSimulation = (params) => request(app)
+      .post('/api/simulation/run')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ start_time: '09:00', max_hours_per_day: 8, seed: 3, ...params });
+
+    it('should return KPIs and differences against the first run', async () => {
+      const first = await runSimulation({ available_drivers: 2 });
+      const second = await runSimulation({ available_drivers: 1, max_hours_per_day: 1 });
+
+      const response = await request(app)
+        .get(`/api/simulation/compare?ids=${first.body._id},${second.body._id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.baseline).toBe(first.body._id);
+      expect(response.body.runs).toHaveLength(2);
+      expect(response.body.runs[0].kpis.total_profit).toBe(first.body.total_profit);
+      expect(response.body.differences[0].kpis.total_profit)
+        .toBe(second.body.total_profit - first.body.total_profit);
+      expect(response.body.differences[0].kpis.unassigned_orders).toBe(1);
+    });
+
+    it('should require at least two ids', async () => {
+      const response = await request(app)
+        .get('/api/simulation/compare?ids=abc')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+  describe('POST /api/simulation/sweep', () => {
+    it('should return a KPI grid for every combination', async () => {
+      const response = await request(app)
+        .post('/api/simulation/sweep')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          available_drivers: { min: 1, max: 2 },
+          start_time: ['08:00', '09:00'],
+          max_hours_per_day: 1,
+          seed: 5
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.seed).toBe(5);
+      expect(response.body.axes.available_drivers).toEqual([1, 2]);
+      expect(response.body.results).toHaveLength(4);
+      expect(response.body.results[0].kpis.unassigned_orders).toBe(1);
+      expect(response.body.best.total_profit.params.available_drivers).toBe(2);
+    });
+
+    it('should reject invalid ranges', async () => {
+      const response = await request(app)
+        .post('/api/simulation/sweep')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          available_drivers: { min: 3, max: 1 },
+          start_time: ['09:00'],
+          max_hours_per_day: 8
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('message', 'Validation failed');
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,290 @@
+const { simulateDeliveries, simulateDays, spreadOrders, createDriverSchedule, pickDriver } = require('../utils/simulation');
+const { DEFAULT_RULES } = require('../utils/rules');
+
+describe('Simulation engine', () => {
+  const drivers = [
+    { _id: 'd1', name: 'Driver 1', shift_hours: 8, past_week_hours: [8, 8, 8, 8, 8, 6, 0] },
+    { _id: 'd2', name: 'Driver 2', shift_hours: 2, past_week_hours: [10, 9, 8, 8, 9, 7, 0] }
+  ];
+
+  const routes = [
+    { route_id: 1, distance: 5, traffic_level: 'Low', base_time: 30 },
+    { route_id: 2, distance: 8, traffic_level: 'High', base_time: 45 }
+  ];
+
+  const params = { available_drivers: 2, start_time: '09:00', max_hours_per_day: 8 };
+  const firstDriver = () => 0;
+
+  describe('createDriverSchedule', () => {
+    it('should cap each driver at the lower of max hours and shift hours', () => {
+      const schedule = createDriverSchedule(drivers, { start_time: '09:00', max_hours_per_day: 4 });
+
+      expect(schedule[0].limit_minutes).toBe(240);
+      expect(schedule[1].limit_minutes).toBe(120);
+      expect(schedule[0].clock).toBe(540);
+    });
+
+    it('should slow down drivers who worked more than 8 hours yesterday', () => {
+      const schedule = createDriverSchedule(
+        [{ shift_hours: 8, past_week_hours: [0, 0, 0, 0, 0, 0, 10] }],
+        params
+      );
+
+      expect(schedule[0].fatigue).toBe(0.7);
+    });
+  });
+
+  describe('pickDriver', () => {
+    it('should pick the driver who is free first', () => {
+      const schedule = createDriverSchedule(drivers, params);
+      schedule[0].clock += 30;
+
+      expect(pickDriver(schedule, routes[0], firstDriver).driver._id).toBe('d2');
+    });
+
+    it('should skip drivers without enough time left', () => {
+      const schedule = createDriverSchedule(drivers, params);
+      schedule[1].minutes_worked = 100;
+
+      expect(pickDriver(schedule, routes[0], firstDriver).driver._id).toBe('d1');
+    });
+  });
+
+  describe('simulateDeliveries', () => {
+    it('should hand orders out one after another across drivers', () => {
+      const orders = [
+        { order_id: 1, value_rs: 500, route_id: 1, delivery_time: '01:00' },
+        { order_id: 2, value_rs: 1500, route_id: 2, delivery_time: '01:30' }
+      ];
+
+      const result = simulateDeliveries({ drivers, routes, orders }, params, { random: firstDriver });
+
+      expect(result.on_time_deliveries).toBe(2);
+      expect(result.late_deliveries).toBe(0);
+      expect(result.unassigned_orders).toEqual([]);
+      expect(result.fuel_cost_breakdown).toEqual({ base_cost: 65, surcharge: 16, total: 81 });
+      expect(result.total_profit).toBe(2069);
+    });
+
+    it('should write a delivery line per order', () => {
+      const orders = [
+        { order_id: 1, value_rs: 500, route_id: 1, delivery_time: '01:00' },
+        { order_id: 2, value_rs: 1500, route_id: 2, delivery_time: '01:30' },
+        { order_id: 3, value_rs: 800, route_id: 1, delivery_time: '01:00' }
+      ];
+
+      const result = simulateDeliveries({ drivers, routes, orders }, params, { random: firstDriver });
+
+      expect(result.deliveries).toHaveLength(3);
+      expect(result.deliveries[0]).toMatchObject({
+        order_id: 1,
+        status: 'delivered',
+        driver: 'd1',
+        route_id: 1,
+        dispatch_time: '09:00',
+        arrival_time: '09:30',
+        promised_time: '10:00',
+        lateness_minutes: 0,
+        earliness_minutes: 30,
+        is_late: false,
+        fuel_cost: 25,
+        penalty: 0,
+        bonus: 0
+      });
+      expect(result.deliveries[1]).toMatchObject({ order_id: 2, driver: 'd2', bonus: 150, fuel_cost: 56 });
+      expect(result.deliveries[2]).toMatchObject({ order_id: 3, driver: 'd1', dispatch_time: '09:30' });
+    });
+
+    it('should measure lateness against the promised delivery time', () => {
+      const orders = [
+        { order_id: 1, value_rs: 1500, route_id: 1, delivery_time: '00:20' },
+        { order_id: 2, value_rs: 500, route_id: 1, delivery_time: '00:55' },
+        { order_id: 3, value_rs: 500, route_id: 1, delivery_time: '00:30' }
+      ];
+
+      const result = simulateDeliveries(
+        { drivers: [drivers[0]], routes, orders },
+        params,
+        { random: firstDriver }
+      );
+
+      // Arrivals at 09:30, 10:00 and 10:30
+      expect(result.deliveries.map(d => d.lateness_minutes)).toEqual([10, 5, 60]);
+      expect(result.deliveries.map(d => d.is_late)).toEqual([false, false, true]);
+      expect(result.on_time_deliveries).toBe(2);
+      expect(result.late_deliveries).toBe(1);
+      expect(result.efficiency_score).toBe(66.7);
+      // On time within the grace window still earns the high-value bonus
+      expect(result.deliveries[0].bonus).toBe(150);
+      expect(result.deliveries[2].penalty).toBe(50);
+    });
+
+    it('should count on-time and late arrivals per bucket, grace window included', () => {
+      const orders = [
+        { order_id: 1, value_rs: 500, route_id: 1, delivery_time: '01:15' },
+        { order_id: 2, value_rs: 500, route_id: 1, delivery_time: '00:50' },
+        { order_id: 3, value_rs: 500, route_id: 1, delivery_time: '00:10' }
+      ];
+
+      const result = simulateDeliveries(
+        { drivers: [drivers[0]], routes, orders },
+        params,
+        { random: firstDriver }
+      );
+
+      // The arrival a few minutes past its promise is within the grace window
+      expect(result.timing_distribution.early).toEqual([
+        { range: '0-15', count: 1 },
+        { range: '15-30', count: 0 },
+        { range: '30-60', count: 1 },
+        { range: '60+', count: 0 }
+      ]);
+      expect(result.timing_distribution.late).toEqual([
+        { range: '0-15', count: 0 },
+        { range: '15-30', count: 0 },
+        { range: '30-60', count: 0 },
+        { range: '60+', count: 1 }
+      ]);
+      expect(result.on_time_deliveries).toBe(2);
+      expect(result.late_deliveries).toBe(1);
+    });
+
+    it('should report orders no driver has time for as unassigned', () => {
+      const orders = [1, 2, 3, 4].map(order_id => ({
+        order_id,
+        value_rs: 500,
+        route_id: 2,
+        delivery_time: '01:00'
+      }));
+
+      const result = simulateDeliveries(
+        { drivers, routes, orders },
+        { ...params, start_time: '12:00', max_hours_per_day: 1 },
+        { random: firstDriver }
+      );
+
+      expect(result.on_time_deliveries).toBe(2);
+      expect(result.unassigned_orders).toEqual([3, 4]);
+      expect(result.deliveries[3]).toEqual({ order_id: 4, status: 'unassigned', route_id: 2 });
+    });
+
+    it('should report running totals as orders are processed', () => {
+      const orders = [1, 2, 3].map(order_id => ({ order_id, value_rs: 500, route_id: 1, delivery_time: '01:00' }));
+      const updates = [];
+
+      const result = simulateDeliveries({ drivers, routes, orders }, params, {
+        random: firstDriver,
+        onProgress: progress => updates.push(progress)
+      });
+
+      expect(updates.map(update => update.processed)).toEqual([0, 1, 2, 3]);
+      expect(updates[3]).toEqual({
+        processed: 3,
+        total: 3,
+        total_profit: result.total_profit,
+        on_time_deliveries: result.on_time_deliveries,
+        late_deliveries: result.late_deliveries
+      });
+    });
+
+    it('should report orders on missing routes as orphaned', () => {
+      const orders = [
+        { order_id: 1, value_rs: 500, route_id: 9, delivery_time: '01:00' },
+        { order_id: 2, value_rs: 500, route_id: 1, delivery_time: '01:00' }
+      ];
+
+      const result = simulateDeliveries({ drivers, routes, orders }, params, { random: firstDriver });
+
+      expect(result.orphaned_orders).toEqual([1]);
+      expect(result.on_time_deliveries).toBe(1);
+      expect(result.deliveries[0]).toEqual({ order_id: 1, status: 'orphaned', route_id: 9 });
+    });
+
+    it('should slow trips down during rush hour', () => {
+      const orders = [{ order_id: 1, value_rs: 500, route_id: 2, delivery_time: '02:00' }];
+      const data = { drivers: [drivers[0]], routes, orders };
+
+      const offPeak = simulateDeliveries(data, { ...params, start_time: '12:00' }, { random: firstDriver });
+      const rushHour = simulateDeliveries(data, { ...params, start_time: '17:00' }, { random: firstDriver });
+
+      expect(offPeak.deliveries[0].arrival_time).toBe('12:45');
+      expect(rushHour.deliveries[0].arrival_time).toBe('18:08');
+    });
+
+    it('should apply the given business rules', () => {
+      const orders = [{ order_id: 1, value_rs: 1500, route_id: 2, delivery_time: '01:00' }];
+      const rules = {
+        ...DEFAULT_RULES,
+        fuel_cost_per_km: 10,
+        high_traffic_surcharge_per_km: 0,
+        high_value_threshold: 2000
+      };
+
+      const result = simulateDeliveries({ drivers, routes, orders }, params, { rules, random: firstDriver });
+
+      expect(result.fuel_cost_breakdown).toEqual({ base_cost: 80, surcharge: 0, total: 80 });
+      expect(result.total_profit).toBe(1420);
+    });
+
+    it('should replay the same run for the same seed', () => {
+      const mixedDrivers = [
+        { _id: 'rested', shift_hours: 8, past_week_hours: [8, 8, 8, 8, 8, 8, 6] },
+        { _id: 'tired', shift_hours: 8, past_week_hours: [8, 8, 8, 8, 8, 8, 10] }
+      ];
+      const orders = [{ order_id: 1, value_rs: 1500, route_id: 1, delivery_time: '01:00' }];
+      const data = { drivers: mixedDrivers, routes, orders };
+
+      const first = simulateDeliveries(data, { ...params, seed: 7 });
+      const second = simulateDeliveries(data, { ...params, seed: 7 });
+
+      expect(second.total_profit).toBe(first.total_profit);
+      expect(second.on_time_deliveries).toBe(first.on_time_deliveries);
+    });
+  });
+
+  describe('simulateDays', () => {
+    it('should spread orders evenly over the days', () => {
+      const batches = spreadOrders([1, 2, 3, 4, 5], 2);
+
+      expect(batches).toEqual([[1, 2, 3], [4, 5]]);
+    });
+
+    it('should report KPIs per day and add them up for the run', () => {
+      const orders = [
+        { order_id: 1, value_rs: 500, route_id: 1, delivery_time: '01:00' },
+        { order_id: 2, value_rs: 1500, route_id: 2, delivery_time: '01:30' }
+      ];
+
+      const result = simulateDays({ drivers, routes, orders }, { ...params, days: 2 }, { random: firstDriver });
+
+      expect(result.days).toHaveLength(2);
+      expect(result.days.map(day => day.total_profit)).toEqual([475, 1594]);
+      expect(result.total_profit).toBe(2069);
+      expect(result.on_time_deliveries).toBe(2);
+      expect(result.deliveries.map(delivery => delivery.day)).toEqual([1, 2]);
+      expect(result.timing_distribution.early.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(2);
+    });
+
+    it('should roll each day\'s hours into the next day\'s fatigue', () => {
+      const orders = [1, 2, 3, 4].map(order_id => ({
+        order_id,
+        value_rs: 500,
+        route_id: 1,
+        delivery_time: '10:00'
+      }));
+      const longDay = { ...params, max_hours_per_day: 12, days: 2 };
+      const rules = { ...DEFAULT_RULES, fatigue_threshold_hours: 0.5 };
+
+      const result = simulateDays(
+        { drivers: [drivers[0]], routes, orders },
+        longDay,
+        { rules, random: firstDriver }
+      );
+
+      // Day one works an hour, so day two's trips take 30 / 0.7 minutes
+      expect(result.days.map(day => day.fatigued_drivers)).toEqual([0, 1]);
+      expect(result.deliveries[2].arrival_time).toBe('09:43');
+      expect(result.driver_hours[0]).toEqual([1, 1.43]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+const {
+  formatProgress,
+  startSimulationJob,
+  getSimulationJob,
+  cancelSimulationJob,
+  subscribeToJob
+} = require('../utils/simulationJobs');
+const { DEFAULT_RULES } = require('../utils/rules');
+
+describe('Simulation jobs', () => {
+  const data = {
+    drivers: [{ _id: 'd1', name: 'Driver 1', shift_hours: 8, past_week_hours: [8, 8, 8, 8, 8, 6, 0] }],
+    routes: [{ route_id: 1, distance: 5, traffic_level: 'Low', base_time: 30 }],
+    orders: [1, 2, 3].map(order_id => ({ order_id, value_rs: 500, route_id: 1, delivery_time: '01:00' }))
+  };
+  const params = { available_drivers: 1, start_time: '09:00', max_hours_per_day: 8, days: 1, seed: 1 };
+
+  // Resolve with the event that ends the job
+  const waitForEnd = (job) => new Promise(resolve => {
+    subscribeToJob(job, (event, snapshot) => {
+      if (event !== 'progress') resolve({ event, snapshot });
+    });
+  });
+
+  it('should work out the share done and the on-time rate', () => {
+    expect(formatProgress({ processed: 1, total: 3, total_profit: 400, on_time_deliveries: 2, late_deliveries: 1 }))
+      .toEqual({
+        processed: 1,
+        total: 3,
+        percent: 33.3,
+        total_profit: 400,
+        on_time_deliveries: 2,
+        late_deliveries: 1,
+        on_time_rate: 66.7
+      });
+  });
+
+  it('should run in a worker and hand the result over to be saved', async () => {
+    const onResult = jest.fn().mockResolvedValue('result-1');
+    const job = startSimulationJob({ owner: 'user-1', data, params, rules: DEFAULT_RULES, onResult });
+
+    const { event, snapshot } = await waitForEnd(job);
+
+    expect(event).toBe('completed');
+    expect(snapshot.result_id).toBe('result-1');
+    expect(snapshot.progress).toMatchObject({ processed: 3, total: 3, percent: 100 });
+    expect(onResult.mock.calls[0][0].deliveries).toHaveLength(3);
+  });
+
+  it('should only show a job to the user who started it', () => {
+    const job = startSimulationJob({ owner: 'user-1', data, params, rules: DEFAULT_RULES, onResult: async () => 'id' });
+
+    expect(getSimulationJob(job.id, 'user-1')).toBe(job);
+    expect(getSimulationJob(job.id, 'user-2')).toBeNull();
+    cancelSimulationJob(job);
+  });
+
+  it('should fail a job whose worker stops without an error', async () => {
+    const onResult = jest.fn();
+    const job = startSimulationJob({ owner: 'user-1', data, params, rules: DEFAULT_RULES, onResult });
+    const end = waitForEnd(job);
+
+    await job.worker.terminate();
+
+    const { event, snapshot } = await end;
+    expect(event).toBe('failed');
+    expect(snapshot.error).toMatch(/exit code/);
+    expect(onResult).not.toHaveBeenCalled();
+  });
+
+  it('should stop a cancelled job without saving it', async () => {
+    const onResult = jest.fn();
+    const job = startSimulationJob({ owner: 'user-1', data, params, rules: DEFAULT_RULES, onResult });
+    const end = waitForEnd(job);
+
+    expect(cancelSimulationJob(job)).toBe(true);
+    expect((await end).event).toBe('cancelled');
+    expect(cancelSimulationJob(job)).toBe(false);
+    expect(onResult).not.toHaveBeenCalled();
+  });
+});
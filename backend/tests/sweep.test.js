@@ -0,0 +1,54 @@
+const { expandRange, isIntRange, isTimeList, sweepSizeError, buildCombinations } = require('../utils/sweep');
+
+describe('Sweep helpers', () => {
+  describe('expandRange', () => {
+    it('should expand single values, lists and ranges', () => {
+      expect(expandRange(3)).toEqual([3]);
+      expect(expandRange([2, 4])).toEqual([2, 4]);
+      expect(expandRange({ min: 1, max: 7, step: 3 })).toEqual([1, 4, 7]);
+      expect(expandRange({ min: 1, max: 3 })).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('validators', () => {
+    it('should accept valid ranges and reject invalid ones', () => {
+      const isHours = isIntRange(1, 24);
+
+      expect(isHours({ min: 6, max: 10 })).toBe(true);
+      expect(isHours({ min: 10, max: 6 })).toBe(false);
+      expect(isHours({ min: 1, max: 30 })).toBe(false);
+      expect(isHours({ min: 1, max: 5, step: 0 })).toBe(false);
+      expect(isHours(undefined)).toBe(false);
+      expect(isIntRange(1, Infinity)({ min: 1, max: 1e9 })).toBe(false);
+    });
+
+    it('should validate start time lists', () => {
+      expect(isTimeList(['08:00', '09:30'])).toBe(true);
+      expect(isTimeList('09:00')).toBe(true);
+      expect(isTimeList(['25:00'])).toBe(false);
+      expect(isTimeList([])).toBe(false);
+    });
+  });
+
+  describe('sweepSizeError', () => {
+    it('should limit both the runs and the orders scheduled over all runs', () => {
+      expect(sweepSizeError(500, 200)).toBeNull();
+      expect(sweepSizeError(501, 1)).toBe('Sweep would run 501 simulations; the limit is 500');
+      expect(sweepSizeError(200, 1000)).toBe('Sweep would schedule 200000 orders (200 runs of 1000 orders); the limit is 100000');
+    });
+  });
+
+  describe('buildCombinations', () => {
+    it('should return every combination of the axes', () => {
+      const combinations = buildCombinations({
+        available_drivers: [1, 2],
+        start_time: ['08:00', '09:00'],
+        max_hours_per_day: [8]
+      });
+
+      expect(combinations).toHaveLength(4);
+      expect(combinations[0]).toEqual({ available_drivers: 1, start_time: '08:00', max_hours_per_day: 8 });
+      expect(combinations[3]).toEqual({ available_drivers: 2, start_time: '09:00', max_hours_per_day: 8 });
+    });
+  });
+});
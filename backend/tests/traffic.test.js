@@ -0,0 +1,40 @@
+const { DEFAULT_TRAFFIC_MODEL, trafficMultiplier, isTrafficModel } = require('../utils/traffic');
+const { routeTravelMinutes, routeEffectiveTimes } = require('../utils/rules');
+
+describe('Traffic model', () => {
+  it('should apply the rush-hour multiplier inside a rush-hour window', () => {
+    expect(trafficMultiplier('High', 9 * 60)).toBe(1.5);
+    expect(trafficMultiplier('High', 12 * 60)).toBe(1);
+    expect(trafficMultiplier('High', 10 * 60)).toBe(1);
+    expect(trafficMultiplier('Low', 9 * 60)).toBe(1);
+  });
+
+  it('should support rush-hour windows that run past midnight', () => {
+    const model = {
+      ...DEFAULT_TRAFFIC_MODEL,
+      Low: { multiplier: 1, rush_hours: [{ start: '23:00', end: '01:00', multiplier: 1.3 }] }
+    };
+
+    expect(trafficMultiplier('Low', 23 * 60 + 30, model)).toBe(1.3);
+    expect(trafficMultiplier('Low', 24 * 60 + 30, model)).toBe(1.3);
+    expect(trafficMultiplier('Low', 2 * 60, model)).toBe(1);
+  });
+
+  it('should quote route travel times at 09:00 and 17:00', () => {
+    const route = { base_time: 40, traffic_level: 'Medium' };
+
+    expect(routeTravelMinutes(route, 12 * 60)).toBe(40);
+    expect(routeEffectiveTimes(route)).toEqual({ '09:00': 48, '17:00': 48 });
+  });
+
+  it('should validate traffic models', () => {
+    expect(isTrafficModel(DEFAULT_TRAFFIC_MODEL)).toBe(true);
+    expect(isTrafficModel({ High: DEFAULT_TRAFFIC_MODEL.High })).toBe(false);
+    expect(isTrafficModel({ High: DEFAULT_TRAFFIC_MODEL.High }, { partial: true })).toBe(true);
+    expect(isTrafficModel({ Extreme: DEFAULT_TRAFFIC_MODEL.High }, { partial: true })).toBe(false);
+    expect(isTrafficModel({
+      ...DEFAULT_TRAFFIC_MODEL,
+      Low: { multiplier: 10, rush_hours: [] }
+    })).toBe(false);
+  });
+});
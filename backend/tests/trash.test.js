@@ -0,0 +1,116 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const app = require('../server');
+const User = require('../models/User');
+const Driver = require('../models/Driver');
+const Route = require('../models/Route');
+const Order = require('../models/Order');
+
+describe('Trash', () => {
+  let adminToken;
+  let managerToken;
+
+  beforeAll(async () => {
+    await mongoose.connect(process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/greencart-test', {
+      useNewUrlParser: true,
+      useUnifiedTopology: true,
+    });
+
+    await User.create([
+      { name: 'Test Admin', email: 'admin@greencart.com', password: 'testpass123', role: 'admin' },
+      { name: 'Test Manager', email: 'manager@greencart.com', password: 'testpass123', role: 'manager' }
+    ]);
+
+    const login = (email) => request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'testpass123' });
+    adminToken = (await login('admin@greencart.com')).body.token;
+    managerToken = (await login('manager@greencart.com')).body.token;
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+  });
+
+  it('should hide deleted drivers and bring them back on restore', async () => {
+    const driver = await Driver.create({ name: 'Trashed Driver', shift_hours: 8, past_week_hours: [8, 8, 8, 8, 8, 8, 8] });
+
+    const removed = await request(app)
+      .delete(`/api/drivers/${driver._id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(removed.status).toBe(200);
+
+    const list = await request(app)
+      .get('/api/drivers')
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(list.body.pagination.total_results).toBe(0);
+
+    const trash = await request(app)
+      .get('/api/drivers/trash')
+      .set('Authorization', `Bearer ${managerToken}`);
+    expect(trash.body.results).toHaveLength(1);
+    expect(trash.body.results[0].deleted_at).toBeTruthy();
+
+    const restored = await request(app)
+      .post(`/api/drivers/${driver._id}/restore`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(restored.status).toBe(200);
+    expect(restored.body.deleted_at).toBeNull();
+  });
+
+  it('should only let admins restore', async () => {
+    const driver = await Driver.create({ name: 'Other Driver', shift_hours: 8, past_week_hours: [8, 8, 8, 8, 8, 8, 8], deleted_at: new Date() });
+
+    const response = await request(app)
+      .post(`/api/drivers/${driver._id}/restore`)
+      .set('Authorization', `Bearer ${managerToken}`);
+    expect(response.status).toBe(403);
+  });
+
+  it('should not restore an order onto a deleted route', async () => {
+    await Route.create({ route_id: 5, distance: 5, traffic_level: 'Low', base_time: 30, deleted_at: new Date() });
+    const order = await Order.create({ order_id: 50, value_rs: 500, route_id: 5, delivery_time: '01:00', deleted_at: new Date() });
+
+    const response = await request(app)
+      .post(`/api/orders/${order._id}/restore`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(response.status).toBe(409);
+    expect(response.body.message).toContain('Route #5');
+  });
+
+  it('should point at the trash when a deleted record holds an ID', async () => {
+    const response = await request(app)
+      .post('/api/routes')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ route_id: 5, distance: 3, traffic_level: 'High', base_time: 20 });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('trash');
+  });
+
+  it('should purge records deleted at least the given days ago', async () => {
+    const longAgo = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000);
+    await Order.create({ order_id: 60, value_rs: 500, route_id: 5, delivery_time: '01:00', deleted_at: longAgo });
+
+    const response = await request(app)
+      .delete('/api/orders/trash?older_than_days=30')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.purged).toBe(1);
+    expect(await Order.countDocuments({ deleted_at: { $ne: null } })).toBe(1);
+  });
+
+  it('should count orders in the trash when deleting their route', async () => {
+    const route = await Route.create({ route_id: 7, distance: 5, traffic_level: 'Low', base_time: 30 });
+    await Order.create({ order_id: 70, value_rs: 500, route_id: 7, delivery_time: '01:00', deleted_at: new Date() });
+
+    const response = await request(app)
+      .delete(`/api/routes/${route._id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(409);
+    expect(response.body.affected_orders).toEqual([70]);
+  });
+});
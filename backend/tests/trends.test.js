@@ -0,0 +1,63 @@
+const { buildTrendPipeline, formatTrendPoint } = require('../utils/trends');
+
+describe('KPI trends', () => {
+  describe('buildTrendPipeline', () => {
+    it('should only match runs in the date range', () => {
+      const from = new Date('2026-01-01');
+      const [match] = buildTrendPipeline({ from });
+
+      expect(match).toEqual({ $match: { timestamp: { $gte: from } } });
+    });
+
+    it('should group by the start of the day or the ISO week', () => {
+      const [, byDay] = buildTrendPipeline({});
+      const [, byWeek] = buildTrendPipeline({ bucket: 'week' });
+
+      expect(byDay.$group._id.$dateFromParts).toHaveProperty('day');
+      expect(byWeek.$group._id.$dateFromParts).toMatchObject({ isoDayOfWeek: 1 });
+    });
+
+    it('should return buckets oldest first', () => {
+      const pipeline = buildTrendPipeline({});
+
+      expect(pipeline[pipeline.length - 1]).toEqual({ $sort: { _id: 1 } });
+    });
+  });
+
+  describe('formatTrendPoint', () => {
+    it('should round averages and work out the on-time rate', () => {
+      const start = new Date('2026-01-05');
+
+      expect(formatTrendPoint({
+        _id: start,
+        runs: 3,
+        total_profit: 1234.567,
+        efficiency_score: 81.2345,
+        fuel_cost: 210.4,
+        on_time_deliveries: 2,
+        late_deliveries: 1
+      })).toEqual({
+        period_start: start,
+        runs: 3,
+        total_profit: 1235,
+        efficiency_score: 81.2,
+        on_time_rate: 66.7,
+        fuel_cost: 210
+      });
+    });
+
+    it('should report no on-time rate without deliveries', () => {
+      const point = formatTrendPoint({
+        _id: new Date(),
+        runs: 1,
+        total_profit: 0,
+        efficiency_score: 0,
+        fuel_cost: 0,
+        on_time_deliveries: 0,
+        late_deliveries: 0
+      });
+
+      expect(point.on_time_rate).toBe(0);
+    });
+  });
+});
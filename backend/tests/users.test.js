@@ -0,0 +1,103 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const app = require('../server');
+const User = require('../models/User');
+
+describe('Users API', () => {
+  let admin;
+  let adminToken;
+  let managerToken;
+
+  const login = async (email, password = 'testpass123') => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password });
+    return response;
+  };
+
+  beforeAll(async () => {
+    await mongoose.connect(process.env.MONGODB_TEST_URI || 'mongodb://localhost:27017/greencart-test', {
+      useNewUrlParser: true,
+      useUnifiedTopology: true,
+    });
+
+    [admin] = await User.create([
+      { name: 'Test Admin', email: 'admin@greencart.com', password: 'testpass123', role: 'admin' },
+      { name: 'Test Manager', email: 'manager@greencart.com', password: 'testpass123', role: 'manager' }
+    ]);
+
+    adminToken = (await login('admin@greencart.com')).body.token;
+    managerToken = (await login('manager@greencart.com')).body.token;
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+  });
+
+  it('should list users without their passwords', async () => {
+    const response = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.pagination.total_results).toBe(2);
+    expect(response.body.results[0]).not.toHaveProperty('password');
+  });
+
+  it('should only let admins manage users', async () => {
+    const response = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should create a user and reset their password', async () => {
+    const created = await request(app)
+      .post('/api/users')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'New Admin', email: 'new@greencart.com', password: 'first123', role: 'admin' });
+
+    expect(created.status).toBe(201);
+    expect(created.body.role).toBe('admin');
+
+    const reset = await request(app)
+      .put(`/api/users/${created.body._id}/password`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ password: 'second123' });
+
+    expect(reset.status).toBe(200);
+    expect((await login('new@greencart.com', 'second123')).status).toBe(200);
+  });
+
+  it('should block disabled users from logging in and using their token', async () => {
+    const manager = await User.findOne({ email: 'manager@greencart.com' });
+    const response = await request(app)
+      .put(`/api/users/${manager._id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: manager.name, email: manager.email, role: 'manager', active: false });
+
+    expect(response.status).toBe(200);
+    expect(response.body.active).toBe(false);
+    expect((await login('manager@greencart.com')).status).toBe(403);
+
+    const verify = await request(app)
+      .get('/api/auth/verify')
+      .set('Authorization', `Bearer ${managerToken}`);
+    expect(verify.status).toBe(401);
+  });
+
+  it('should not let admins demote or delete themselves', async () => {
+    const demote = await request(app)
+      .put(`/api/users/${admin._id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: admin.name, email: admin.email, role: 'manager' });
+    expect(demote.status).toBe(400);
+
+    const remove = await request(app)
+      .delete(`/api/users/${admin._id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(remove.status).toBe(400);
+  });
+});
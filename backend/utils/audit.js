@@ -0,0 +1,74 @@
+const AuditEntry = require('../models/AuditEntry');
+
+// Fields recorded for each audited entity
+const AUDIT_FIELDS = {
+  driver: ['name', 'shift_hours', 'past_week_hours'],
+  route: ['route_id', 'distance', 'traffic_level', 'base_time'],
+  order: ['order_id', 'value_rs', 'route_id', 'delivery_time'],
+  simulation: ['simulation_params', 'total_profit', 'efficiency_score', 'on_time_deliveries', 'late_deliveries']
+};
+
+// How each entity is named in the log
+const AUDIT_LABELS = {
+  driver: doc => doc.name,
+  route: doc => `Route #${doc.route_id}`,
+  order: doc => `Order #${doc.order_id}`,
+  simulation: doc => `Simulation ${doc._id}`
+};
+
+// Plain value of a field, so Mongoose arrays and subdocuments compare and
+// store like the JSON the API returns
+const plain = (value) => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+
+// Changed fields between two versions of a document. Pass null as before
+// for a create and null as after for a delete.
+const diffDocuments = (before, after, fields) => fields
+  .map(field => ({
+    field,
+    before: before ? plain(before[field]) : undefined,
+    after: after ? plain(after[field]) : undefined
+  }))
+  .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+
+// Audit entry for one change, as it is stored
+const buildAuditEntry = (req, { action, entity, before = null, after = null, details }) => {
+  const doc = after || before;
+  return {
+    user: req.user?._id,
+    user_name: req.user?.name,
+    action,
+    entity,
+    entity_id: doc?._id,
+    label: doc ? AUDIT_LABELS[entity](doc) : undefined,
+    changes: diffDocuments(before, after, AUDIT_FIELDS[entity]),
+    details
+  };
+};
+
+// Record who changed what. Failures are logged rather than failing the
+// request, since the change itself has already been written.
+const recordAudit = async (req, change) => {
+  try {
+    await AuditEntry.create(buildAuditEntry(req, change));
+  } catch (error) {
+    console.error(`Error recording ${change.entity} ${change.action} audit entry:`, error);
+  }
+};
+
+// Record many changes in one write, such as every record a CSV import
+// wrote. Failures are logged like recordAudit's.
+const recordAudits = async (req, changes) => {
+  if (changes.length === 0) return;
+  try {
+    await AuditEntry.insertMany(changes.map(change => buildAuditEntry(req, change)));
+  } catch (error) {
+    console.error(`Error recording ${changes.length} audit entries:`, error);
+  }
+};
+
+module.exports = {
+  AUDIT_FIELDS,
+  diffDocuments,
+  recordAudit,
+  recordAudits
+};
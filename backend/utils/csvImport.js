@@ -0,0 +1,239 @@
+const { validationResult } = require('express-validator');
+const { can } = require('./permissions');
+const { AUDIT_FIELDS, diffDocuments, recordAudit, recordAudits } = require('./audit');
+
+const IMPORT_MODES = ['merge', 'replace'];
+
+// Split CSV text into rows of fields, each with the line it starts on.
+// Handles quoted fields with embedded commas, quotes ("") and line breaks,
+// and both LF and CRLF line endings. Blank lines are skipped.
+const parseCsvLines = (text) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push({ line: rowLine, fields: row });
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\r' && text[i + 1] === '\n') continue;
+    if (char === '\n' || char === '\r') line++;
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char === '\r' ? '\n' : char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+// Parse CSV text with a header line into one object per data row. Each row
+// keeps the line number it came from so errors can point back at the file.
+const parseCsv = (text) => {
+  const [header = { fields: [] }, ...lines] = parseCsvLines(text.replace(/^\uFEFF/, ''));
+  const columns = header.fields.map(column => column.trim());
+
+  return {
+    columns,
+    rows: lines.map(({ line, fields }) => {
+      const values = {};
+      columns.forEach((column, index) => {
+        values[column] = (fields[index] ?? '').trim();
+      });
+      return { line, values };
+    })
+  };
+};
+
+// Columns of the given list that the CSV header lacks
+const missingColumns = (columns, required) => required.filter(column => !columns.includes(column));
+
+// Run express-validator chains against a single row, the way they would run
+// against a request body. Returns the row's error messages.
+const validateRow = async (values, chains) => {
+  const req = { body: values };
+  await Promise.all(chains.map(chain => chain.run(req)));
+  return validationResult(req).array().map(error => error.msg);
+};
+
+// Validate every row and build the import report. toBody turns a CSV row
+// into the request body the validation chains expect, keyOf names the field
+// rows are matched on, and checkRow can add further errors for a row body.
+const validateRows = async (rows, { chains, toBody, keyOf, checkRow = () => [] }) => {
+  const seen = new Map();
+  const results = [];
+
+  for (const { line, values } of rows) {
+    const body = toBody(values);
+    const errors = await validateRow(body, chains);
+    const key = keyOf(body);
+
+    if (seen.has(key)) {
+      errors.push(`Duplicate of line ${seen.get(key)}`);
+    } else {
+      seen.set(key, line);
+    }
+    if (errors.length === 0) errors.push(...checkRow(body));
+
+    results.push({ line, body, errors });
+  }
+
+  return {
+    bodies: results.filter(result => result.errors.length === 0).map(result => result.body),
+    errors: results
+      .filter(result => result.errors.length > 0)
+      .map(({ line, errors }) => ({ line, errors }))
+  };
+};
+
+// Audit changes of a merge import: records that were not there before are
+// created, ones in the trash are restored and the rest are updated. Updates
+// that changed none of the entity's audited fields are left out.
+const mergeChanges = (existing, written, { key, entity }) => {
+  const existingByKey = new Map(existing.map(document => [document[key], document]));
+  return written
+    .map(after => {
+      const before = existingByKey.get(after[key]);
+      if (!before) return { action: 'create', after };
+      return { action: before.deleted_at ? 'restore' : 'update', before, after };
+    })
+    .filter(change => change.action !== 'update' || diffDocuments(change.before, change.after, AUDIT_FIELDS[entity]).length > 0);
+};
+
+// Write validated documents. In replace mode the collection is emptied
+// first, trash included; in merge mode documents are upserted on the key
+// field, which brings a matching record back out of the trash. Returns the
+// counts and the per-record changes to audit.
+const writeImport = async (Model, documents, { mode, key, entity }) => {
+  if (mode === 'replace') {
+    const removed = await Model.find({}).setOptions({ withDeleted: true });
+    await Model.deleteMany({});
+    const inserted = await Model.insertMany(documents);
+    return {
+      inserted: inserted.length,
+      updated: 0,
+      changes: [
+        ...removed.map(before => ({ action: 'delete', before })),
+        ...inserted.map(after => ({ action: 'create', after }))
+      ]
+    };
+  }
+
+  const keys = documents.map(document => document[key]);
+  const existing = await Model.find({ [key]: { $in: keys } }).setOptions({ withDeleted: true });
+  const result = await Model.bulkWrite(documents.map(document => ({
+    updateOne: {
+      filter: { [key]: document[key] },
+      update: { $set: { ...document, deleted_at: null } },
+      upsert: true
+    }
+  })));
+  const written = await Model.find({ [key]: { $in: keys } });
+  return {
+    inserted: result.upsertedCount,
+    updated: result.matchedCount,
+    changes: mergeChanges(existing, written, { key, entity })
+  };
+};
+
+// Build the route handler for POST /api/<entity>/import. The request body
+// is the CSV text; ?mode=merge|replace picks how rows are written and
+// ?dry_run=true only reports what would happen. Nothing is written unless
+// every row is valid. Replace mode is limited to roles that may delete.
+// checkReplace can refuse a replace that would remove records others still
+// depend on: given the new documents it returns the fields to add to the
+// 409 report, or null.
+const createImportHandler = ({ Model, entity, label, columns, key, chains, toBody, toDocument, loadCheckRow, checkReplace }) =>
+  async (req, res) => {
+    try {
+      const mode = req.query.mode || 'merge';
+      const dryRun = req.query.dry_run === 'true';
+
+      if (!IMPORT_MODES.includes(mode)) {
+        return res.status(400).json({ message: `Import mode must be one of: ${IMPORT_MODES.join(', ')}` });
+      }
+      // Replacing deletes every existing record, so it needs delete rights
+      if (mode === 'replace' && !dryRun && !can(req.user.role, 'records:delete')) {
+        return res.status(403).json({ message: 'Access denied. Admin role required to replace records.' });
+      }
+      if (typeof req.body !== 'string' || req.body.trim() === '') {
+        return res.status(400).json({ message: 'Send the CSV file as a text/csv request body' });
+      }
+
+      const parsed = parseCsv(req.body);
+      const missing = missingColumns(parsed.columns, columns);
+      if (missing.length > 0) {
+        return res.status(400).json({ message: `CSV is missing columns: ${missing.join(', ')}` });
+      }
+
+      const checkRow = loadCheckRow ? await loadCheckRow() : undefined;
+      const { bodies, errors } = await validateRows(parsed.rows, { chains, toBody, keyOf: body => body[key], checkRow });
+      const report = {
+        mode,
+        dry_run: dryRun,
+        total_rows: parsed.rows.length,
+        valid_rows: bodies.length,
+        errors
+      };
+
+      if (errors.length > 0) {
+        return res.status(dryRun ? 200 : 400).json({ message: `Import has ${errors.length} invalid rows`, ...report });
+      }
+
+      const documents = bodies.map(toDocument);
+      const blocked = mode === 'replace' && checkReplace ? await checkReplace(documents) : null;
+      if (blocked) {
+        return res.status(dryRun ? 200 : 409).json({ ...report, ...blocked });
+      }
+      if (dryRun) {
+        return res.json({ message: `${bodies.length} ${label} ready to import`, ...report });
+      }
+
+      const { changes, ...written } = await writeImport(Model, documents, { mode, key, entity });
+      // Each record written gets its own entry, so its History shows the
+      // import, and the import as a whole gets one with the counts
+      await recordAudits(req, changes.map(change => ({ ...change, entity, details: { import: mode } })));
+      await recordAudit(req, { action: 'import', entity, details: { mode, rows: bodies.length, ...written } });
+      res.json({ message: `Imported ${bodies.length} ${label}`, ...report, ...written });
+    } catch (error) {
+      console.error(`Error importing ${label}:`, error);
+      res.status(500).json({ message: `Server error while importing ${label}` });
+    }
+  };
+
+module.exports = {
+  IMPORT_MODES,
+  parseCsv,
+  missingColumns,
+  validateRow,
+  validateRows,
+  mergeChanges,
+  writeImport,
+  createImportHandler
+};
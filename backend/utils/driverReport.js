@@ -0,0 +1,41 @@
+const { DEFAULT_RULES } = require('./rules');
+
+// Number of days, counting back from yesterday, the driver worked more than
+// the given hours
+const consecutiveDaysOver = (pastWeekHours, thresholdHours) => {
+  let days = 0;
+  for (let index = pastWeekHours.length - 1; index >= 0 && pastWeekHours[index] > thresholdHours; index--) {
+    days++;
+  }
+  return days;
+};
+
+// Utilization and overwork figures for one driver. Fatigue follows the
+// simulation's rule (more than fatigue_threshold_hours yesterday); the
+// weekly cap check assumes the driver works a full shift today, so it flags
+// drivers who would go over the cap in the rolling seven-day window.
+const buildDriverReport = (driver, rules = DEFAULT_RULES) => {
+  const pastWeekHours = driver.past_week_hours;
+  const totalHours = pastWeekHours.reduce((sum, hours) => sum + hours, 0);
+  const averageHours = totalHours / pastWeekHours.length;
+  const projectedWeekHours = totalHours - pastWeekHours[0] + driver.shift_hours;
+
+  return {
+    _id: driver._id,
+    name: driver.name,
+    shift_hours: driver.shift_hours,
+    past_week_hours: pastWeekHours,
+    total_hours: totalHours,
+    average_hours_per_day: Math.round(averageHours * 10) / 10,
+    utilization: Math.round((averageHours / driver.shift_hours) * 1000) / 10,
+    is_fatigued: pastWeekHours[pastWeekHours.length - 1] > rules.fatigue_threshold_hours,
+    consecutive_days_over: consecutiveDaysOver(pastWeekHours, rules.fatigue_threshold_hours),
+    projected_week_hours: projectedWeekHours,
+    exceeds_weekly_cap: projectedWeekHours > rules.weekly_hours_cap
+  };
+};
+
+module.exports = {
+  consecutiveDaysOver,
+  buildDriverReport
+};
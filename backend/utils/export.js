@@ -0,0 +1,63 @@
+const ExcelJS = require('exceljs');
+const { query } = require('express-validator');
+
+const EXPORT_FORMATS = ['csv', 'json', 'xlsx'];
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Validation middleware for the ?format= query of export endpoints
+const validateExport = [
+  query('format').optional().isIn(EXPORT_FORMATS).withMessage(`Format must be one of: ${EXPORT_FORMATS.join(', ')}`)
+];
+
+// Quote a CSV field when it holds a comma, quote or line break
+const csvField = (value) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV text with a header line. Columns are { header, value(row) } pairs.
+const toCsv = (columns, rows) => [
+  columns.map(column => csvField(column.header)).join(','),
+  ...rows.map(row => columns.map(column => csvField(column.value(row))).join(','))
+].join('\n') + '\n';
+
+// Single-sheet XLSX workbook with the same columns as the CSV export
+const toXlsx = async (sheetName, columns, rows) => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.columns = columns.map(column => ({ header: column.header, key: column.header }));
+  rows.forEach(row => {
+    sheet.addRow(columns.map(column => column.value(row)));
+  });
+  sheet.getRow(1).font = { bold: true };
+  return workbook.xlsx.writeBuffer();
+};
+
+// Send rows as a file download in the requested format. JSON exports the
+// documents as the list endpoint returns them; CSV and XLSX use the columns.
+const sendExport = async (res, { format, name, columns, rows }) => {
+  const filename = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.set('Content-Type', CONTENT_TYPES[format]);
+  res.set('Content-Disposition', `attachment; filename="${filename}"`);
+
+  if (format === 'json') {
+    return res.send(JSON.stringify(rows, null, 2));
+  }
+  if (format === 'xlsx') {
+    return res.send(Buffer.from(await toXlsx(name, columns, rows)));
+  }
+  res.send(toCsv(columns, rows));
+};
+
+module.exports = {
+  EXPORT_FORMATS,
+  validateExport,
+  toCsv,
+  toXlsx,
+  sendExport
+};
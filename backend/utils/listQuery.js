@@ -0,0 +1,72 @@
+const { query } = require('express-validator');
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Validation middleware for the page, limit, sort and order query
+// parameters of a list endpoint, sortable on the given fields
+const validateListQuery = (sortFields) => [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer').toInt(),
+  query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE }).withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`).toInt(),
+  query('sort').optional().isIn(sortFields).withMessage(`Sort must be one of: ${sortFields.join(', ')}`),
+  query('order').optional().isIn(['asc', 'desc']).withMessage('Order must be asc or desc')
+];
+
+// Mongo sort for the requested field and direction. _id breaks ties so
+// pages do not overlap when many documents share the sort value.
+const buildSort = ({ sort, order }, defaultSort) => ({
+  ...(sort ? { [sort]: order === 'desc' ? -1 : 1 } : defaultSort),
+  _id: 1
+});
+
+// Case-insensitive "contains" match for free-text search
+const containsText = (text) => ({
+  $regex: text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+  $options: 'i'
+});
+
+// Add a { $gte, $lte } range on field for whichever bounds are given
+const addRange = (filter, field, min, max) => {
+  if (min === undefined && max === undefined) return filter;
+  filter[field] = {};
+  if (min !== undefined) filter[field].$gte = min;
+  if (max !== undefined) filter[field].$lte = max;
+  return filter;
+};
+
+// Pagination envelope, the same shape /api/simulation/history returns
+const buildPagination = ({ page, limit, total, count }) => ({
+  current_page: page,
+  total_pages: Math.ceil(total / limit),
+  total_results: total,
+  has_next: (page - 1) * limit + count < total,
+  has_prev: page > 1
+});
+
+// Fetch one page of a model's documents matching filter
+const findPage = async (Model, filter, params, defaultSort) => {
+  const page = params.page || 1;
+  const limit = params.limit || DEFAULT_PAGE_SIZE;
+
+  const results = await Model.find(filter)
+    .sort(buildSort(params, defaultSort))
+    .skip((page - 1) * limit)
+    .limit(limit);
+  const total = await Model.countDocuments(filter);
+
+  return {
+    results,
+    pagination: buildPagination({ page, limit, total, count: results.length })
+  };
+};
+
+module.exports = {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  validateListQuery,
+  buildSort,
+  containsText,
+  addRange,
+  buildPagination,
+  findPage
+};
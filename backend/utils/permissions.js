@@ -0,0 +1,19 @@
+// Roles allowed to perform each action. Reading data only needs a valid
+// login; everything that changes data is listed here.
+const PERMISSIONS = {
+  'simulation:run': ['manager', 'admin'],
+  'orders:write': ['manager', 'admin'],
+  'drivers:write': ['admin'],
+  'routes:write': ['admin'],
+  'records:delete': ['admin'],
+  'rules:write': ['admin'],
+  'users:manage': ['admin']
+};
+
+// Whether a user with the given role may perform the action
+const can = (role, permission) => (PERMISSIONS[permission] || []).includes(role);
+
+module.exports = {
+  PERMISSIONS,
+  can
+};
@@ -0,0 +1,25 @@
+const crypto = require('crypto');
+
+const MAX_SEED = 2 ** 32 - 1;
+
+// Seeded pseudo-random number generator (mulberry32).
+// Returns a function that yields floats in [0, 1), like Math.random.
+const createRandom = (seed) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Pick a fresh seed for runs that did not ask for one
+const generateSeed = () => crypto.randomInt(0, MAX_SEED);
+
+module.exports = {
+  MAX_SEED,
+  createRandom,
+  generateSeed
+};
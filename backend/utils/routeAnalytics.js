@@ -0,0 +1,61 @@
+const { DEFAULT_RULES, routeFuelCost, isHighValueOrder } = require('./rules');
+const { timeToMinutes } = require('./time');
+
+const round = (value, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// An order is expected to be late when the time it was promised in, plus
+// the grace window, is shorter than the route's base time: even without
+// traffic or fatigue it cannot arrive on time
+const isExpectedLate = (order, route, rules) =>
+  timeToMinutes(order.delivery_time) + rules.late_grace_minutes < route.base_time;
+
+// Profitability of a route from the orders on it. Every order is one trip,
+// so it pays the route's fuel cost once; profit follows the simulation:
+// order value less fuel, plus the high-value bonus of the orders expected
+// on time, less the late penalty of the others.
+const analyzeRoute = (route, orders, rules = DEFAULT_RULES) => {
+  const fuelCost = routeFuelCost(route, rules).total * orders.length;
+  let totalValue = 0;
+  let lateOrders = 0;
+  let bonus = 0;
+
+  orders.forEach(order => {
+    totalValue += order.value_rs;
+    if (isExpectedLate(order, route, rules)) {
+      lateOrders++;
+    } else if (isHighValueOrder(order, rules)) {
+      bonus += order.value_rs * rules.high_value_bonus_rate;
+    }
+  });
+
+  const profit = totalValue - fuelCost + bonus - lateOrders * rules.late_penalty;
+  const kilometres = route.distance * orders.length;
+
+  return {
+    route_id: route.route_id,
+    distance: route.distance,
+    traffic_level: route.traffic_level,
+    base_time: route.base_time,
+    order_count: orders.length,
+    total_value: totalValue,
+    fuel_cost: round(fuelCost, 2),
+    profit: Math.round(profit),
+    profit_per_km: kilometres > 0 ? round(profit / kilometres, 2) : 0,
+    expected_late_rate: orders.length > 0 ? round((lateOrders / orders.length) * 100) : 0
+  };
+};
+
+// Analytics of every route, most profitable first
+const analyzeRoutes = (routes, orders, rules = DEFAULT_RULES) => {
+  const ordersByRoute = new Map(routes.map(route => [route.route_id, []]));
+  orders.forEach(order => ordersByRoute.get(order.route_id)?.push(order));
+
+  return routes
+    .map(route => analyzeRoute(route, ordersByRoute.get(route.route_id), rules))
+    .sort((a, b) => b.profit - a.profit || a.route_id - b.route_id);
+};
+
+module.exports = {
+  analyzeRoute,
+  analyzeRoutes
+};
@@ -0,0 +1,73 @@
+const { timeToMinutes } = require('./time');
+const { DEFAULT_TRAFFIC_MODEL, trafficMultiplier } = require('./traffic');
+
+// Company business rules used when no rule set has been saved yet
+const DEFAULT_RULES = {
+  fuel_cost_per_km: 5, // ₹5/km base cost
+  high_traffic_surcharge_per_km: 2, // ₹2/km surcharge for high traffic
+  late_penalty: 50, // ₹50 penalty for late delivery
+  high_value_threshold: 1000, // orders above ₹1000 are high value
+  high_value_bonus_rate: 0.1, // 10% bonus for high-value orders delivered on time
+  late_grace_minutes: 10, // minutes a delivery may run over before it counts as late
+  fatigue_threshold_hours: 8, // drivers who worked more than this yesterday are fatigued
+  fatigue_speed_factor: 0.7, // 30% speed decrease if fatigued
+  weekly_hours_cap: 48, // most hours a driver may work in any seven days
+  traffic_model: DEFAULT_TRAFFIC_MODEL // travel-time multipliers per traffic level and time of day
+};
+
+// Times of day route travel times are quoted at, morning vs evening rush
+const EFFECTIVE_TIME_SLOTS = ['09:00', '17:00'];
+
+const RULE_FIELDS = Object.keys(DEFAULT_RULES);
+
+// In-memory copy of the active rule set so synchronous code such as model
+// virtuals can read it. Kept up to date by the RuleSet model.
+let currentRules = { ...DEFAULT_RULES };
+
+const getCurrentRules = () => currentRules;
+
+const setCurrentRules = (rules) => {
+  currentRules = { ...DEFAULT_RULES };
+  RULE_FIELDS.forEach(field => {
+    if (rules[field] !== undefined) currentRules[field] = rules[field];
+  });
+};
+
+// Fuel cost of driving a route once
+const routeFuelCost = (route, rules = currentRules) => {
+  const base = route.distance * rules.fuel_cost_per_km;
+  const surcharge = route.traffic_level === 'High' ? route.distance * rules.high_traffic_surcharge_per_km : 0;
+  return {
+    base,
+    surcharge,
+    total: base + surcharge
+  };
+};
+
+// Minutes it takes to drive a route when setting off at the given minutes
+// since midnight
+const routeTravelMinutes = (route, minutes, rules = currentRules) =>
+  route.base_time * trafficMultiplier(route.traffic_level, minutes, rules.traffic_model);
+
+// Travel time of a route at each of the quoted times of day
+const routeEffectiveTimes = (route, rules = currentRules) => {
+  const times = {};
+  EFFECTIVE_TIME_SLOTS.forEach(time => {
+    times[time] = Math.round(routeTravelMinutes(route, timeToMinutes(time), rules));
+  });
+  return times;
+};
+
+const isHighValueOrder = (order, rules = currentRules) => order.value_rs > rules.high_value_threshold;
+
+module.exports = {
+  DEFAULT_RULES,
+  RULE_FIELDS,
+  EFFECTIVE_TIME_SLOTS,
+  getCurrentRules,
+  setCurrentRules,
+  routeFuelCost,
+  routeTravelMinutes,
+  routeEffectiveTimes,
+  isHighValueOrder
+};
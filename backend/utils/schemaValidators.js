@@ -0,0 +1,86 @@
+const { body } = require('express-validator');
+const schemas = require('../openapi/schemas');
+const { TIME_PATTERN, padTime } = require('./time');
+const { isTrafficModel } = require('./traffic');
+const { isIntRange, isTimeList } = require('./sweep');
+
+// Follow a $ref to the component schema it names, keeping any keywords set
+// next to it (such as x-error-message)
+const resolve = (schema) => {
+  if (!schema.$ref) return schema;
+  const { $ref, ...rest } = schema;
+  return { ...resolve(schemas[$ref.split('/').pop()]), ...rest };
+};
+
+// Checks for the x-validator keyword, built from the field's schema. Sweep
+// axes take their bounds from the single value they may be given as.
+const customValidators = {
+  intRange: ({ oneOf: [value] }) => isIntRange(value.minimum ?? -Infinity, value.maximum ?? Infinity),
+  timeList: () => isTimeList,
+  partialTrafficModel: () => (value) => isTrafficModel(value, { partial: true })
+};
+
+const range = (schema, min, max) => {
+  const options = {};
+  if (schema[min] !== undefined) options.min = schema[min];
+  if (schema[max] !== undefined) options.max = schema[max];
+  return options;
+};
+
+// The express-validator chain checking one field against its schema
+const fieldChain = (field, schema, required) => {
+  let chain = body(field);
+  if (!required) chain = chain.optional();
+  if (schema['x-trim']) chain = chain.trim();
+
+  if (schema['x-validator']) {
+    chain = chain.custom(customValidators[schema['x-validator']](schema));
+  } else if (schema.enum) {
+    chain = chain.isIn(schema.enum);
+  } else if (schema.type === 'integer') {
+    chain = chain.isInt(range(schema, 'minimum', 'maximum'));
+  } else if (schema.type === 'number') {
+    chain = chain.isFloat(range(schema, 'minimum', 'maximum'));
+  } else if (schema.type === 'boolean') {
+    chain = chain.isBoolean();
+  } else if (schema.type === 'array') {
+    chain = chain.isArray(range(schema, 'minItems', 'maxItems'));
+  } else if (schema.format === 'email') {
+    chain = chain.isEmail();
+  } else if (schema.pattern) {
+    chain = chain.matches(new RegExp(schema.pattern));
+  } else if (schema.minLength !== undefined || schema.maxLength !== undefined) {
+    chain = chain.isLength(range(schema, 'minLength', 'maxLength'));
+  } else {
+    chain = chain.isString();
+  }
+
+  if (schema['x-error-message']) chain = chain.withMessage(schema['x-error-message']);
+  if (schema.type === 'integer') chain = chain.toInt();
+  if (schema.type === 'number') chain = chain.toFloat();
+  if (schema.type === 'boolean') chain = chain.toBoolean();
+  if (schema.format === 'email') chain = chain.normalizeEmail();
+  // HH:MM fields are passed on zero-padded, the way they are stored
+  if (schema.pattern === TIME_PATTERN.source) chain = chain.customSanitizer(padTime);
+  return chain;
+};
+
+// Validation middleware for a request body matching an object schema: one
+// chain per property, plus one for the items of each array property
+const bodyValidators = (schema) => {
+  const { properties, required = [] } = resolve(schema);
+
+  return Object.entries(properties).flatMap(([field, property]) => {
+    const fieldSchema = resolve(property);
+    const chains = [fieldChain(field, fieldSchema, required.includes(field))];
+    if (fieldSchema.type === 'array' && fieldSchema.items) {
+      chains.push(fieldChain(`${field}.*`, resolve(fieldSchema.items), true));
+    }
+    return chains;
+  });
+};
+
+module.exports = {
+  resolve,
+  bodyValidators
+};
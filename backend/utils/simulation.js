@@ -0,0 +1,334 @@
+const { createRandom } = require('./random');
+const { timeToMinutes, minutesToTime } = require('./time');
+const { DEFAULT_RULES, routeFuelCost, routeTravelMinutes, isHighValueOrder } = require('./rules');
+
+// Upper bounds (minutes) of the buckets used for the on-time (earliness) and
+// late (lateness) distributions; anything above the last bound goes into an
+// open-ended bucket
+const TIMING_BUCKETS = [15, 30, 60];
+
+const timingBucketLabels = () => TIMING_BUCKETS
+  .map((bound, index) => `${index === 0 ? 0 : TIMING_BUCKETS[index - 1]}-${bound}`)
+  .concat(`${TIMING_BUCKETS[TIMING_BUCKETS.length - 1]}+`);
+
+// Count how many of the given minute values fall into each timing bucket
+const buildTimingDistribution = (minutes) => {
+  const counts = timingBucketLabels().map(range => ({ range, count: 0 }));
+  minutes.forEach(value => {
+    const index = TIMING_BUCKETS.findIndex(bound => value < bound);
+    counts[index === -1 ? TIMING_BUCKETS.length : index].count++;
+  });
+  return counts;
+};
+
+// Longest run the multi-day simulation covers, one week
+const MAX_SIMULATION_DAYS = 7;
+
+// Build one schedule slot per driver. Clocks are minutes since midnight and
+// every driver starts at start_time; a driver can work until either the
+// company max_hours_per_day or their own shift_hours runs out. Fatigue is
+// read from each driver's past_week_hours unless a rolling history is given.
+const createDriverSchedule = (
+  drivers,
+  { start_time, max_hours_per_day },
+  rules = DEFAULT_RULES,
+  history = drivers.map(driver => driver.past_week_hours)
+) => {
+  const startMinutes = timeToMinutes(start_time);
+
+  return drivers.map((driver, index) => {
+    // Check if driver worked too long yesterday (use last day of the week's hours)
+    const pastWeekHours = history[index];
+    const yesterdayHours = pastWeekHours[pastWeekHours.length - 1];
+
+    return {
+      driver,
+      clock: startMinutes,
+      minutes_worked: 0,
+      limit_minutes: Math.min(max_hours_per_day, driver.shift_hours) * 60,
+      fatigue: yesterdayHours > rules.fatigue_threshold_hours ? rules.fatigue_speed_factor : 1.0
+    };
+  });
+};
+
+// Trip duration for a given slot: the route's travel time in traffic at the
+// moment the driver sets off, slowed down by driver fatigue
+const tripMinutes = (slot, route, rules) => routeTravelMinutes(route, slot.clock, rules) / slot.fatigue;
+
+// Pick the driver who becomes free first and still has time left for the trip.
+// Drivers that are free at the same moment are chosen between at random.
+const pickDriver = (schedule, route, random, rules = DEFAULT_RULES) => {
+  const eligible = schedule.filter(slot =>
+    slot.minutes_worked + tripMinutes(slot, route, rules) <= slot.limit_minutes
+  );
+  if (eligible.length === 0) return null;
+
+  const earliest = Math.min(...eligible.map(slot => slot.clock));
+  const candidates = eligible.filter(slot => slot.clock === earliest);
+  return candidates[Math.floor(random() * candidates.length)];
+};
+
+// Run the delivery simulation against already loaded drivers, routes and orders.
+// Orders are handed out one after another in the order given; orders no driver
+// has time left for are reported as unassigned, and orders whose route does not
+// exist are reported as orphaned. Every random choice is drawn
+// from a generator seeded with params.seed, so a run can be replayed exactly.
+// onProgress, when given, is called before each order and once at the end
+// with the running totals so far.
+const simulateDeliveries = (
+  { drivers, routes, orders },
+  params,
+  { rules = DEFAULT_RULES, random = createRandom(params.seed), history, onProgress } = {}
+) => {
+  // Create route lookup
+  const routeMap = {};
+  routes.forEach(route => {
+    routeMap[route.route_id] = route;
+  });
+
+  const schedule = createDriverSchedule(drivers, params, rules, history);
+  const startMinutes = timeToMinutes(params.start_time);
+
+  // Initialize simulation variables
+  let totalProfit = 0;
+  let onTimeDeliveries = 0;
+  let lateDeliveries = 0;
+  let totalFuelCost = 0;
+  let totalSurcharge = 0;
+  const unassignedOrders = [];
+  const orphanedOrders = [];
+  const deliveries = [];
+  const earlyMinutes = [];
+  const lateMinutes = [];
+
+  const reportProgress = (processed) => onProgress && onProgress({
+    processed,
+    total: orders.length,
+    total_profit: Math.round(totalProfit),
+    on_time_deliveries: onTimeDeliveries,
+    late_deliveries: lateDeliveries
+  });
+
+  // Process each order
+  for (const [index, order] of orders.entries()) {
+    reportProgress(index);
+    const route = routeMap[order.route_id];
+    if (!route) {
+      orphanedOrders.push(order.order_id);
+      deliveries.push({
+        order_id: order.order_id,
+        status: 'orphaned',
+        route_id: order.route_id
+      });
+      continue;
+    }
+
+    const slot = pickDriver(schedule, route, random, rules);
+    if (!slot) {
+      unassignedOrders.push(order.order_id);
+      deliveries.push({
+        order_id: order.order_id,
+        status: 'unassigned',
+        route_id: route.route_id
+      });
+      continue;
+    }
+
+    const dispatchMinutes = slot.clock;
+    const actualDeliveryMinutes = tripMinutes(slot, route, rules);
+    slot.clock += actualDeliveryMinutes;
+    slot.minutes_worked += actualDeliveryMinutes;
+
+    // Calculate fuel cost
+    const fuelCost = routeFuelCost(route, rules);
+    const orderFuelCost = fuelCost.total;
+
+    totalFuelCost += fuelCost.base;
+    totalSurcharge += fuelCost.surcharge;
+
+    // The order's delivery_time is the time the customer was promised,
+    // counted from the start of the day; it is on time if it arrives no
+    // later than that plus the grace window
+    const promisedMinutes = startMinutes + timeToMinutes(order.delivery_time);
+    const offsetMinutes = Math.round(slot.clock - promisedMinutes);
+    const isOnTime = offsetMinutes <= rules.late_grace_minutes;
+
+    // Bucket by the same test as the KPIs, so an arrival inside the grace
+    // window counts as on time (0 minutes early) rather than late
+    if (isOnTime) {
+      earlyMinutes.push(Math.max(0, -offsetMinutes));
+    } else {
+      lateMinutes.push(offsetMinutes);
+    }
+    let bonus = 0;
+    let penalty = 0;
+
+    if (isOnTime) {
+      onTimeDeliveries++;
+
+      // High-value bonus for orders delivered on time
+      if (isHighValueOrder(order, rules)) {
+        bonus = order.value_rs * rules.high_value_bonus_rate;
+      }
+    } else {
+      lateDeliveries++;
+      penalty = rules.late_penalty;
+    }
+
+    // Add order value to profit and subtract fuel cost
+    totalProfit += order.value_rs - orderFuelCost + bonus - penalty;
+
+    deliveries.push({
+      order_id: order.order_id,
+      status: 'delivered',
+      driver: slot.driver._id,
+      driver_name: slot.driver.name,
+      route_id: route.route_id,
+      dispatch_time: minutesToTime(dispatchMinutes),
+      arrival_time: minutesToTime(slot.clock),
+      promised_time: minutesToTime(promisedMinutes),
+      lateness_minutes: Math.max(0, offsetMinutes),
+      earliness_minutes: Math.max(0, -offsetMinutes),
+      is_late: !isOnTime,
+      fuel_cost: Math.round(orderFuelCost * 100) / 100,
+      penalty,
+      bonus: Math.round(bonus * 100) / 100
+    });
+  }
+  reportProgress(orders.length);
+
+  // Calculate efficiency score
+  const totalDeliveries = onTimeDeliveries + lateDeliveries;
+  const efficiencyScore = totalDeliveries > 0 ? (onTimeDeliveries / totalDeliveries) * 100 : 0;
+
+  return {
+    total_profit: Math.round(totalProfit),
+    efficiency_score: Math.round(efficiencyScore * 10) / 10,
+    on_time_deliveries: onTimeDeliveries,
+    late_deliveries: lateDeliveries,
+    unassigned_orders: unassignedOrders,
+    orphaned_orders: orphanedOrders,
+    fuel_cost_breakdown: {
+      base_cost: Math.round(totalFuelCost),
+      surcharge: Math.round(totalSurcharge),
+      total: Math.round(totalFuelCost + totalSurcharge)
+    },
+    timing_distribution: {
+      early: buildTimingDistribution(earlyMinutes),
+      late: buildTimingDistribution(lateMinutes)
+    },
+    simulation_params: params,
+    deliveries,
+    driver_hours: schedule.map(slot => slot.minutes_worked / 60),
+    timestamp: new Date().toISOString()
+  };
+};
+
+// Split orders into consecutive, evenly sized batches, one per day
+const spreadOrders = (orders, days) => {
+  const batches = Array.from({ length: days }, () => []);
+  orders.forEach((order, index) => {
+    batches[Math.floor((index * days) / orders.length)].push(order);
+  });
+  return batches;
+};
+
+// Add up the per-bucket counts of several timing distributions
+const mergeTimingDistributions = (distributions) => distributions[0].map((bucket, index) => ({
+  range: bucket.range,
+  count: distributions.reduce((sum, distribution) => sum + distribution[index].count, 0)
+}));
+
+// Run the simulation over params.days consecutive days. Orders are spread
+// evenly over the days and each day is simulated on its own; the hours every
+// driver works roll into their past_week_hours window, so a long day slows
+// the driver down the next day. Returns the week's totals plus a KPI
+// breakdown per day. onProgress reports running totals for the whole run.
+const simulateDays = (
+  { drivers, routes, orders },
+  params,
+  { rules = DEFAULT_RULES, random = createRandom(params.seed), onProgress } = {}
+) => {
+  let history = drivers.map(driver => [...driver.past_week_hours]);
+  // Totals of the days already simulated
+  const finished = { processed: 0, total_profit: 0, on_time_deliveries: 0, late_deliveries: 0 };
+  const dayProgress = onProgress && ((progress) => onProgress({
+    processed: finished.processed + progress.processed,
+    total: orders.length,
+    total_profit: finished.total_profit + progress.total_profit,
+    on_time_deliveries: finished.on_time_deliveries + progress.on_time_deliveries,
+    late_deliveries: finished.late_deliveries + progress.late_deliveries
+  }));
+
+  const dayResults = spreadOrders(orders, params.days).map((dayOrders, index) => {
+    const fatiguedDrivers = history.filter(hours => hours[hours.length - 1] > rules.fatigue_threshold_hours).length;
+    const result = simulateDeliveries(
+      { drivers, routes, orders: dayOrders },
+      params,
+      { rules, random, history, onProgress: dayProgress }
+    );
+    finished.processed += dayOrders.length;
+    finished.total_profit += result.total_profit;
+    finished.on_time_deliveries += result.on_time_deliveries;
+    finished.late_deliveries += result.late_deliveries;
+
+    history = history.map((hours, driverIndex) =>
+      [...hours.slice(1), Math.round(result.driver_hours[driverIndex] * 100) / 100]
+    );
+    return { day: index + 1, fatigued_drivers: fatiguedDrivers, result };
+  });
+
+  const results = dayResults.map(({ result }) => result);
+  const sum = (pick) => results.reduce((total, result) => total + pick(result), 0);
+  const onTimeDeliveries = sum(result => result.on_time_deliveries);
+  const lateDeliveries = sum(result => result.late_deliveries);
+  const totalDeliveries = onTimeDeliveries + lateDeliveries;
+  const efficiencyScore = totalDeliveries > 0 ? (onTimeDeliveries / totalDeliveries) * 100 : 0;
+
+  return {
+    total_profit: sum(result => result.total_profit),
+    efficiency_score: Math.round(efficiencyScore * 10) / 10,
+    on_time_deliveries: onTimeDeliveries,
+    late_deliveries: lateDeliveries,
+    unassigned_orders: results.flatMap(result => result.unassigned_orders),
+    orphaned_orders: results.flatMap(result => result.orphaned_orders),
+    fuel_cost_breakdown: {
+      base_cost: sum(result => result.fuel_cost_breakdown.base_cost),
+      surcharge: sum(result => result.fuel_cost_breakdown.surcharge),
+      total: sum(result => result.fuel_cost_breakdown.total)
+    },
+    timing_distribution: {
+      early: mergeTimingDistributions(results.map(result => result.timing_distribution.early)),
+      late: mergeTimingDistributions(results.map(result => result.timing_distribution.late))
+    },
+    days: dayResults.map(({ day, fatigued_drivers, result }) => ({
+      day,
+      total_profit: result.total_profit,
+      efficiency_score: result.efficiency_score,
+      on_time_deliveries: result.on_time_deliveries,
+      late_deliveries: result.late_deliveries,
+      unassigned_orders: result.unassigned_orders.length,
+      fuel_cost: result.fuel_cost_breakdown.total,
+      fatigued_drivers
+    })),
+    simulation_params: params,
+    deliveries: dayResults.flatMap(({ day, result }) =>
+      result.deliveries.map(delivery => ({ ...delivery, day }))
+    ),
+    driver_hours: history.map(hours => hours.slice(-params.days)),
+    timestamp: new Date().toISOString()
+  };
+};
+
+module.exports = {
+  TIMING_BUCKETS,
+  MAX_SIMULATION_DAYS,
+  timeToMinutes,
+  minutesToTime,
+  createDriverSchedule,
+  pickDriver,
+  buildTimingDistribution,
+  spreadOrders,
+  simulateDeliveries,
+  simulateDays
+};
@@ -0,0 +1,143 @@
+const crypto = require('crypto');
+const path = require('path');
+const { Worker } = require('worker_threads');
+
+// How long a finished job is kept so clients can still read its outcome
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+// Jobs of this server process by id. Jobs do not survive a restart.
+const jobs = new Map();
+
+// Running totals as sent to clients, with the share done and the on-time
+// rate so far
+const formatProgress = ({ processed, total, total_profit, on_time_deliveries, late_deliveries }) => {
+  const delivered = on_time_deliveries + late_deliveries;
+  return {
+    processed,
+    total,
+    percent: total > 0 ? Math.round((processed / total) * 1000) / 10 : 100,
+    total_profit,
+    on_time_deliveries,
+    late_deliveries,
+    on_time_rate: delivered > 0 ? Math.round((on_time_deliveries / delivered) * 1000) / 10 : 0
+  };
+};
+
+// What clients see of a job
+const jobSnapshot = (job) => ({
+  id: job.id,
+  status: job.status,
+  params: job.params,
+  progress: job.progress,
+  result_id: job.result_id,
+  error: job.error,
+  created_at: job.created_at
+});
+
+// Tell every listener about an event ('progress' or the job's new status)
+const emit = (job, event) => {
+  const snapshot = jobSnapshot(job);
+  job.listeners.forEach(listener => listener(event, snapshot));
+};
+
+const finish = (job, status, fields = {}) => {
+  Object.assign(job, { status, worker: null, ...fields });
+  emit(job, status);
+  job.listeners.clear();
+  setTimeout(() => jobs.delete(job.id), FINISHED_JOB_TTL_MS).unref();
+};
+
+// Start a simulation in a worker thread and return the job. data, params
+// and rules must be plain objects. onResult stores the engine's result and
+// resolves to the stored result's id; it runs on the main thread, which
+// holds the database connection.
+const startSimulationJob = ({ owner, data, params, rules, onResult }) => {
+  const job = {
+    id: crypto.randomUUID(),
+    owner: String(owner),
+    status: 'running',
+    params,
+    progress: formatProgress({
+      processed: 0,
+      total: data.orders.length,
+      total_profit: 0,
+      on_time_deliveries: 0,
+      late_deliveries: 0
+    }),
+    result_id: null,
+    error: null,
+    created_at: new Date(),
+    listeners: new Set(),
+    worker: null
+  };
+  jobs.set(job.id, job);
+
+  const worker = new Worker(path.join(__dirname, 'simulationWorker.js'), { workerData: { data, params, rules } });
+  job.worker = worker;
+
+  worker.on('message', async (message) => {
+    if (job.status !== 'running') return;
+    if (message.type === 'progress') {
+      job.progress = formatProgress(message.progress);
+      emit(job, 'progress');
+      return;
+    }
+
+    // The engine is done; from here on the job can no longer be cancelled
+    job.worker = null;
+    try {
+      const resultId = await onResult(message.result);
+      finish(job, 'completed', { result_id: resultId });
+    } catch (error) {
+      console.error('Error saving simulation job result:', error);
+      finish(job, 'failed', { error: error.message });
+    }
+  });
+
+  worker.on('error', (error) => {
+    console.error('Simulation job error:', error);
+    if (job.status === 'running') finish(job, 'failed', { error: error.message });
+  });
+
+  // A worker can die without an 'error' event (out of memory, terminated,
+  // process.exit); without this the job would stay running for good
+  worker.on('exit', (code) => {
+    if (job.status === 'running' && job.worker === worker) {
+      console.error(`Simulation worker exited with code ${code}`);
+      finish(job, 'failed', { error: `Simulation worker stopped unexpectedly (exit code ${code})` });
+    }
+  });
+
+  return job;
+};
+
+// The job with this id, if it belongs to the given user
+const getSimulationJob = (id, owner) => {
+  const job = jobs.get(id);
+  return job && job.owner === String(owner) ? job : null;
+};
+
+// Stop a job whose simulation is still running. Returns false when it has
+// already finished or is saving its result.
+const cancelSimulationJob = (job) => {
+  if (!job.worker) return false;
+  job.worker.terminate();
+  finish(job, 'cancelled');
+  return true;
+};
+
+// Call listener(event, snapshot) on every progress update and once when the
+// job finishes. Returns a function that stops listening.
+const subscribeToJob = (job, listener) => {
+  job.listeners.add(listener);
+  return () => job.listeners.delete(listener);
+};
+
+module.exports = {
+  formatProgress,
+  jobSnapshot,
+  startSimulationJob,
+  getSimulationJob,
+  cancelSimulationJob,
+  subscribeToJob
+};
@@ -0,0 +1,18 @@
+const { parentPort, workerData } = require('worker_threads');
+const { simulateDeliveries, simulateDays } = require('./simulation');
+
+// Runs one simulation job off the main thread (see simulationJobs.js).
+// Progress is posted about every 1% of orders so large runs send at most
+// a hundred or so messages.
+const { data, params, rules } = workerData;
+const step = Math.max(1, Math.floor(data.orders.length / 100));
+
+const onProgress = (progress) => {
+  if (progress.processed % step === 0 || progress.processed === progress.total) {
+    parentPort.postMessage({ type: 'progress', progress });
+  }
+};
+
+const simulate = params.days > 1 ? simulateDays : simulateDeliveries;
+const result = simulate(data, params, { rules, onProgress });
+parentPort.postMessage({ type: 'done', result });
@@ -0,0 +1,113 @@
+const { query, validationResult } = require('express-validator');
+const { validateListQuery, findPage } = require('./listQuery');
+const { recordAudit } = require('./audit');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long deleted records stay in the trash before a purge removes them
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+// Filter for documents in the trash
+const IN_TRASH = { deleted_at: { $ne: null } };
+
+// Mongoose plugin adding a deleted_at timestamp. Deleted documents are
+// hidden from reads and updates unless the query's filter mentions
+// deleted_at or it sets the withDeleted option.
+const softDeletePlugin = (schema) => {
+  schema.add({ deleted_at: { type: Date, default: null, index: true } });
+
+  schema.pre(['find', 'findOne', 'findOneAndUpdate', 'countDocuments', 'distinct'], function() {
+    if (this.getOptions().withDeleted || 'deleted_at' in this.getFilter()) return;
+    this.where({ deleted_at: null });
+  });
+};
+
+// Validation middleware for the trash list query
+const validateTrashQuery = validateListQuery(['deleted_at']);
+
+// Validation middleware for the purge query
+const validatePurge = [
+  query('older_than_days').optional().isInt({ min: 0 }).withMessage('older_than_days must be a non-negative integer').toInt()
+];
+
+// Build the route handlers for a model's trash:
+//   list    - GET /trash, a page of deleted documents, newest first
+//   restore - POST /:id/restore; checkRestore may return a reason the
+//             document cannot come back yet, sent as a 409
+//   purge   - DELETE /trash?older_than_days=N, removing documents deleted
+//             at least N days ago for good (TRASH_RETENTION_DAYS by default)
+const createTrashHandlers = ({ Model, entity, name, label, checkRestore = async () => null }) => ({
+  list: async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const page = await findPage(Model, IN_TRASH, req.query, { deleted_at: -1 });
+      res.json(page);
+    } catch (error) {
+      console.error(`Error fetching deleted ${label}:`, error);
+      res.status(500).json({ message: `Server error while fetching deleted ${label}` });
+    }
+  },
+
+  restore: async (req, res) => {
+    try {
+      const document = await Model.findOne({ _id: req.params.id, ...IN_TRASH });
+      if (!document) {
+        return res.status(404).json({ message: `${name} not found in the trash` });
+      }
+
+      const reason = await checkRestore(document);
+      if (reason) {
+        return res.status(409).json({ message: reason });
+      }
+
+      const restored = await Model.findOneAndUpdate(
+        { _id: document._id, ...IN_TRASH },
+        { deleted_at: null },
+        { new: true }
+      );
+      await recordAudit(req, { action: 'restore', entity, after: restored });
+      res.json(restored);
+    } catch (error) {
+      console.error(`Error restoring ${entity}:`, error);
+      res.status(500).json({ message: `Server error while restoring ${entity}` });
+    }
+  },
+
+  purge: async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          message: 'Validation failed',
+          errors: errors.array()
+        });
+      }
+
+      const days = req.query.older_than_days ?? TRASH_RETENTION_DAYS;
+      const cutoff = new Date(Date.now() - days * DAY_MS);
+      const { deletedCount } = await Model.deleteMany({ deleted_at: { $ne: null, $lte: cutoff } });
+
+      await recordAudit(req, { action: 'purge', entity, details: { older_than_days: days, purged: deletedCount } });
+      res.json({ message: `Purged ${deletedCount} ${label}`, purged: deletedCount });
+    } catch (error) {
+      console.error(`Error purging ${label}:`, error);
+      res.status(500).json({ message: `Server error while purging ${label}` });
+    }
+  }
+});
+
+module.exports = {
+  TRASH_RETENTION_DAYS,
+  IN_TRASH,
+  softDeletePlugin,
+  validateTrashQuery,
+  validatePurge,
+  createTrashHandlers
+};
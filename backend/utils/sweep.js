@@ -0,0 +1,88 @@
+const { TIME_PATTERN, padTime } = require('./time');
+
+// Upper bound on simulations a single sweep may run
+const MAX_SWEEP_COMBINATIONS = 500;
+
+// Upper bound on orders scheduled across all runs of a sweep (runs times
+// orders), so a sweep over a large order book cannot run for minutes
+const MAX_SWEEP_ORDER_RUNS = 100000;
+
+// Expand a numeric sweep field into the list of values to try. Accepts a
+// single number, an explicit list, or a { min, max, step } range.
+const expandRange = (value) => {
+  if (Array.isArray(value)) return value.map(Number);
+  if (value !== null && typeof value === 'object') {
+    const { min, max, step = 1 } = value;
+    const values = [];
+    for (let v = Number(min); v <= Number(max); v += Number(step)) {
+      values.push(v);
+    }
+    return values;
+  }
+  return [Number(value)];
+};
+
+// Expand the start_time field, a single HH:MM string or a list of them,
+// into zero-padded times
+const expandTimes = (value) => (Array.isArray(value) ? value : [value]).map(padTime);
+
+// Validator factory for numeric sweep fields
+const isIntRange = (min, max) => (value) => {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    if (!Number.isInteger(Number(value.step ?? 1)) || Number(value.step ?? 1) < 1) return false;
+    if (Number(value.min) > Number(value.max)) return false;
+    if ((Number(value.max) - Number(value.min)) / Number(value.step ?? 1) >= MAX_SWEEP_COMBINATIONS) return false;
+  }
+  const values = expandRange(value);
+  return values.length > 0 && values.every(v => Number.isInteger(v) && v >= min && v <= max);
+};
+
+const isTimeList = (value) => {
+  const times = expandTimes(value);
+  return times.length > 0 && times.every(time => typeof time === 'string' && TIME_PATTERN.test(time));
+};
+
+// Why a sweep of this many runs over this many orders is too large, or null
+// when it is within both limits
+const sweepSizeError = (runs, orders) => {
+  if (runs > MAX_SWEEP_COMBINATIONS) {
+    return `Sweep would run ${runs} simulations; the limit is ${MAX_SWEEP_COMBINATIONS}`;
+  }
+  if (runs * orders > MAX_SWEEP_ORDER_RUNS) {
+    return `Sweep would schedule ${runs * orders} orders (${runs} runs of ${orders} orders); the limit is ${MAX_SWEEP_ORDER_RUNS}`;
+  }
+  return null;
+};
+
+// Resolve on the next turn of the event loop, so a long sweep lets other
+// requests through between its runs
+const yieldToEventLoop = () => new Promise(resolve => setImmediate(resolve));
+
+// Every combination of the given axes, drivers varying fastest
+const buildCombinations = ({ available_drivers, start_time, max_hours_per_day }) => {
+  const combinations = [];
+  max_hours_per_day.forEach(maxHours => {
+    start_time.forEach(startTime => {
+      available_drivers.forEach(driverCount => {
+        combinations.push({
+          available_drivers: driverCount,
+          start_time: startTime,
+          max_hours_per_day: maxHours
+        });
+      });
+    });
+  });
+  return combinations;
+};
+
+module.exports = {
+  MAX_SWEEP_COMBINATIONS,
+  MAX_SWEEP_ORDER_RUNS,
+  expandRange,
+  expandTimes,
+  isIntRange,
+  isTimeList,
+  sweepSizeError,
+  yieldToEventLoop,
+  buildCombinations
+};
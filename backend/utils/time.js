@@ -0,0 +1,27 @@
+// HH:MM time of day; the hour may come without its leading zero
+const TIME_PATTERN = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+// Zero-pad the hour of an HH:MM time ("9:05" to "09:05") so times sort and
+// compare correctly as text. Anything else is returned as it is.
+const padTime = (time) => (typeof time === 'string' && TIME_PATTERN.test(time) ? time.padStart(5, '0') : time);
+
+// Helper function to convert time string to minutes
+const timeToMinutes = (timeString) => {
+  const [hours, minutes] = timeString.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Helper function to convert minutes to time string (wraps past midnight)
+const minutesToTime = (minutes) => {
+  const total = Math.round(minutes) % (24 * 60);
+  const hours = Math.floor(total / 60);
+  const mins = total % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+};
+
+module.exports = {
+  TIME_PATTERN,
+  padTime,
+  timeToMinutes,
+  minutesToTime
+};
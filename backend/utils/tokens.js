@@ -0,0 +1,88 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const RefreshToken = require('../models/RefreshToken');
+const User = require('../models/User');
+
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_DAYS = Number(process.env.REFRESH_TOKEN_DAYS) || 7;
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Short-lived JWT; tv is the user's token_version so that logging out
+// everywhere also invalidates access tokens that have not expired yet
+const generateAccessToken = (user) => jwt.sign(
+  { id: user._id, tv: user.token_version },
+  process.env.JWT_SECRET,
+  { expiresIn: ACCESS_TOKEN_EXPIRES_IN }
+);
+
+const generateRefreshToken = () => crypto.randomBytes(48).toString('hex');
+
+// Store a refresh token for the user, a new one unless given, and return it
+// unhashed
+const createRefreshToken = async (user, token = generateRefreshToken()) => {
+  await RefreshToken.create({
+    user: user._id,
+    token_hash: hashToken(token),
+    expires_at: new Date(Date.now() + REFRESH_TOKEN_DAYS * 24 * 60 * 60 * 1000)
+  });
+  return token;
+};
+
+// Access and refresh token pair returned by login, register and refresh
+const issueTokens = async (user, refreshToken) => ({
+  token: generateAccessToken(user),
+  refresh_token: await createRefreshToken(user, refreshToken)
+});
+
+// Revoke every refresh token of a user and invalidate their access tokens
+const revokeSessions = async (userId) => {
+  await RefreshToken.updateMany({ user: userId, revoked_at: null }, { revoked_at: new Date() });
+  await User.updateOne({ _id: userId }, { $inc: { token_version: 1 } });
+};
+
+// Swap a refresh token for a new pair. Returns null when the token is
+// unknown, expired or revoked. The token is revoked and its successor
+// recorded in one update, so of two refreshes racing with the same token
+// only one gets a new pair. A token that was already swapped being used
+// again means it was copied, so every session of that user is revoked;
+// one revoked by logout is simply refused.
+const rotateRefreshToken = async (token) => {
+  const tokenHash = hashToken(token);
+  const next = generateRefreshToken();
+  const now = new Date();
+
+  const stored = await RefreshToken.findOneAndUpdate(
+    { token_hash: tokenHash, revoked_at: null, expires_at: { $gt: now } },
+    { revoked_at: now, replaced_by: hashToken(next) }
+  );
+  if (!stored) {
+    const used = await RefreshToken.findOne({ token_hash: tokenHash });
+    if (used?.replaced_by) await revokeSessions(used.user);
+    return null;
+  }
+
+  const user = await User.findById(stored.user);
+  if (!user || !user.active) return null;
+
+  return { user, tokens: await issueTokens(user, next) };
+};
+
+// Revoke a single refresh token; unknown tokens are ignored
+const revokeRefreshToken = async (token) => {
+  await RefreshToken.updateOne(
+    { token_hash: hashToken(token), revoked_at: null },
+    { revoked_at: new Date() }
+  );
+};
+
+module.exports = {
+  ACCESS_TOKEN_EXPIRES_IN,
+  REFRESH_TOKEN_DAYS,
+  hashToken,
+  generateAccessToken,
+  issueTokens,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeSessions
+};
@@ -0,0 +1,88 @@
+const { TIME_PATTERN, timeToMinutes } = require('./time');
+
+const TRAFFIC_LEVELS = ['Low', 'Medium', 'High'];
+
+// Allowed range for any travel-time multiplier
+const MIN_MULTIPLIER = 0.5;
+const MAX_MULTIPLIER = 5;
+
+// Travel-time multiplier per traffic level. `multiplier` applies outside rush
+// hours; during a rush-hour window its own multiplier applies instead.
+const DEFAULT_TRAFFIC_MODEL = {
+  Low: {
+    multiplier: 1,
+    rush_hours: []
+  },
+  Medium: {
+    multiplier: 1,
+    rush_hours: [
+      { start: '08:00', end: '10:00', multiplier: 1.2 },
+      { start: '17:00', end: '19:00', multiplier: 1.2 }
+    ]
+  },
+  High: {
+    multiplier: 1,
+    rush_hours: [
+      { start: '08:00', end: '10:00', multiplier: 1.5 },
+      { start: '17:00', end: '19:00', multiplier: 1.5 }
+    ]
+  }
+};
+
+// Whether a minute of the day falls inside a window; windows whose end is
+// before their start run past midnight
+const isInWindow = (minuteOfDay, { start, end }) => {
+  const from = timeToMinutes(start);
+  const to = timeToMinutes(end);
+  return from <= to
+    ? minuteOfDay >= from && minuteOfDay < to
+    : minuteOfDay >= from || minuteOfDay < to;
+};
+
+// Travel-time multiplier for a traffic level at the given minutes since midnight
+const trafficMultiplier = (trafficLevel, minutes, model = DEFAULT_TRAFFIC_MODEL) => {
+  const level = model[trafficLevel];
+  if (!level) return 1;
+
+  const minuteOfDay = Math.floor(minutes) % (24 * 60);
+  const window = level.rush_hours.find(rush => isInWindow(minuteOfDay, rush));
+  return window ? window.multiplier : level.multiplier;
+};
+
+const isMultiplier = (value) =>
+  typeof value === 'number' && value >= MIN_MULTIPLIER && value <= MAX_MULTIPLIER;
+
+const isTrafficLevelModel = (level) =>
+  level !== null &&
+  typeof level === 'object' &&
+  isMultiplier(level.multiplier) &&
+  Array.isArray(level.rush_hours) &&
+  level.rush_hours.every(rush =>
+    rush !== null &&
+    typeof rush === 'object' &&
+    TIME_PATTERN.test(rush.start) &&
+    TIME_PATTERN.test(rush.end) &&
+    rush.start !== rush.end &&
+    isMultiplier(rush.multiplier)
+  );
+
+// Validate a traffic model. With `partial` only the levels given are checked,
+// which is how updates that change a single traffic level are sent.
+const isTrafficModel = (model, { partial = false } = {}) => {
+  if (model === null || typeof model !== 'object' || Array.isArray(model)) return false;
+
+  const levels = Object.keys(model);
+  if (levels.some(level => !TRAFFIC_LEVELS.includes(level))) return false;
+  if (!partial && TRAFFIC_LEVELS.some(level => !levels.includes(level))) return false;
+
+  return levels.every(level => isTrafficLevelModel(model[level]));
+};
+
+module.exports = {
+  TRAFFIC_LEVELS,
+  MIN_MULTIPLIER,
+  MAX_MULTIPLIER,
+  DEFAULT_TRAFFIC_MODEL,
+  trafficMultiplier,
+  isTrafficModel
+};
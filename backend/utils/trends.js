@@ -0,0 +1,61 @@
+const { addRange } = require('./listQuery');
+
+const TREND_BUCKETS = ['day', 'week'];
+
+// Start of the UTC day, or of the ISO week (Monday), a run's timestamp
+// falls in
+const bucketStart = (bucket) => (bucket === 'week'
+  ? {
+      $dateFromParts: {
+        isoWeekYear: { $isoWeekYear: '$timestamp' },
+        isoWeek: { $isoWeek: '$timestamp' },
+        isoDayOfWeek: 1
+      }
+    }
+  : {
+      $dateFromParts: {
+        year: { $year: '$timestamp' },
+        month: { $month: '$timestamp' },
+        day: { $dayOfMonth: '$timestamp' }
+      }
+    });
+
+// Aggregation pipeline grouping simulation results into day or week
+// buckets: the run count and average KPIs per bucket, oldest first. The
+// on-time rate is over all deliveries of the bucket's runs.
+const buildTrendPipeline = ({ from, to, bucket = 'day' }) => [
+  { $match: addRange({}, 'timestamp', from, to) },
+  {
+    $group: {
+      _id: bucketStart(bucket),
+      runs: { $sum: 1 },
+      total_profit: { $avg: '$total_profit' },
+      efficiency_score: { $avg: '$efficiency_score' },
+      fuel_cost: { $avg: '$fuel_cost_breakdown.total' },
+      on_time_deliveries: { $sum: '$on_time_deliveries' },
+      late_deliveries: { $sum: '$late_deliveries' }
+    }
+  },
+  { $sort: { _id: 1 } }
+];
+
+const round = (value, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// A bucket of the pipeline's output as sent to clients
+const formatTrendPoint = ({ _id, runs, total_profit, efficiency_score, fuel_cost, on_time_deliveries, late_deliveries }) => {
+  const delivered = on_time_deliveries + late_deliveries;
+  return {
+    period_start: _id,
+    runs,
+    total_profit: Math.round(total_profit),
+    efficiency_score: round(efficiency_score),
+    on_time_rate: delivered > 0 ? round((on_time_deliveries / delivered) * 100) : 0,
+    fuel_cost: Math.round(fuel_cost)
+  };
+};
+
+module.exports = {
+  TREND_BUCKETS,
+  buildTrendPipeline,
+  formatTrendPoint
+};
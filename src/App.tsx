@@ -5,14 +5,19 @@ import { DataProvider } from './contexts/DataContext';
 import Login from './components/Login';
 import Dashboard from './components/Dashboard';
 import Simulation from './components/Simulation';
+import SimulationCompare from './components/SimulationCompare';
+import SimulationHistory from './components/SimulationHistory';
+import SimulationSweep from './components/SimulationSweep';
 import DriversManagement from './components/DriversManagement';
 import RoutesManagement from './components/RoutesManagement';
 import OrdersManagement from './components/OrdersManagement';
+import BusinessRules from './components/BusinessRules';
+import UsersManagement from './components/UsersManagement';
 import Navbar from './components/Navbar';
 import { Toaster } from 'react-hot-toast';
 
 function AppContent() {
-  const { isAuthenticated, loading } = useAuth();
+  const { isAuthenticated, loading, can } = useAuth();
 
   if (loading) {
     return (
@@ -34,9 +39,14 @@ function AppContent() {
           <Route path="/" element={<Dashboard />} />
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/simulation" element={<Simulation />} />
+          <Route path="/simulation/history" element={<SimulationHistory />} />
+          <Route path="/simulation/compare" element={<SimulationCompare />} />
+          <Route path="/simulation/sweep" element={<SimulationSweep />} />
           <Route path="/drivers" element={<DriversManagement />} />
           <Route path="/routes" element={<RoutesManagement />} />
           <Route path="/orders" element={<OrdersManagement />} />
+          <Route path="/rules" element={<BusinessRules />} />
+          {can('users:manage') && <Route path="/users" element={<UsersManagement />} />}
           <Route path="*" element={<Navigate to="/dashboard" replace />} />
         </Routes>
       </main>
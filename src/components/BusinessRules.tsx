@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from 'react';
+import { useData, RuleSet, TrafficLevel, TrafficModel, RushHourWindow } from '../contexts/DataContext';
+import { useAuth } from '../contexts/AuthContext';
+import { errorMessage, request } from '../services/api';
+import { SlidersHorizontal, Save, CheckCircle, RotateCcw, Plus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type RuleField =
+  | 'fuel_cost_per_km'
+  | 'high_traffic_surcharge_per_km'
+  | 'late_penalty'
+  | 'high_value_threshold'
+  | 'high_value_bonus_rate'
+  | 'late_grace_minutes'
+  | 'fatigue_threshold_hours'
+  | 'fatigue_speed_factor'
+  | 'weekly_hours_cap';
+
+const ruleFields: { name: RuleField; label: string; hint: string; step: string }[] = [
+  { name: 'fuel_cost_per_km', label: 'Fuel Cost (₹/km)', hint: 'Base fuel cost per kilometre', step: '0.1' },
+  { name: 'high_traffic_surcharge_per_km', label: 'High Traffic Surcharge (₹/km)', hint: 'Added on high-traffic routes', step: '0.1' },
+  { name: 'late_penalty', label: 'Late Penalty (₹)', hint: 'Charged per late delivery', step: '1' },
+  { name: 'late_grace_minutes', label: 'Grace Window (min)', hint: 'Minutes a delivery may run over', step: '1' },
+  { name: 'high_value_threshold', label: 'High-Value Threshold (₹)', hint: 'Orders above this earn a bonus', step: '1' },
+  { name: 'high_value_bonus_rate', label: 'High-Value Bonus Rate', hint: '0.1 = 10% of the order value', step: '0.01' },
+  { name: 'fatigue_threshold_hours', label: 'Fatigue Threshold (h)', hint: 'Hours worked yesterday before fatigue', step: '0.5' },
+  { name: 'fatigue_speed_factor', label: 'Fatigue Speed Factor', hint: '0.7 = 30% slower when fatigued', step: '0.05' },
+  { name: 'weekly_hours_cap', label: 'Weekly Hours Cap (h)', hint: 'Most hours a driver may work in seven days', step: '1' },
+];
+
+const trafficLevels: TrafficLevel[] = ['Low', 'Medium', 'High'];
+
+const BusinessRules: React.FC = () => {
+  const { ruleSet, fetchRuleSet, fetchRoutes } = useData();
+  const { can } = useAuth();
+  const canEditRules = can('rules:write');
+  const [versions, setVersions] = useState<RuleSet[]>([]);
+  const [formData, setFormData] = useState<Record<RuleField, number> | null>(null);
+  const [trafficModel, setTrafficModel] = useState<TrafficModel | null>(null);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchVersions = async () => {
+    try {
+      setVersions(await request('GET /rules'));
+    } catch (error) {
+      console.error('Error fetching rule versions:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchVersions();
+  }, []);
+
+  useEffect(() => {
+    if (ruleSet) {
+      const values = {} as Record<RuleField, number>;
+      ruleFields.forEach(field => {
+        values[field.name] = ruleSet[field.name];
+      });
+      setFormData(values);
+      setTrafficModel(ruleSet.traffic_model);
+    }
+  }, [ruleSet]);
+
+  // Virtuals such as route fuel cost depend on the active rules
+  const refreshAfterChange = async () => {
+    await Promise.all([fetchRuleSet(), fetchVersions(), fetchRoutes()]);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => prev && ({ ...prev, [name]: parseFloat(value) || 0 }));
+  };
+
+  const updateTrafficLevel = (level: TrafficLevel, multiplier: number, rushHours: RushHourWindow[]) => {
+    setTrafficModel(prev => prev && ({ ...prev, [level]: { multiplier, rush_hours: rushHours } }));
+  };
+
+  const handleRushHourChange = (level: TrafficLevel, index: number, changes: Partial<RushHourWindow>) => {
+    if (!trafficModel) return;
+    const { multiplier, rush_hours } = trafficModel[level];
+    updateTrafficLevel(level, multiplier, rush_hours.map((rush, i) => (i === index ? { ...rush, ...changes } : rush)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    setSaving(true);
+    try {
+      const saved = await request('POST /rules', {
+        body: {
+          ...formData,
+          traffic_model: trafficModel ?? undefined,
+          notes: notes.trim() || undefined
+        }
+      });
+      await refreshAfterChange();
+      setNotes('');
+      toast.success(`Saved rules version ${saved.version}`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Save failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActivate = async (version: RuleSet) => {
+    if (!window.confirm(`Make rules version ${version.version} active again?`)) return;
+
+    try {
+      await request('PUT /rules/{id}/activate', { path: { id: version._id } });
+      await refreshAfterChange();
+      toast.success(`Rules version ${version.version} is now active`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Activation failed'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <div className="bg-orange-500 p-3 rounded-lg">
+          <SlidersHorizontal className="h-6 w-6 text-white" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 ml-4">Business Rules</h1>
+        {ruleSet && (
+          <span className="ml-4 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+            Active: version {ruleSet.version}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Rules Form */}
+        <form onSubmit={handleSubmit} className="lg:col-span-2 bg-white rounded-lg shadow-md p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {formData && ruleFields.map(field => (
+              <div key={field.name}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                <input
+                  type="number"
+                  name={field.name}
+                  min="0"
+                  step={field.step}
+                  value={formData[field.name]}
+                  onChange={handleInputChange}
+                  disabled={!canEditRules}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                />
+                <p className="text-xs text-gray-500 mt-1">{field.hint}</p>
+              </div>
+            ))}
+          </div>
+
+          {trafficModel && (
+            <div className="border-t pt-4">
+              <h2 className="text-lg font-semibold text-gray-900">Traffic Model</h2>
+              <p className="text-xs text-gray-500 mb-3">
+                Travel-time multipliers per traffic level. Rush-hour windows replace the off-peak multiplier for trips that set off inside them.
+              </p>
+              <div className="space-y-4">
+                {trafficLevels.map(level => (
+                  <div key={level} className="border border-gray-200 rounded-md p-3">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span className="w-20 text-sm font-medium text-gray-900">{level}</span>
+                      <label className="text-sm text-gray-600">Off-peak ×</label>
+                      <input
+                        type="number"
+                        min="0.5"
+                        max="5"
+                        step="0.05"
+                        value={trafficModel[level].multiplier}
+                        onChange={(e) => updateTrafficLevel(level, parseFloat(e.target.value) || 0, trafficModel[level].rush_hours)}
+                        disabled={!canEditRules}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-50"
+                      />
+                      {canEditRules && (
+                        <button
+                          type="button"
+                          onClick={() => updateTrafficLevel(level, trafficModel[level].multiplier, [
+                            ...trafficModel[level].rush_hours,
+                            { start: '08:00', end: '10:00', multiplier: 1.2 }
+                          ])}
+                          className="flex items-center text-sm text-blue-600 hover:text-blue-900"
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Rush hour
+                        </button>
+                      )}
+                    </div>
+                    {trafficModel[level].rush_hours.map((rush, index) => (
+                      <div key={index} className="flex flex-wrap items-center gap-2 mt-2 ml-20 text-sm">
+                        <input
+                          type="time"
+                          value={rush.start}
+                          onChange={(e) => handleRushHourChange(level, index, { start: e.target.value })}
+                          disabled={!canEditRules}
+                          className="px-2 py-1 border border-gray-300 rounded-md disabled:bg-gray-50"
+                        />
+                        <span className="text-gray-500">to</span>
+                        <input
+                          type="time"
+                          value={rush.end}
+                          onChange={(e) => handleRushHourChange(level, index, { end: e.target.value })}
+                          disabled={!canEditRules}
+                          className="px-2 py-1 border border-gray-300 rounded-md disabled:bg-gray-50"
+                        />
+                        <span className="text-gray-500">×</span>
+                        <input
+                          type="number"
+                          min="0.5"
+                          max="5"
+                          step="0.05"
+                          value={rush.multiplier}
+                          onChange={(e) => handleRushHourChange(level, index, { multiplier: parseFloat(e.target.value) || 0 })}
+                          disabled={!canEditRules}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-md disabled:bg-gray-50"
+                        />
+                        {canEditRules && (
+                          <button
+                            type="button"
+                            onClick={() => updateTrafficLevel(
+                              level,
+                              trafficModel[level].multiplier,
+                              trafficModel[level].rush_hours.filter((_, i) => i !== index)
+                            )}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {canEditRules ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Change Notes</label>
+                <input
+                  type="text"
+                  value={notes}
+                  maxLength={200}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Why are the rules changing?"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save as New Version
+              </button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Only admins can change business rules.</p>
+          )}
+        </form>
+
+        {/* Version History */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Version History</h2>
+          <ul className="space-y-3">
+            {versions.map(version => (
+              <li key={version._id} className="flex items-start justify-between border-b pb-3 last:border-b-0">
+                <div className="text-sm">
+                  <p className="font-medium text-gray-900 flex items-center">
+                    Version {version.version}
+                    {version.active && <CheckCircle className="h-4 w-4 text-green-600 ml-1" />}
+                  </p>
+                  <p className="text-gray-500">{new Date(version.createdAt).toLocaleString()}</p>
+                  {version.notes && <p className="text-gray-600 mt-1">{version.notes}</p>}
+                </div>
+                {canEditRules && !version.active && (
+                  <button
+                    onClick={() => handleActivate(version)}
+                    title="Make active"
+                    className="text-blue-600 hover:text-blue-900"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BusinessRules;
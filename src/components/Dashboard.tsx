@@ -1,4 +1,5 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
+import { Link } from 'react-router-dom';
 import { useData } from '../contexts/DataContext';
 import { 
   DollarSign, 
@@ -15,17 +16,23 @@ import {
   CategoryScale,
   LinearScale,
   BarElement,
+  LineElement,
+  PointElement,
   Title,
   Tooltip,
   Legend,
   ArcElement,
 } from 'chart.js';
-import { Bar, Doughnut } from 'react-chartjs-2';
+import { Bar, Doughnut, Line } from 'react-chartjs-2';
+import ExportButton from './ExportButton';
+import KpiTrends from './KpiTrends';
 
 ChartJS.register(
   CategoryScale,
   LinearScale,
   BarElement,
+  LineElement,
+  PointElement,
   Title,
   Tooltip,
   Legend,
@@ -33,14 +40,56 @@ ChartJS.register(
 );
 
 const Dashboard: React.FC = () => {
-  const { simulationResults, drivers, routes, orders } = useData();
-  const [latestResult, setLatestResult] = useState(simulationResults[0] || null);
+  const { simulationResults, historyPagination, status, counts, fetchSimulationResults } = useData();
+  const latestResult = simulationResults[0] ?? null;
 
-  useEffect(() => {
-    if (simulationResults.length > 0) {
-      setLatestResult(simulationResults[0]);
-    }
-  }, [simulationResults]);
+  // Most recent run that covered more than one day
+  const weeklyResult = simulationResults.find(result => (result.days?.length ?? 0) > 1);
+
+  const weeklyTrendData = {
+    labels: weeklyResult?.days?.map(day => `Day ${day.day}`) ?? [],
+    datasets: [
+      {
+        label: 'Profit (₹)',
+        data: weeklyResult?.days?.map(day => day.total_profit) ?? [],
+        borderColor: '#10B981',
+        backgroundColor: '#10B981',
+        yAxisID: 'profit',
+      },
+      {
+        label: 'Efficiency (%)',
+        data: weeklyResult?.days?.map(day => day.efficiency_score) ?? [],
+        borderColor: '#3B82F6',
+        backgroundColor: '#3B82F6',
+        yAxisID: 'efficiency',
+      },
+    ],
+  };
+
+  const weeklyTrendOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+    },
+    scales: {
+      profit: {
+        type: 'linear' as const,
+        position: 'left' as const,
+      },
+      efficiency: {
+        type: 'linear' as const,
+        position: 'right' as const,
+        min: 0,
+        max: 100,
+        grid: {
+          drawOnChartArea: false,
+        },
+      },
+    },
+  };
 
   const deliveryChartData = {
     labels: ['On-time Deliveries', 'Late Deliveries'],
@@ -94,25 +143,25 @@ const Dashboard: React.FC = () => {
   const stats = [
     {
       name: 'Total Drivers',
-      value: drivers.length,
+      value: counts.drivers,
       icon: Users,
       color: 'bg-blue-500',
     },
     {
       name: 'Active Routes',
-      value: routes.length,
+      value: counts.routes,
       icon: Route,
       color: 'bg-green-500',
     },
     {
       name: 'Total Orders',
-      value: orders.length,
+      value: counts.orders,
       icon: Package,
       color: 'bg-purple-500',
     },
     {
       name: 'Simulations Run',
-      value: simulationResults.length,
+      value: historyPagination?.total_results ?? 0,
       icon: TrendingUp,
       color: 'bg-orange-500',
     },
@@ -123,12 +172,29 @@ const Dashboard: React.FC = () => {
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
         <div className="text-sm text-gray-500">
-          {latestResult && (
+          {latestResult ? (
             <span>Last simulation: {new Date(latestResult.timestamp).toLocaleString()}</span>
+          ) : status.history.loading && (
+            <span>Loading simulation history...</span>
           )}
         </div>
       </div>
 
+      {status.history.error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start justify-between">
+          <div className="flex items-start text-sm text-red-800">
+            <AlertTriangle className="h-5 w-5 text-red-600 mr-3 flex-shrink-0" />
+            <p>Could not load simulation history: {status.history.error}</p>
+          </div>
+          <button
+            onClick={() => fetchSimulationResults()}
+            className="text-sm font-medium text-red-700 hover:text-red-900"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {stats.map((stat) => {
@@ -219,11 +285,35 @@ const Dashboard: React.FC = () => {
         </div>
       )}
 
+      {/* KPI Trends */}
+      <KpiTrends />
+
+      {/* Weekly Trend */}
+      {weeklyResult && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Weekly Trend</h3>
+            <span className="text-sm text-gray-500">
+              {weeklyResult.days?.length}-day run of {new Date(weeklyResult.timestamp).toLocaleString()}
+            </span>
+          </div>
+          <div className="h-64">
+            <Line data={weeklyTrendData} options={weeklyTrendOptions} />
+          </div>
+        </div>
+      )}
+
       {/* Recent Simulations */}
       {simulationResults.length > 0 && (
         <div className="bg-white rounded-lg shadow-md">
-          <div className="px-6 py-4 border-b border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
             <h3 className="text-lg font-semibold text-gray-900">Recent Simulations</h3>
+            <div className="flex items-center space-x-4">
+              <Link to="/simulation/history" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+                View all
+              </Link>
+              <ExportButton path="/simulation/history/export" name="simulation-history" />
+            </div>
           </div>
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../services/api';
+import { SimulationDelivery, Pagination } from '../contexts/DataContext';
+import { ListOrdered } from 'lucide-react';
+import PaginationControls from './PaginationControls';
+
+interface DeliveryTimelineProps {
+  simulationId: string;
+  days?: number;
+}
+
+type DeliveryFilter = 'all' | 'late' | 'unassigned' | 'orphaned';
+
+const DeliveryTimeline: React.FC<DeliveryTimelineProps> = ({ simulationId, days = 1 }) => {
+  const [deliveries, setDeliveries] = useState<SimulationDelivery[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [filter, setFilter] = useState<DeliveryFilter>('all');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setPage(1);
+  }, [simulationId, filter]);
+
+  useEffect(() => {
+    const params: Record<string, string | number> = { page, limit: 10 };
+    if (filter === 'late') params.late = 'true';
+    if (filter === 'unassigned' || filter === 'orphaned') params.status = filter;
+
+    setLoading(true);
+    api.get(`/simulation/history/${simulationId}/deliveries`, { params })
+      .then(response => {
+        setDeliveries(response.data.results);
+        setPagination(response.data.pagination);
+      })
+      .catch(error => {
+        console.error('Error fetching deliveries:', error);
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [simulationId, filter, page]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center">
+          <ListOrdered className="h-5 w-5 text-gray-500 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-900">Delivery Timeline</h3>
+        </div>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as DeliveryFilter)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="all">All orders</option>
+          <option value="late">Late only</option>
+          <option value="unassigned">Unassigned only</option>
+          <option value="orphaned">Missing route only</option>
+        </select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {[...(days > 1 ? ['Day'] : []), 'Order', 'Driver', 'Route', 'Dispatch', 'Arrival', 'Promised', 'Lateness', 'Fuel', 'Penalty', 'Bonus'].map(heading => (
+                <th
+                  key={heading}
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {deliveries.map((delivery) => (
+              <tr key={delivery._id} className={delivery.is_late ? 'bg-red-50' : undefined}>
+                {days > 1 && (
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{delivery.day}</td>
+                )}
+                <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                  #{delivery.order_id}
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                  {delivery.status === 'unassigned' ? (
+                    <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-orange-100 text-orange-800">
+                      Unassigned
+                    </span>
+                  ) : delivery.status === 'orphaned' ? (
+                    <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                      Missing route
+                    </span>
+                  ) : delivery.driver_name}
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">#{delivery.route_id}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{delivery.dispatch_time || '—'}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{delivery.arrival_time || '—'}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{delivery.promised_time || '—'}</td>
+                <td className={`px-6 py-3 whitespace-nowrap text-sm ${delivery.is_late ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                  {delivery.earliness_minutes ? `${delivery.earliness_minutes} min early` : `${delivery.lateness_minutes} min`}
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">₹{delivery.fuel_cost}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-red-600">₹{delivery.penalty}</td>
+                <td className="px-6 py-3 whitespace-nowrap text-sm text-green-600">₹{delivery.bonus}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {!loading && deliveries.length === 0 && (
+        <div className="text-center py-8 text-sm text-gray-600">No deliveries match this filter.</div>
+      )}
+
+      <PaginationControls pagination={pagination} onPageChange={setPage} noun="orders" />
+    </div>
+  );
+};
+
+export default DeliveryTimeline;
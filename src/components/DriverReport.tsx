@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { request } from '../services/api';
+import { DriverReport as DriverReportData } from '../contexts/DataContext';
+import { AlertTriangle, ArrowDown, ArrowUp } from 'lucide-react';
+
+type SortKey =
+  | 'name'
+  | 'shift_hours'
+  | 'total_hours'
+  | 'utilization'
+  | 'consecutive_days_over'
+  | 'projected_week_hours';
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'shift_hours', label: 'Shift' },
+  { key: 'total_hours', label: 'Week Hours' },
+  { key: 'utilization', label: 'Utilization' },
+  { key: 'consecutive_days_over', label: 'Days Over' },
+  { key: 'projected_week_hours', label: 'Projected Week' },
+];
+
+const DriverReport: React.FC = () => {
+  const [report, setReport] = useState<DriverReportData | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('utilization');
+  const [ascending, setAscending] = useState(false);
+
+  useEffect(() => {
+    request('GET /drivers/report')
+      .then(setReport)
+      .catch(error => console.error('Error fetching driver report:', error));
+  }, []);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(key === 'name');
+    }
+  };
+
+  if (!report) {
+    return <div className="bg-white rounded-lg shadow-md p-12 text-center text-gray-600">Loading report...</div>;
+  }
+
+  const rows = [...report.drivers].sort((a, b) => {
+    const order = sortKey === 'name'
+      ? a.name.localeCompare(b.name)
+      : a[sortKey] - b[sortKey];
+    return ascending ? order : -order;
+  });
+  const overworked = report.drivers.filter(driver => driver.is_fatigued || driver.exceeds_weekly_cap);
+
+  return (
+    <div className="space-y-4">
+      {overworked.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start">
+          <AlertTriangle className="h-5 w-5 text-red-600 mr-3 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-red-800">
+            <p className="font-medium">{overworked.length} driver{overworked.length === 1 ? '' : 's'} overworked</p>
+            <p>
+              {overworked.map(driver => driver.name).join(', ')} worked more than {report.fatigue_threshold_hours}h
+              yesterday or would go over the {report.weekly_hours_cap}h weekly cap with a full shift today.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {columns.map(column => (
+                  <th
+                    key={column.key}
+                    onClick={() => handleSort(column.key)}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none hover:text-gray-700"
+                  >
+                    <span className="inline-flex items-center">
+                      {column.label}
+                      {sortKey === column.key && (ascending
+                        ? <ArrowUp className="h-3 w-3 ml-1" />
+                        : <ArrowDown className="h-3 w-3 ml-1" />)}
+                    </span>
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Warnings
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map(driver => (
+                <tr key={driver._id} className={driver.is_fatigued || driver.exceeds_weekly_cap ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{driver.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{driver.shift_hours} hours</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {driver.total_hours} hours
+                    <span className="text-gray-500"> ({driver.average_hours_per_day}/day)</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <div className="flex items-center">
+                      <div className="w-20 bg-gray-200 rounded-full h-2 mr-2">
+                        <div
+                          className={`h-2 rounded-full ${driver.utilization > 100 ? 'bg-red-500' : 'bg-green-500'}`}
+                          style={{ width: `${Math.min(driver.utilization, 100)}%` }}
+                        />
+                      </div>
+                      {driver.utilization.toFixed(1)}%
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{driver.consecutive_days_over}</td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${driver.exceeds_weekly_cap ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                    {driver.projected_week_hours} / {report.weekly_hours_cap} hours
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className="flex flex-wrap gap-1">
+                      {driver.is_fatigued && (
+                        <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-orange-100 text-orange-800">
+                          Fatigued
+                        </span>
+                      )}
+                      {driver.exceeds_weekly_cap && (
+                        <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                          Over weekly cap
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {report.drivers.length === 0 && (
+          <div className="text-center py-12 text-gray-600">No drivers to report on.</div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Utilization is average daily hours against shift hours. Drivers are fatigued after more than {report.fatigue_threshold_hours}h
+        yesterday (rules version {report.rule_set_version}).
+      </p>
+    </div>
+  );
+};
+
+export default DriverReport;
@@ -1,11 +1,40 @@
 import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
 import { useData, Driver } from '../contexts/DataContext';
-import { Users, Plus, Edit, Trash2, Save, X } from 'lucide-react';
+import { Users, History, Plus, Edit, Trash2, Trash, Save, X, Upload, Search } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { usePagedList } from '../hooks/usePagedList';
+import ImportDialog from './ImportDialog';
+import HistoryDrawer from './HistoryDrawer';
+import TrashDrawer from './TrashDrawer';
+import ExportButton from './ExportButton';
+import DriverReport from './DriverReport';
+import SortableHeader from './SortableHeader';
+import PaginationControls from './PaginationControls';
+
+type DriversTab = 'drivers' | 'report';
 
 const DriversManagement: React.FC = () => {
-  const { drivers, addDriver, updateDriver, deleteDriver } = useData();
+  const { fetchCounts, addDriver, updateDriver, deleteDriver } = useData();
+  const { can } = useAuth();
+  const canEdit = can('drivers:write');
+  const canDelete = can('records:delete');
+  const {
+    items: drivers,
+    pagination,
+    setPage,
+    sort,
+    toggleSort,
+    filters,
+    setFilter,
+    query,
+    reload,
+  } = usePagedList<Driver>('GET /drivers', { sort: 'name', order: 'asc' });
+  const [tab, setTab] = useState<DriversTab>('drivers');
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [historyFor, setHistoryFor] = useState<Driver | null>(null);
   const [editingDriver, setEditingDriver] = useState<Driver | null>(null);
   const [formData, setFormData] = useState({
     name: '',
@@ -51,6 +80,7 @@ const DriversManagement: React.FC = () => {
         await addDriver(formData);
         toast.success('Driver added successfully');
       }
+      await reload();
       
       setIsModalOpen(false);
       setEditingDriver(null);
@@ -75,16 +105,21 @@ const DriversManagement: React.FC = () => {
   };
 
   const handleDelete = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this driver?')) {
+    if (window.confirm('Move this driver to the trash?')) {
       try {
         await deleteDriver(id);
-        toast.success('Driver deleted successfully');
+        await reload();
+        toast.success('Driver moved to the trash');
       } catch (error: any) {
         toast.error(error.response?.data?.message || 'Delete failed');
       }
     }
   };
 
+  const handleRecordsChanged = async () => {
+    await Promise.all([reload(), fetchCounts()]);
+  };
+
   const closeModal = () => {
     setIsModalOpen(false);
     setEditingDriver(null);
@@ -106,86 +141,179 @@ const DriversManagement: React.FC = () => {
           </div>
           <h1 className="text-3xl font-bold text-gray-900 ml-4">Drivers Management</h1>
         </div>
-        <button
-          onClick={() => setIsModalOpen(true)}
-          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Driver
-        </button>
+        <div className="flex space-x-3">
+          <ExportButton path="/drivers/export" name="drivers" params={query} />
+          <button
+            onClick={() => setIsTrashOpen(true)}
+            className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Trash className="h-4 w-4 mr-2" />
+            Trash
+          </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </button>
+              <button
+                onClick={() => setIsModalOpen(true)}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Driver
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200 flex space-x-6">
+        {([['drivers', 'Drivers'], ['report', 'Utilization Report']] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setTab(key)}
+            className={`pb-2 text-sm font-medium border-b-2 transition-colors ${
+              tab === key
+                ? 'border-green-600 text-green-700'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
       </div>
 
+      {tab === 'report' && <DriverReport />}
+
       {/* Drivers Table */}
-      <div className="bg-white rounded-lg shadow-md overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Name
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Shift Hours
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Past Week Hours
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Avg Hours/Day
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Actions
-                </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {drivers.map((driver) => (
-                <tr key={driver._id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">{driver.name}</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">{driver.shift_hours} hours</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">
-                      {driver.past_week_hours.join(', ')}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">
-                      {(driver.past_week_hours.reduce((a, b) => a + b, 0) / 7).toFixed(1)} hours
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => handleEdit(driver)}
-                        className="text-blue-600 hover:text-blue-900"
-                      >
-                        <Edit className="h-4 w-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(driver._id!)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                    </div>
-                  </td>
+      {tab === 'drivers' && (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="p-4 border-b border-gray-200">
+            <div className="relative max-w-sm">
+              <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={filters.search ?? ''}
+                onChange={(e) => setFilter('search', e.target.value)}
+                placeholder="Search by name"
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <SortableHeader label="Name" field="name" sort={sort} onSort={toggleSort} />
+                  <SortableHeader label="Shift Hours" field="shift_hours" sort={sort} onSort={toggleSort} />
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Past Week Hours
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Avg Hours/Day
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {drivers.map((driver) => (
+                  <tr key={driver._id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{driver.name}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{driver.shift_hours} hours</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {driver.past_week_hours.join(', ')}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {(driver.past_week_hours.reduce((a, b) => a + b, 0) / 7).toFixed(1)} hours
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => setHistoryFor(driver)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="History"
+                        >
+                          <History className="h-4 w-4" />
+                        </button>
+                        {canEdit && (
+                          <button
+                            onClick={() => handleEdit(driver)}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            onClick={() => handleDelete(driver._id!)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {drivers.length === 0 && (
+            <div className="text-center py-12">
+              <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">
+                {filters.search
+                  ? 'No drivers match this search.'
+                  : 'No drivers found. Add your first driver to get started.'}
+              </p>
+            </div>
+          )}
+
+          <PaginationControls pagination={pagination} onPageChange={setPage} noun="drivers" />
         </div>
+      )}
 
-        {drivers.length === 0 && (
-          <div className="text-center py-12">
-            <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <p className="text-gray-600">No drivers found. Add your first driver to get started.</p>
-          </div>
-        )}
-      </div>
+      {/* History Drawer */}
+      {historyFor && (
+        <HistoryDrawer
+          entity="driver"
+          entityId={historyFor._id!}
+          title={historyFor.name}
+          onClose={() => setHistoryFor(null)}
+        />
+      )}
+
+      {/* Trash Drawer */}
+      {isTrashOpen && (
+        <TrashDrawer<Driver>
+          path="/drivers"
+          noun="drivers"
+          describe={(driver) => driver.name}
+          onRestored={handleRecordsChanged}
+          onClose={() => setIsTrashOpen(false)}
+        />
+      )}
+
+      {/* Import Dialog */}
+      {isImportOpen && (
+        <ImportDialog entity="drivers" onClose={() => setIsImportOpen(false)} onImported={handleRecordsChanged} />
+      )}
 
       {/* Modal */}
       {isModalOpen && (
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { api } from '../services/api';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+interface ExportButtonProps {
+  path: string;
+  name: string;
+  params?: Record<string, string>;
+}
+
+const formats: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' },
+];
+
+const ExportButton: React.FC<ExportButtonProps> = ({ path, name, params }) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setLoading(true);
+    try {
+      const response = await api.get(path, { params: { ...params, format }, responseType: 'blob' });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error('Export failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={loading}
+        className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+      >
+        <Download className="h-4 w-4 mr-2" />
+        {loading ? 'Exporting...' : 'Export'}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-40 bg-white border border-gray-200 rounded-md shadow-lg z-10">
+          {formats.map(format => (
+            <button
+              key={format.value}
+              onClick={() => handleExport(format.value)}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportButton;
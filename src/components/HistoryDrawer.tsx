@@ -0,0 +1,95 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { usePagedList } from '../hooks/usePagedList';
+import { AuditEntity, AuditEntry } from '../contexts/DataContext';
+import PaginationControls from './PaginationControls';
+
+interface HistoryDrawerProps {
+  entity: AuditEntity;
+  entityId: string;
+  title: string;
+  onClose: () => void;
+}
+
+const actionColors: Record<AuditEntry['action'], string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  restore: 'bg-yellow-100 text-yellow-800',
+  purge: 'bg-gray-100 text-gray-800',
+  import: 'bg-purple-100 text-purple-800',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Side panel listing who changed a record and what changed, newest first
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ entity, entityId, title, onClose }) => {
+  const { items: entries, pagination, setPage, loading } = usePagedList<AuditEntry>(
+    'GET /audit',
+    { sort: 'createdAt', order: 'desc' },
+    10,
+    { entity, entity_id: entityId },
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose} />
+      <div className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center">
+            <History className="h-5 w-5 text-gray-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-900">History: {title}</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {entries.map(entry => (
+            <div key={entry._id} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${actionColors[entry.action]}`}>
+                  {entry.action}
+                </span>
+                <span className="text-gray-500">{new Date(entry.createdAt).toLocaleString()}</span>
+              </div>
+              <p className="text-sm text-gray-700 mt-2">by {entry.user_name ?? 'unknown user'}</p>
+              {entry.changes.length > 0 && (
+                <table className="w-full text-xs mt-2">
+                  <tbody>
+                    {entry.changes.map(change => (
+                      <tr key={change.field} className="align-top">
+                        <td className="py-1 pr-2 font-medium text-gray-700 whitespace-nowrap">{change.field}</td>
+                        <td className="py-1 text-gray-500 line-through break-all">
+                          {entry.action !== 'create' && entry.action !== 'restore' && formatValue(change.before)}
+                        </td>
+                        <td className="py-1 px-1 text-gray-400">→</td>
+                        <td className="py-1 text-gray-900 break-all">
+                          {entry.action !== 'delete' && formatValue(change.after)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+
+          {!loading && entries.length === 0 && (
+            <p className="text-center py-8 text-sm text-gray-600">No changes recorded yet.</p>
+          )}
+        </div>
+
+        <PaginationControls pagination={pagination} onPageChange={setPage} noun="changes" />
+      </div>
+    </div>
+  );
+};
+
+export default HistoryDrawer;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { api, errorMessage } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { ImportReport } from '../contexts/DataContext';
+import { Upload, X, CheckCircle, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type ImportEntity = 'drivers' | 'routes' | 'orders';
+type ImportMode = ImportReport['mode'];
+
+interface ImportDialogProps {
+  entity: ImportEntity;
+  onClose: () => void;
+  onImported: () => Promise<void> | void;
+}
+
+// Column layout of each import, the same as the seed files
+const csvColumns: Record<ImportEntity, string> = {
+  drivers: 'name,shift_hours,past_week_hours (hours separated by |)',
+  routes: 'route_id,distance,traffic_level,base_time',
+  orders: 'order_id,value_rs,route_id,delivery_time',
+};
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ entity, onClose, onImported }) => {
+  const { can } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const postCsv = async (dryRun: boolean): Promise<ImportReport> => {
+    // Sent as text/csv, which the typed request does not do
+    const response = await api.post<ImportReport>(`/${entity}/import`, await file!.text(), {
+      params: { mode, dry_run: dryRun },
+      headers: { 'Content-Type': 'text/csv' },
+    });
+    return response.data;
+  };
+
+  const handleCheck = async () => {
+    if (!file) {
+      toast.error('Choose a CSV file first');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setReport(await postCsv(true));
+    } catch (error) {
+      toast.error(errorMessage(error, 'Check failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isBlocked = (report: ImportReport) => report.errors.length > 0 || (report.affected_orders?.length ?? 0) > 0;
+
+  const handleImport = async () => {
+    if (mode === 'replace' && !window.confirm(`Replace all ${entity} with the contents of this file?`)) return;
+
+    setLoading(true);
+    try {
+      const result = await postCsv(false);
+      await onImported();
+      toast.success(result.message);
+      onClose();
+    } catch (error) {
+      if (axios.isAxiosError<ImportReport>(error) && error.response?.data?.errors) setReport(error.response.data);
+      toast.error(errorMessage(error, 'Import failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 capitalize">Import {entity}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">CSV File</label>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setReport(null);
+              }}
+              className="w-full text-sm text-gray-700"
+            />
+            <p className="text-xs text-gray-500 mt-1">Columns: {csvColumns[entity]}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Mode</label>
+            <select
+              value={mode}
+              onChange={(e) => {
+                setMode(e.target.value as ImportMode);
+                setReport(null);
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="merge">Merge: add new rows, update matching ones</option>
+              {can('records:delete') && (
+                <option value="replace">Replace: delete existing {entity} first</option>
+              )}
+            </select>
+          </div>
+
+          {report && (
+            <div className={`rounded-md p-3 text-sm ${isBlocked(report) ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'}`}>
+              <div className="flex items-center font-medium">
+                {isBlocked(report)
+                  ? <AlertTriangle className="h-4 w-4 mr-2" />
+                  : <CheckCircle className="h-4 w-4 mr-2" />}
+                {report.valid_rows} of {report.total_rows} rows valid
+              </div>
+              {report.errors.length > 0 && (
+                <ul className="mt-2 max-h-40 overflow-y-auto space-y-1">
+                  {report.errors.map(row => (
+                    <li key={row.line}>
+                      Line {row.line}: {row.errors.join('; ')}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {report.affected_orders && report.affected_orders.length > 0 && (
+                <p className="mt-2">
+                  {report.message} Affected orders: {report.affected_orders.map(id => `#${id}`).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-2">
+            <button
+              onClick={handleCheck}
+              disabled={loading || !file}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Check File
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={loading || !report || isBlocked(report)}
+              className="flex-1 flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { request } from '../services/api';
+import { useData, KpiTrends as KpiTrendData } from '../contexts/DataContext';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+
+ChartJS.register(CategoryScale, LinearScale, LineElement, PointElement, Tooltip, Legend);
+
+type Bucket = KpiTrendData['bucket'];
+
+const RANGES = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+  { label: 'All time', days: 0 },
+];
+
+// Trailing average over up to `window` points; 0 or 1 leaves the values as they are
+const movingAverage = (values: number[], window: number) => values.map((_, index) => {
+  const slice = values.slice(Math.max(0, index - window + 1), index + 1);
+  return Math.round((slice.reduce((sum, value) => sum + value, 0) / slice.length) * 10) / 10;
+});
+
+// Bucket starts are UTC midnights, so they are shown in UTC
+const formatPeriod = (start: string, bucket: Bucket) => {
+  const date = new Date(start).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return bucket === 'week' ? `Week of ${date}` : date;
+};
+
+interface Series {
+  label: string;
+  values: number[];
+  color: string;
+}
+
+// A solid line per series plus, when smoothing, a dashed moving average
+const lineData = (labels: string[], series: Series[], window: number) => ({
+  labels,
+  datasets: series.flatMap(({ label, values, color }) => [
+    { label, data: values, borderColor: color, backgroundColor: color },
+    ...(window > 1
+      ? [{
+          label: `${label} (${window}-pt avg)`,
+          data: movingAverage(values, window),
+          borderColor: color,
+          backgroundColor: color,
+          borderDash: [6, 4],
+          pointRadius: 0,
+        }]
+      : []),
+  ]),
+});
+
+const lineOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      position: 'top' as const,
+    },
+  },
+};
+
+const KpiTrends: React.FC = () => {
+  const { simulationResults } = useData();
+  const [days, setDays] = useState(30);
+  const [bucket, setBucket] = useState<Bucket>('day');
+  const [smoothing, setSmoothing] = useState(3);
+  const [trends, setTrends] = useState<KpiTrendData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Refetch when the range changes and after new runs land in the history
+  useEffect(() => {
+    const from = days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined;
+    setLoading(true);
+    request('GET /simulation/trends', { query: { from, bucket } })
+      .then(setTrends)
+      .catch(error => console.error('Error fetching KPI trends:', error))
+      .finally(() => setLoading(false));
+  }, [days, bucket, simulationResults]);
+
+  const points = trends?.points ?? [];
+  const labels = points.map(point => formatPeriod(point.period_start, trends?.bucket ?? bucket));
+
+  const moneyData = lineData(labels, [
+    { label: 'Avg profit (₹)', values: points.map(point => point.total_profit), color: '#10B981' },
+    { label: 'Avg fuel cost (₹)', values: points.map(point => point.fuel_cost), color: '#F59E0B' },
+  ], smoothing);
+
+  const rateData = lineData(labels, [
+    { label: 'Efficiency (%)', values: points.map(point => point.efficiency_score), color: '#3B82F6' },
+    { label: 'On-time rate (%)', values: points.map(point => point.on_time_rate), color: '#8B5CF6' },
+  ], smoothing);
+
+  const selectClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">KPI Trends</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} className={selectClass}>
+            {RANGES.map(range => (
+              <option key={range.days} value={range.days}>{range.label}</option>
+            ))}
+          </select>
+          <select value={bucket} onChange={(e) => setBucket(e.target.value as Bucket)} className={selectClass}>
+            <option value="day">Per day</option>
+            <option value="week">Per week</option>
+          </select>
+          <select value={smoothing} onChange={(e) => setSmoothing(Number(e.target.value))} className={selectClass}>
+            <option value={1}>No smoothing</option>
+            <option value={3}>3-point average</option>
+            <option value={7}>7-point average</option>
+          </select>
+        </div>
+      </div>
+
+      {points.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">
+          {loading ? 'Loading trends...' : 'No simulations were run in this period.'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="h-64">
+            <Line data={moneyData} options={lineOptions} />
+          </div>
+          <div className="h-64">
+            <Line data={rateData} options={{ ...lineOptions, scales: { y: { min: 0, max: 100 } } }} />
+          </div>
+        </div>
+      )}
+      {points.length > 0 && (
+        <p className="text-xs text-gray-500 mt-3">
+          Averages over {points.reduce((sum, point) => sum + point.runs, 0)} runs.
+          {smoothing > 1 && ' Dashed lines are moving averages.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default KpiTrends;
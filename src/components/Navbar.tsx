@@ -1,31 +1,51 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
+import { useAuth, Permission } from '../contexts/AuthContext';
 import { 
   Truck, 
   BarChart3, 
   Play, 
+  GitCompare,
+  History,
+  Grid3x3,
   Users, 
   Route, 
   Package, 
+  SlidersHorizontal,
+  UserCog,
   LogOut,
+  MonitorX,
   Menu,
   X
 } from 'lucide-react';
 import { useState } from 'react';
 
+interface NavItem {
+  name: string;
+  href: string;
+  icon: typeof BarChart3;
+  permission?: Permission;
+}
+
 const Navbar: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, logoutAll, can } = useAuth();
   const location = useLocation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
-  const navigation = [
+  // Pages that only make sense with a permission are hidden without it
+  const allNavigation: NavItem[] = [
     { name: 'Dashboard', href: '/dashboard', icon: BarChart3 },
-    { name: 'Simulation', href: '/simulation', icon: Play },
+    { name: 'Simulation', href: '/simulation', icon: Play, permission: 'simulation:run' },
+    { name: 'History', href: '/simulation/history', icon: History },
+    { name: 'Compare', href: '/simulation/compare', icon: GitCompare },
+    { name: 'Sweep', href: '/simulation/sweep', icon: Grid3x3, permission: 'simulation:run' },
     { name: 'Drivers', href: '/drivers', icon: Users },
     { name: 'Routes', href: '/routes', icon: Route },
     { name: 'Orders', href: '/orders', icon: Package },
+    { name: 'Rules', href: '/rules', icon: SlidersHorizontal },
+    { name: 'Users', href: '/users', icon: UserCog, permission: 'users:manage' },
   ];
+  const navigation = allNavigation.filter(item => !item.permission || can(item.permission));
 
   const isActive = (path: string) => location.pathname === path;
 
@@ -67,6 +87,9 @@ const Navbar: React.FC = () => {
           <div className="flex items-center space-x-4">
             <div className="hidden md:flex items-center space-x-2">
               <span className="text-sm text-gray-600">Welcome, {user?.name}</span>
+              <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700 capitalize">
+                {user?.role}
+              </span>
             </div>
             <button
               onClick={logout}
@@ -75,6 +98,15 @@ const Navbar: React.FC = () => {
               <LogOut className="h-4 w-4" />
               <span className="hidden md:inline">Logout</span>
             </button>
+            <button
+              onClick={() => {
+                if (window.confirm('Log out of every session, on all devices?')) logoutAll();
+              }}
+              title="Log out all sessions"
+              className="flex items-center px-2 py-2 rounded-md text-gray-600 hover:text-gray-900 hover:bg-gray-100 transition-colors"
+            >
+              <MonitorX className="h-4 w-4" />
+            </button>
 
             {/* Mobile menu button */}
             <button
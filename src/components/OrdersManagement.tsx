@@ -1,11 +1,36 @@
 import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
 import { useData, Order } from '../contexts/DataContext';
-import { Package, Plus, Edit, Trash2, Save, X, DollarSign } from 'lucide-react';
+import { Package, History, Plus, Edit, Trash2, Trash, Save, X, DollarSign, Upload } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { usePagedList } from '../hooks/usePagedList';
+import ImportDialog from './ImportDialog';
+import HistoryDrawer from './HistoryDrawer';
+import TrashDrawer from './TrashDrawer';
+import ExportButton from './ExportButton';
+import SortableHeader from './SortableHeader';
+import PaginationControls from './PaginationControls';
 
 const OrdersManagement: React.FC = () => {
-  const { orders, routes, addOrder, updateOrder, deleteOrder } = useData();
+  const { routes, fetchCounts, addOrder, updateOrder, deleteOrder } = useData();
+  const { can } = useAuth();
+  const canEdit = can('orders:write');
+  const canDelete = can('records:delete');
+  const {
+    items: orders,
+    pagination,
+    setPage,
+    sort,
+    toggleSort,
+    filters,
+    setFilter,
+    query,
+    reload,
+  } = usePagedList<Order>('GET /orders', { sort: 'order_id', order: 'asc' });
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [historyFor, setHistoryFor] = useState<Order | null>(null);
   const [editingOrder, setEditingOrder] = useState<Order | null>(null);
   const [formData, setFormData] = useState({
     order_id: 0,
@@ -48,15 +73,6 @@ const OrdersManagement: React.FC = () => {
       return;
     }
 
-    // Check for duplicate order ID
-    const existingOrder = orders.find(o => 
-      o.order_id === formData.order_id && o._id !== editingOrder?._id
-    );
-    if (existingOrder) {
-      toast.error('Order ID already exists');
-      return;
-    }
-
     try {
       if (editingOrder) {
         await updateOrder(editingOrder._id!, formData);
@@ -65,6 +81,7 @@ const OrdersManagement: React.FC = () => {
         await addOrder(formData);
         toast.success('Order added successfully');
       }
+      await reload();
       
       setIsModalOpen(false);
       setEditingOrder(null);
@@ -91,16 +108,21 @@ const OrdersManagement: React.FC = () => {
   };
 
   const handleDelete = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this order?')) {
+    if (window.confirm('Move this order to the trash?')) {
       try {
         await deleteOrder(id);
-        toast.success('Order deleted successfully');
+        await reload();
+        toast.success('Order moved to the trash');
       } catch (error: any) {
         toast.error(error.response?.data?.message || 'Delete failed');
       }
     }
   };
 
+  const handleRecordsChanged = async () => {
+    await Promise.all([reload(), fetchCounts()]);
+  };
+
   const closeModal = () => {
     setIsModalOpen(false);
     setEditingOrder(null);
@@ -116,6 +138,8 @@ const OrdersManagement: React.FC = () => {
     return routes.find(r => r.route_id === routeId);
   };
 
+  const filterClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
   const formatTime = (timeString: string) => {
     const [hours, minutes] = timeString.split(':');
     return `${hours}h ${minutes}m`;
@@ -130,33 +154,101 @@ const OrdersManagement: React.FC = () => {
           </div>
           <h1 className="text-3xl font-bold text-gray-900 ml-4">Orders Management</h1>
         </div>
-        <button
-          onClick={() => setIsModalOpen(true)}
-          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Order
-        </button>
+        <div className="flex space-x-3">
+          <ExportButton path="/orders/export" name="orders" params={query} />
+          <button
+            onClick={() => setIsTrashOpen(true)}
+            className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Trash className="h-4 w-4 mr-2" />
+            Trash
+          </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </button>
+              <button
+                onClick={() => setIsModalOpen(true)}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Order
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Orders Table */}
       <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Value (₹)</label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                min="0"
+                value={filters.min_value ?? ''}
+                onChange={(e) => setFilter('min_value', e.target.value)}
+                placeholder="Min"
+                className={filterClass + ' w-24'}
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="number"
+                min="0"
+                value={filters.max_value ?? ''}
+                onChange={(e) => setFilter('max_value', e.target.value)}
+                placeholder="Max"
+                className={filterClass + ' w-24'}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Route</label>
+            <select
+              value={filters.route_id ?? ''}
+              onChange={(e) => setFilter('route_id', e.target.value)}
+              className={filterClass}
+            >
+              <option value="">All routes</option>
+              {routes.map((route) => (
+                <option key={route._id} value={route.route_id}>Route #{route.route_id}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Delivery Time</label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="time"
+                value={filters.delivery_from ?? ''}
+                onChange={(e) => setFilter('delivery_from', e.target.value)}
+                className={filterClass}
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="time"
+                value={filters.delivery_to ?? ''}
+                onChange={(e) => setFilter('delivery_to', e.target.value)}
+                className={filterClass}
+              />
+            </div>
+          </div>
+        </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Order ID
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Value
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Route
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Delivery Time
-                </th>
+                <SortableHeader label="Order ID" field="order_id" sort={sort} onSort={toggleSort} />
+                <SortableHeader label="Value" field="value_rs" sort={sort} onSort={toggleSort} />
+                <SortableHeader label="Route" field="route_id" sort={sort} onSort={toggleSort} />
+                <SortableHeader label="Delivery Time" field="delivery_time" sort={sort} onSort={toggleSort} />
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Route Info
                 </th>
@@ -211,17 +303,28 @@ const OrdersManagement: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex space-x-2">
                         <button
-                          onClick={() => handleEdit(order)}
-                          className="text-blue-600 hover:text-blue-900"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(order._id!)}
-                          className="text-red-600 hover:text-red-900"
+                          onClick={() => setHistoryFor(order)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="History"
                         >
-                          <Trash2 className="h-4 w-4" />
+                          <History className="h-4 w-4" />
                         </button>
+                        {canEdit && (
+                          <button
+                            onClick={() => handleEdit(order)}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            onClick={() => handleDelete(order._id!)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -234,11 +337,43 @@ const OrdersManagement: React.FC = () => {
         {orders.length === 0 && (
           <div className="text-center py-12">
             <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <p className="text-gray-600">No orders found. Add your first order to get started.</p>
+            <p className="text-gray-600">
+              {Object.values(filters).some(value => value)
+                ? 'No orders match these filters.'
+                : 'No orders found. Add your first order to get started.'}
+            </p>
           </div>
         )}
+
+        <PaginationControls pagination={pagination} onPageChange={setPage} noun="orders" />
       </div>
 
+      {/* History Drawer */}
+      {historyFor && (
+        <HistoryDrawer
+          entity="order"
+          entityId={historyFor._id!}
+          title={`Order #${historyFor.order_id}`}
+          onClose={() => setHistoryFor(null)}
+        />
+      )}
+
+      {/* Trash Drawer */}
+      {isTrashOpen && (
+        <TrashDrawer<Order>
+          path="/orders"
+          noun="orders"
+          describe={(order) => `Order #${order.order_id}`}
+          onRestored={handleRecordsChanged}
+          onClose={() => setIsTrashOpen(false)}
+        />
+      )}
+
+      {/* Import Dialog */}
+      {isImportOpen && (
+        <ImportDialog entity="orders" onClose={() => setIsImportOpen(false)} onImported={handleRecordsChanged} />
+      )}
+
       {/* Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Pagination } from '../contexts/DataContext';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationControlsProps {
+  pagination: Pagination | null;
+  onPageChange: (page: number) => void;
+  noun: string;
+}
+
+const PaginationControls: React.FC<PaginationControlsProps> = ({ pagination, onPageChange, noun }) => {
+  if (!pagination || pagination.total_pages <= 1) return null;
+
+  return (
+    <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm text-gray-600">
+      <span>
+        Page {pagination.current_page} of {pagination.total_pages} ({pagination.total_results} {noun})
+      </span>
+      <div className="flex space-x-2">
+        <button
+          onClick={() => onPageChange(pagination.current_page - 1)}
+          disabled={!pagination.has_prev}
+          className="p-1 rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => onPageChange(pagination.current_page + 1)}
+          disabled={!pagination.has_next}
+          className="p-1 rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PaginationControls;
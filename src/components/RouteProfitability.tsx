@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { request } from '../services/api';
+import { RouteAnalytics, RouteAnalyticsReport } from '../contexts/DataContext';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+// Routes shown in each of the most and least profitable charts
+const CHART_SIZE = 5;
+
+const profitChart = (routes: RouteAnalytics[]) => ({
+  labels: routes.map(route => `Route #${route.route_id}`),
+  datasets: [
+    {
+      label: 'Profit (₹)',
+      data: routes.map(route => route.profit),
+      backgroundColor: routes.map(route => (route.profit < 0 ? '#EF4444' : '#10B981')),
+    },
+  ],
+});
+
+const barOptions = {
+  indexAxis: 'y' as const,
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      display: false,
+    },
+  },
+};
+
+const RouteProfitability: React.FC = () => {
+  const [report, setReport] = useState<RouteAnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    request('GET /routes/analytics')
+      .then(setReport)
+      .catch(error => console.error('Error fetching route analytics:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // The report comes most profitable first
+  const routes = report?.routes ?? [];
+  const mostProfitable = routes.slice(0, CHART_SIZE);
+  const leastProfitable = routes.slice(-CHART_SIZE).reverse();
+  const losing = routes.filter(route => route.profit < 0).length;
+
+  if (routes.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <p className="text-sm text-gray-500 py-8 text-center">
+          {loading ? 'Loading route analytics...' : 'No routes to analyse yet.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Most Profitable Routes</h3>
+          <div className="h-64">
+            <Bar data={profitChart(mostProfitable)} options={barOptions} />
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Least Profitable Routes</h3>
+          <div className="h-64">
+            <Bar data={profitChart(leastProfitable)} options={barOptions} />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="p-4 border-b border-gray-200 text-sm text-gray-600">
+          {losing > 0
+            ? `${losing} of ${routes.length} routes lose money under rule set version ${report?.rule_set_version}.`
+            : `Every route is profitable under rule set version ${report?.rule_set_version}.`}
+          {' '}Orders promised in less than a route's base time, grace window included, are expected to be late.
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Route ID', 'Orders', 'Order Value', 'Fuel Cost', 'Profit', 'Profit / km', 'Expected Late'].map(label => (
+                  <th key={label} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {routes.map(route => (
+                <tr key={route.route_id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    #{route.route_id}
+                    <span className="text-gray-500 font-normal"> · {route.distance} km · {route.traffic_level}</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{route.order_count}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">₹{route.total_value.toLocaleString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">₹{route.fuel_cost.toLocaleString()}</td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${route.profit < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    ₹{route.profit.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">₹{route.profit_per_km.toFixed(2)}</td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${route.expected_late_rate > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {route.expected_late_rate.toFixed(1)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RouteProfitability;
@@ -1,12 +1,45 @@
 import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
 import { useData, Route } from '../contexts/DataContext';
-import { Route as RouteIcon, Plus, Edit, Trash2, Save, X } from 'lucide-react';
+import { errorMessage } from '../services/api';
+import { Route as RouteIcon, History, Plus, Edit, Trash2, Trash, Save, X, Upload, BarChart3 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { usePagedList } from '../hooks/usePagedList';
+import ImportDialog from './ImportDialog';
+import HistoryDrawer from './HistoryDrawer';
+import TrashDrawer from './TrashDrawer';
+import ExportButton from './ExportButton';
+import SortableHeader from './SortableHeader';
+import PaginationControls from './PaginationControls';
+import RouteProfitability from './RouteProfitability';
 
 const RoutesManagement: React.FC = () => {
-  const { routes, addRoute, updateRoute, deleteRoute } = useData();
+  const { routes: allRoutes, ruleSet, fetchCounts, fetchRoutes, addRoute, updateRoute, deleteRoute } = useData();
+  const { can } = useAuth();
+  const canEdit = can('routes:write');
+  const canDelete = can('records:delete');
+  const {
+    items: routes,
+    pagination,
+    setPage,
+    sort,
+    toggleSort,
+    filters,
+    setFilter,
+    query,
+    reload,
+  } = usePagedList<Route>('GET /routes', { sort: 'route_id', order: 'asc' });
+  const fuelRate = ruleSet?.fuel_cost_per_km ?? 5;
+  const surchargeRate = ruleSet?.high_traffic_surcharge_per_km ?? 2;
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [historyFor, setHistoryFor] = useState<Route | null>(null);
   const [editingRoute, setEditingRoute] = useState<Route | null>(null);
+  // Route whose delete was refused because orders still use it
+  const [blockedDelete, setBlockedDelete] = useState<{ route: Route; orders: number[] } | null>(null);
+  const [reassignTo, setReassignTo] = useState(0);
   const [formData, setFormData] = useState({
     route_id: 0,
     distance: 0,
@@ -42,7 +75,7 @@ const RoutesManagement: React.FC = () => {
     }
 
     // Check for duplicate route ID
-    const existingRoute = routes.find(r => 
+    const existingRoute = allRoutes.find(r => 
       r.route_id === formData.route_id && r._id !== editingRoute?._id
     );
     if (existingRoute) {
@@ -52,12 +85,15 @@ const RoutesManagement: React.FC = () => {
 
     try {
       if (editingRoute) {
-        await updateRoute(editingRoute._id!, formData);
-        toast.success('Route updated successfully');
+        const moved = await updateRoute(editingRoute._id!, formData);
+        toast.success(moved.length > 0
+          ? `Route updated and ${moved.length} orders moved to #${formData.route_id}`
+          : 'Route updated successfully');
       } else {
         await addRoute(formData);
         toast.success('Route added successfully');
       }
+      await reload();
       
       setIsModalOpen(false);
       setEditingRoute(null);
@@ -83,17 +119,39 @@ const RoutesManagement: React.FC = () => {
     setIsModalOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this route?')) {
+  const handleDelete = async (route: Route) => {
+    if (window.confirm('Move this route to the trash?')) {
       try {
-        await deleteRoute(id);
-        toast.success('Route deleted successfully');
+        await deleteRoute(route._id!);
+        await reload();
+        toast.success('Route moved to the trash');
       } catch (error: any) {
-        toast.error(error.response?.data?.message || 'Delete failed');
+        if (error.response?.status === 409) {
+          setReassignTo(allRoutes.find(r => r._id !== route._id)?.route_id ?? 0);
+          setBlockedDelete({ route, orders: error.response.data.affected_orders });
+        } else {
+          toast.error(error.response?.data?.message || 'Delete failed');
+        }
       }
     }
   };
 
+  const handleReassignAndDelete = async () => {
+    if (!blockedDelete || !reassignTo) return;
+    try {
+      const moved = await deleteRoute(blockedDelete.route._id!, reassignTo);
+      await reload();
+      toast.success(`Route moved to the trash and its ${moved.length} orders to #${reassignTo}`);
+      setBlockedDelete(null);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Delete failed'));
+    }
+  };
+
+  const handleRecordsChanged = async () => {
+    await Promise.all([reload(), fetchCounts(), fetchRoutes()]);
+  };
+
   const closeModal = () => {
     setIsModalOpen(false);
     setEditingRoute(null);
@@ -123,32 +181,74 @@ const RoutesManagement: React.FC = () => {
           </div>
           <h1 className="text-3xl font-bold text-gray-900 ml-4">Routes Management</h1>
         </div>
-        <button
-          onClick={() => setIsModalOpen(true)}
-          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Route
-        </button>
+        <div className="flex space-x-3">
+          <ExportButton path="/routes/export" name="routes" params={query} />
+          <button
+            onClick={() => setShowAnalytics(prev => !prev)}
+            className={`flex items-center px-4 py-2 border rounded-lg transition-colors ${
+              showAnalytics
+                ? 'border-purple-500 text-purple-700 bg-purple-50 hover:bg-purple-100'
+                : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+            }`}
+          >
+            <BarChart3 className="h-4 w-4 mr-2" />
+            Analytics
+          </button>
+          <button
+            onClick={() => setIsTrashOpen(true)}
+            className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Trash className="h-4 w-4 mr-2" />
+            Trash
+          </button>
+          {canEdit && (
+            <>
+              <button
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </button>
+              <button
+                onClick={() => setIsModalOpen(true)}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Route
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
+      {/* Profitability Analytics */}
+      {showAnalytics && <RouteProfitability />}
+
       {/* Routes Table */}
       <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <select
+            value={filters.traffic_level ?? ''}
+            onChange={(e) => setFilter('traffic_level', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All traffic levels</option>
+            <option value="Low">Low</option>
+            <option value="Medium">Medium</option>
+            <option value="High">High</option>
+          </select>
+        </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <SortableHeader label="Route ID" field="route_id" sort={sort} onSort={toggleSort} />
+                <SortableHeader label="Distance (km)" field="distance" sort={sort} onSort={toggleSort} />
+                <SortableHeader label="Traffic Level" field="traffic_level" sort={sort} onSort={toggleSort} />
+                <SortableHeader label="Base Time (min)" field="base_time" sort={sort} onSort={toggleSort} />
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Route ID
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Distance (km)
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Traffic Level
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Base Time (min)
+                  In Traffic (09:00 / 17:00)
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Fuel Cost
@@ -160,9 +260,8 @@ const RoutesManagement: React.FC = () => {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {routes.map((route) => {
-                const baseFuelCost = route.distance * 5;
-                const surcharge = route.traffic_level === 'High' ? route.distance * 2 : 0;
-                const totalFuelCost = baseFuelCost + surcharge;
+                const surcharge = route.fuelCost?.surcharge ?? 0;
+                const totalFuelCost = route.fuelCost?.total ?? 0;
                 
                 return (
                   <tr key={route._id} className="hover:bg-gray-50">
@@ -180,6 +279,21 @@ const RoutesManagement: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">{route.base_time} min</div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {route.effectiveTimes ? (
+                          <>
+                            <span className={route.effectiveTimes['09:00'] > route.base_time ? 'text-red-600' : undefined}>
+                              {route.effectiveTimes['09:00']} min
+                            </span>
+                            {' / '}
+                            <span className={route.effectiveTimes['17:00'] > route.base_time ? 'text-red-600' : undefined}>
+                              {route.effectiveTimes['17:00']} min
+                            </span>
+                          </>
+                        ) : '—'}
+                      </div>
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">
                         ₹{totalFuelCost}
@@ -191,17 +305,28 @@ const RoutesManagement: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex space-x-2">
                         <button
-                          onClick={() => handleEdit(route)}
-                          className="text-blue-600 hover:text-blue-900"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(route._id!)}
-                          className="text-red-600 hover:text-red-900"
+                          onClick={() => setHistoryFor(route)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="History"
                         >
-                          <Trash2 className="h-4 w-4" />
+                          <History className="h-4 w-4" />
                         </button>
+                        {canEdit && (
+                          <button
+                            onClick={() => handleEdit(route)}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            onClick={() => handleDelete(route)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -214,11 +339,103 @@ const RoutesManagement: React.FC = () => {
         {routes.length === 0 && (
           <div className="text-center py-12">
             <RouteIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <p className="text-gray-600">No routes found. Add your first route to get started.</p>
+            <p className="text-gray-600">
+              {filters.traffic_level
+                ? 'No routes match this filter.'
+                : 'No routes found. Add your first route to get started.'}
+            </p>
           </div>
         )}
+
+        <PaginationControls pagination={pagination} onPageChange={setPage} noun="routes" />
       </div>
 
+      {/* History Drawer */}
+      {historyFor && (
+        <HistoryDrawer
+          entity="route"
+          entityId={historyFor._id!}
+          title={`Route #${historyFor.route_id}`}
+          onClose={() => setHistoryFor(null)}
+        />
+      )}
+
+      {/* Reassign Orders Dialog */}
+      {blockedDelete && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Delete Route #{blockedDelete.route.route_id}
+              </h2>
+              <button
+                onClick={() => setBlockedDelete(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-700">
+              {blockedDelete.orders.length} orders are still on this route:
+            </p>
+            <p className="text-sm text-gray-900 mt-1 max-h-24 overflow-y-auto">
+              {blockedDelete.orders.map(orderId => `#${orderId}`).join(', ')}
+            </p>
+
+            <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">
+              Move them to
+            </label>
+            <select
+              value={reassignTo}
+              onChange={(e) => setReassignTo(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {allRoutes
+                .filter(r => r._id !== blockedDelete.route._id)
+                .map(r => (
+                  <option key={r._id} value={r.route_id}>
+                    Route #{r.route_id} ({r.distance} km, {r.traffic_level})
+                  </option>
+                ))}
+            </select>
+
+            <div className="flex space-x-3 pt-6">
+              <button
+                onClick={handleReassignAndDelete}
+                disabled={!reassignTo}
+                className="flex-1 flex items-center justify-center px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Move Orders and Delete
+              </button>
+              <button
+                onClick={() => setBlockedDelete(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Trash Drawer */}
+      {isTrashOpen && (
+        <TrashDrawer<Route>
+          path="/routes"
+          noun="routes"
+          describe={(route) => `Route #${route.route_id}`}
+          onRestored={handleRecordsChanged}
+          onClose={() => setIsTrashOpen(false)}
+        />
+      )}
+
+      {/* Import Dialog */}
+      {isImportOpen && (
+        <ImportDialog entity="routes" onClose={() => setIsImportOpen(false)} onImported={handleRecordsChanged} />
+      )}
+
       {/* Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -304,10 +521,10 @@ const RoutesManagement: React.FC = () => {
 
               <div className="bg-gray-50 p-3 rounded-md">
                 <p className="text-sm text-gray-600">
-                  <strong>Estimated Fuel Cost:</strong> ₹{(formData.distance * 5 + (formData.traffic_level === 'High' ? formData.distance * 2 : 0)).toFixed(2)}
+                  <strong>Estimated Fuel Cost:</strong> ₹{(formData.distance * fuelRate + (formData.traffic_level === 'High' ? formData.distance * surchargeRate : 0)).toFixed(2)}
                 </p>
                 <p className="text-xs text-gray-500 mt-1">
-                  Base: ₹5/km {formData.traffic_level === 'High' && '+ ₹2/km surcharge for high traffic'}
+                  Base: ₹{fuelRate}/km {formData.traffic_level === 'High' && `+ ₹${surchargeRate}/km surcharge for high traffic`}
                 </p>
               </div>
 
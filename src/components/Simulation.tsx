@@ -1,23 +1,32 @@
 import React, { useState } from 'react';
-import { useData } from '../contexts/DataContext';
-import { Play, Clock, Users, Settings, TrendingUp, DollarSign } from 'lucide-react';
+import { useLocation } from 'react-router-dom';
+import { useData, TimingBucket, SimulationDay, SimulationJob, SimulationParams, SimulationResult } from '../contexts/DataContext';
+import { errorMessage } from '../services/api';
+import { Play, Clock, Users, Settings, TrendingUp, DollarSign, Hash, CalendarDays, XCircle } from 'lucide-react';
 import toast from 'react-hot-toast';
+import DeliveryTimeline from './DeliveryTimeline';
 
 const Simulation: React.FC = () => {
-  const { drivers, runSimulation } = useData();
+  const { counts, ruleSet, runSimulationJob, cancelSimulationJob } = useData();
+  // Parameters of a past run to re-run, passed from the history page
+  const rerun = (useLocation().state as { params?: SimulationParams } | null)?.params;
   const [loading, setLoading] = useState(false);
+  // The running job, updated live from its event stream
+  const [job, setJob] = useState<SimulationJob | null>(null);
   const [simulationParams, setSimulationParams] = useState({
-    available_drivers: Math.min(drivers.length, 5),
-    start_time: '09:00',
-    max_hours_per_day: 8,
+    available_drivers: rerun?.available_drivers ?? Math.min(counts.drivers, 5),
+    start_time: rerun?.start_time ?? '09:00',
+    max_hours_per_day: rerun?.max_hours_per_day ?? 8,
+    days: rerun?.days ?? 1,
   });
-  const [result, setResult] = useState<any>(null);
+  const [seed, setSeed] = useState(rerun?.seed !== undefined ? String(rerun.seed) : '');
+  const [result, setResult] = useState<SimulationResult | null>(null);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setSimulationParams(prev => ({
       ...prev,
-      [name]: name === 'available_drivers' || name === 'max_hours_per_day' 
+      [name]: name === 'available_drivers' || name === 'max_hours_per_day' || name === 'days'
         ? parseInt(value) || 0 
         : value
     }));
@@ -29,8 +38,8 @@ const Simulation: React.FC = () => {
       return;
     }
 
-    if (simulationParams.available_drivers > drivers.length) {
-      toast.error(`Cannot exceed available drivers (${drivers.length})`);
+    if (simulationParams.available_drivers > counts.drivers) {
+      toast.error(`Cannot exceed available drivers (${counts.drivers})`);
       return;
     }
 
@@ -39,15 +48,42 @@ const Simulation: React.FC = () => {
       return;
     }
 
+    if (simulationParams.days < 1 || simulationParams.days > 7) {
+      toast.error('Days to simulate must be between 1 and 7');
+      return;
+    }
+
+    if (seed.trim() && !/^\d+$/.test(seed.trim())) {
+      toast.error('Seed must be a whole number');
+      return;
+    }
+
     setLoading(true);
     try {
-      const simulationResult = await runSimulation(simulationParams);
-      setResult(simulationResult);
-      toast.success('Simulation completed successfully!');
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Simulation failed');
+      const simulationResult = await runSimulationJob(
+        seed.trim() ? { ...simulationParams, seed: parseInt(seed) } : simulationParams,
+        setJob
+      );
+      if (simulationResult) {
+        setResult(simulationResult);
+        toast.success('Simulation completed successfully!');
+      } else {
+        toast('Simulation cancelled');
+      }
+    } catch (error) {
+      toast.error(errorMessage(error, 'Simulation failed'));
     } finally {
       setLoading(false);
+      setJob(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+    try {
+      await cancelSimulationJob(job.id);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Could not cancel the simulation'));
     }
   };
 
@@ -79,13 +115,13 @@ const Simulation: React.FC = () => {
                 type="number"
                 name="available_drivers"
                 min="1"
-                max={drivers.length}
+                max={counts.drivers}
                 value={simulationParams.available_drivers}
                 onChange={handleInputChange}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
               <p className="text-xs text-gray-500 mt-1">
-                Maximum available: {drivers.length} drivers
+                Maximum available: {counts.drivers} drivers
               </p>
             </div>
 
@@ -122,6 +158,43 @@ const Simulation: React.FC = () => {
               </p>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <CalendarDays className="inline h-4 w-4 mr-1" />
+                Days to Simulate
+              </label>
+              <input
+                type="number"
+                name="days"
+                min="1"
+                max="7"
+                value={simulationParams.days}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Orders are spread over the days; each day's hours feed into the next day's driver fatigue
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <Hash className="inline h-4 w-4 mr-1" />
+                Random Seed (optional)
+              </label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                placeholder="Leave empty for a new random seed"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Runs with the same parameters and seed give identical results
+              </p>
+            </div>
+
             <button
               onClick={handleRunSimulation}
               disabled={loading}
@@ -153,7 +226,45 @@ const Simulation: React.FC = () => {
             </h2>
           </div>
 
-          {result ? (
+          {loading && job ? (
+            <div className="space-y-4">
+              <div>
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span>
+                    {job.progress.processed.toLocaleString()} of {job.progress.total.toLocaleString()} orders processed
+                  </span>
+                  <span className="font-medium">{job.progress.percent}%</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-3">
+                  <div
+                    className="bg-green-600 h-3 rounded-full transition-all"
+                    style={{ width: `${job.progress.percent}%` }}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="bg-green-50 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-green-800">Profit So Far</p>
+                  <p className="text-lg font-bold text-green-900">
+                    ₹{job.progress.total_profit.toLocaleString()}
+                  </p>
+                </div>
+                <div className="bg-blue-50 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-blue-800">On-time Rate So Far</p>
+                  <p className="text-lg font-bold text-blue-900">{job.progress.on_time_rate.toFixed(1)}%</p>
+                </div>
+              </div>
+
+              <button
+                onClick={handleCancel}
+                className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Cancel Simulation
+              </button>
+            </div>
+          ) : result ? (
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="bg-green-50 p-4 rounded-lg">
@@ -192,9 +303,73 @@ const Simulation: React.FC = () => {
                     <span className="text-gray-600">Late Deliveries:</span>
                     <span className="font-medium text-red-600">{result.late_deliveries}</span>
                   </div>
+                  <div className="flex justify-between col-span-2">
+                    <span className="text-gray-600">Unassigned Orders:</span>
+                    <span className="font-medium text-orange-600">{result.unassigned_orders.length}</span>
+                  </div>
+                  {result.orphaned_orders.length > 0 && (
+                    <div className="col-span-2 bg-red-50 text-red-700 rounded-md px-3 py-2">
+                      Skipped {result.orphaned_orders.length} orders whose route no longer exists:{' '}
+                      {result.orphaned_orders.map((orderId: number) => `#${orderId}`).join(', ')}
+                    </div>
+                  )}
                 </div>
               </div>
 
+              {result.timing_distribution && (
+                <div className="border-t pt-4">
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">Arrival vs Promised Time</h3>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    {(['early', 'late'] as const).map(side => (
+                      <div key={side}>
+                        <p className="text-gray-600 mb-1">{side === 'early' ? 'On time (minutes early)' : 'Late (minutes late)'}</p>
+                        {result.timing_distribution[side].map((bucket: TimingBucket) => (
+                          <div key={bucket.range} className="flex justify-between">
+                            <span className="text-gray-500">{bucket.range} min</span>
+                            <span className={`font-medium ${side === 'early' ? 'text-green-600' : 'text-red-600'}`}>
+                              {bucket.count}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Late arrivals within the {ruleSet?.late_grace_minutes ?? 10} minute grace window count as on time, 0 minutes early
+                  </p>
+                </div>
+              )}
+
+              {result.days.length > 1 && (
+                <div className="border-t pt-4">
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">Day-by-Day Breakdown</h3>
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="font-medium pb-1">Day</th>
+                        <th className="font-medium pb-1">Profit</th>
+                        <th className="font-medium pb-1">Efficiency</th>
+                        <th className="font-medium pb-1">Late</th>
+                        <th className="font-medium pb-1">Unassigned</th>
+                        <th className="font-medium pb-1">Fatigued</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.days.map((day: SimulationDay) => (
+                        <tr key={day.day}>
+                          <td className="py-1 text-gray-900">{day.day}</td>
+                          <td className="py-1 text-gray-900">₹{day.total_profit.toLocaleString()}</td>
+                          <td className="py-1 text-gray-900">{day.efficiency_score.toFixed(1)}%</td>
+                          <td className="py-1 text-red-600">{day.late_deliveries}</td>
+                          <td className="py-1 text-orange-600">{day.unassigned_orders}</td>
+                          <td className="py-1 text-gray-600">{day.fatigued_drivers}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               <div className="border-t pt-4">
                 <h3 className="text-sm font-medium text-gray-700 mb-3">Fuel Cost Breakdown</h3>
                 <div className="space-y-2 text-sm">
@@ -215,6 +390,7 @@ const Simulation: React.FC = () => {
 
               <div className="text-xs text-gray-500 mt-4">
                 Simulation completed at: {new Date(result.timestamp).toLocaleString()}
+                {' · '}Seed: {result.simulation_params.seed}
               </div>
             </div>
           ) : (
@@ -228,23 +404,31 @@ const Simulation: React.FC = () => {
         </div>
       </div>
 
+      {/* Per-order Delivery Timeline */}
+      {result?._id && <DeliveryTimeline simulationId={result._id} days={result.simulation_params.days} />}
+
       {/* Company Rules Information */}
       <div className="bg-white rounded-lg shadow-md p-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Company Rules Applied</h3>
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          Company Rules Applied
+          {ruleSet && <span className="ml-2 text-sm font-normal text-gray-500">(version {ruleSet.version})</span>}
+        </h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
           <div className="space-y-2">
             <div className="flex items-start">
               <div className="w-2 h-2 bg-red-500 rounded-full mt-2 mr-3 flex-shrink-0"></div>
               <div>
                 <p className="font-medium">Late Delivery Penalty</p>
-                <p className="text-gray-600">₹50 penalty if delivery time exceeds base route time + 10 minutes</p>
+                <p className="text-gray-600">₹{ruleSet?.late_penalty ?? 50} penalty if an order arrives more than {ruleSet?.late_grace_minutes ?? 10} minutes after its promised delivery time</p>
               </div>
             </div>
             <div className="flex items-start">
               <div className="w-2 h-2 bg-orange-500 rounded-full mt-2 mr-3 flex-shrink-0"></div>
               <div>
                 <p className="font-medium">Driver Fatigue Rule</p>
-                <p className="text-gray-600">30% speed decrease next day if driver works >8 hours</p>
+                <p className="text-gray-600">
+                  {Math.round((1 - (ruleSet?.fatigue_speed_factor ?? 0.7)) * 100)}% speed decrease next day if driver works &gt;{ruleSet?.fatigue_threshold_hours ?? 8} hours
+                </p>
               </div>
             </div>
           </div>
@@ -253,14 +437,18 @@ const Simulation: React.FC = () => {
               <div className="w-2 h-2 bg-green-500 rounded-full mt-2 mr-3 flex-shrink-0"></div>
               <div>
                 <p className="font-medium">High-Value Bonus</p>
-                <p className="text-gray-600">10% bonus for orders >₹1000 delivered on time</p>
+                <p className="text-gray-600">
+                  {Math.round((ruleSet?.high_value_bonus_rate ?? 0.1) * 100)}% bonus for orders &gt;₹{ruleSet?.high_value_threshold ?? 1000} delivered on time
+                </p>
               </div>
             </div>
             <div className="flex items-start">
               <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 mr-3 flex-shrink-0"></div>
               <div>
                 <p className="font-medium">Fuel Cost Calculation</p>
-                <p className="text-gray-600">₹5/km base + ₹2/km surcharge for high traffic</p>
+                <p className="text-gray-600">
+                  ₹{ruleSet?.fuel_cost_per_km ?? 5}/km base + ₹{ruleSet?.high_traffic_surcharge_per_km ?? 2}/km surcharge for high traffic
+                </p>
               </div>
             </div>
           </div>
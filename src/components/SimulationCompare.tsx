@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { errorMessage, request } from '../services/api';
+import { SimulationResult, SimulationParams, SimulationKpis, Comparison } from '../contexts/DataContext';
+import { GitCompare, BarChart3 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import ExportButton from './ExportButton';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const kpiRows: { key: keyof SimulationKpis; label: string; format: (value: number) => string; higherIsBetter: boolean }[] = [
+  { key: 'total_profit', label: 'Total Profit', format: (v) => `₹${v.toLocaleString()}`, higherIsBetter: true },
+  { key: 'efficiency_score', label: 'Efficiency Score', format: (v) => `${v.toFixed(1)}%`, higherIsBetter: true },
+  { key: 'on_time_deliveries', label: 'On-time Deliveries', format: (v) => `${v}`, higherIsBetter: true },
+  { key: 'late_deliveries', label: 'Late Deliveries', format: (v) => `${v}`, higherIsBetter: false },
+  { key: 'unassigned_orders', label: 'Unassigned Orders', format: (v) => `${v}`, higherIsBetter: false },
+  { key: 'fuel_cost', label: 'Fuel Cost', format: (v) => `₹${v.toLocaleString()}`, higherIsBetter: false },
+];
+
+const runColors = ['#10B981', '#3B82F6', '#F59E0B', '#8B5CF6', '#EF4444', '#14B8A6'];
+
+const describeRun = (params: SimulationParams) =>
+  `${params.available_drivers} drivers @ ${params.start_time}, ${params.max_hours_per_day}h`;
+
+const SimulationCompare: React.FC = () => {
+  const [history, setHistory] = useState<SimulationResult[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    request('GET /simulation/history', { query: { limit: 20 } })
+      .then(page => setHistory(page.results))
+      .catch(error => console.error('Error fetching simulation history:', error));
+  }, []);
+
+  const toggleRun = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const handleCompare = async () => {
+    if (selected.length < 2) {
+      toast.error('Select at least two simulation runs');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setComparison(await request('GET /simulation/compare', { query: { ids: selected.join(',') } }));
+    } catch (error) {
+      toast.error(errorMessage(error, 'Comparison failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const chartFor = (key: keyof SimulationKpis, label: string) => ({
+    labels: comparison?.runs.map((_, index) => `Run ${index + 1}`) || [],
+    datasets: [
+      {
+        label,
+        data: comparison?.runs.map(run => run.kpis[key]) || [],
+        backgroundColor: comparison?.runs.map((_, index) => runColors[index % runColors.length]) || [],
+        borderWidth: 1,
+      },
+    ],
+  });
+
+  const chartOptions = {
+    responsive: true,
+    plugins: {
+      legend: {
+        display: false,
+      },
+    },
+  };
+
+  const deltaFor = (runId: string, key: keyof SimulationKpis) =>
+    comparison?.differences.find(d => d._id === runId)?.kpis[key];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <div className="bg-indigo-500 p-3 rounded-lg">
+          <GitCompare className="h-6 w-6 text-white" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 ml-4">Compare Simulations</h1>
+      </div>
+
+      {/* Run Selection */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Select Runs</h2>
+          <div className="flex space-x-3">
+            <ExportButton path="/simulation/history/export" name="simulation-history" />
+            <button
+              onClick={handleCompare}
+              disabled={loading || selected.length < 2}
+              className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Compare {selected.length > 0 && `(${selected.length})`}
+            </button>
+          </div>
+        </div>
+
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-600">No simulation runs yet. Run a few simulations to compare them.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {history.map(run => (
+              <label
+                key={run._id}
+                className={`flex items-center p-3 border rounded-md cursor-pointer transition-colors ${
+                  selected.includes(run._id!) ? 'border-green-500 bg-green-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(run._id!)}
+                  onChange={() => toggleRun(run._id!)}
+                  className="h-4 w-4 text-green-600 border-gray-300 rounded"
+                />
+                <div className="ml-3 text-sm">
+                  <p className="font-medium text-gray-900">{describeRun(run.simulation_params)}</p>
+                  <p className="text-gray-500">
+                    {new Date(run.timestamp).toLocaleString()} · ₹{run.total_profit.toLocaleString()} · {run.efficiency_score.toFixed(1)}%
+                  </p>
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {comparison && (
+        <>
+          {/* KPI Table */}
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      KPI
+                    </th>
+                    {comparison.runs.map((run, index) => (
+                      <th key={run._id} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Run {index + 1}{index === 0 && ' (baseline)'}
+                        <div className="normal-case font-normal text-gray-400">{describeRun(run.simulation_params)}</div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {kpiRows.map(row => (
+                    <tr key={row.key}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.label}</td>
+                      {comparison.runs.map(run => {
+                        const delta = deltaFor(run._id, row.key);
+                        const improved = delta !== undefined && (row.higherIsBetter ? delta > 0 : delta < 0);
+                        return (
+                          <td key={run._id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {row.format(run.kpis[row.key])}
+                            {delta !== undefined && delta !== 0 && (
+                              <span className={`ml-2 text-xs ${improved ? 'text-green-600' : 'text-red-600'}`}>
+                                ({delta > 0 ? '+' : ''}{delta})
+                              </span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Charts */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Total Profit (₹)</h3>
+              <Bar data={chartFor('total_profit', 'Total Profit (₹)')} options={chartOptions} />
+            </div>
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Efficiency Score (%)</h3>
+              <Bar data={chartFor('efficiency_score', 'Efficiency Score (%)')} options={chartOptions} />
+            </div>
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Fuel Cost (₹)</h3>
+              <Bar data={chartFor('fuel_cost', 'Fuel Cost (₹)')} options={chartOptions} />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SimulationCompare;
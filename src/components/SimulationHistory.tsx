@@ -0,0 +1,298 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useData, SimulationResult } from '../contexts/DataContext';
+import { errorMessage } from '../services/api';
+import { History, ChevronDown, ChevronRight, RotateCcw, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePagedList } from '../hooks/usePagedList';
+import ExportButton from './ExportButton';
+import SortableHeader from './SortableHeader';
+import PaginationControls from './PaginationControls';
+
+// A date input's day as the instant it starts or ends in local time
+const dayBoundary = (date: string, end: boolean) =>
+  date ? new Date(`${date}T${end ? '23:59:59.999' : '00:00'}`).toISOString() : '';
+
+const SimulationHistory: React.FC = () => {
+  const { deleteSimulationResults } = useData();
+  const { can } = useAuth();
+  const canRun = can('simulation:run');
+  const canDelete = can('records:delete');
+  const navigate = useNavigate();
+  const {
+    items: runs,
+    pagination,
+    setPage,
+    sort,
+    toggleSort,
+    filters,
+    setFilter,
+    query,
+    loading,
+    reload,
+  } = usePagedList<SimulationResult>('GET /simulation/history', { sort: 'timestamp', order: 'desc' }, 10);
+  // Dates as entered; the filters hold them as instants
+  const [dates, setDates] = useState({ from: '', to: '' });
+  const [selected, setSelected] = useState<string[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const handleDateChange = (name: 'from' | 'to', value: string) => {
+    setDates(prev => ({ ...prev, [name]: value }));
+    setFilter(name, dayBoundary(value, name === 'to'));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]));
+  };
+
+  const allSelected = runs.length > 0 && runs.every(run => selected.includes(run._id));
+
+  const toggleAll = () => {
+    setSelected(allSelected ? [] : runs.map(run => run._id));
+  };
+
+  const handleDelete = async (ids: string[]) => {
+    const noun = ids.length === 1 ? 'this simulation result' : `${ids.length} simulation results`;
+    if (!window.confirm(`Delete ${noun}? This cannot be undone.`)) return;
+
+    try {
+      const deleted = await deleteSimulationResults(ids);
+      setSelected(prev => prev.filter(id => !ids.includes(id)));
+      await reload();
+      toast.success(`${deleted} simulation result${deleted === 1 ? '' : 's'} deleted`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Delete failed'));
+    }
+  };
+
+  // Open the Simulation page with the form filled in from a past run
+  const handleRerun = (run: SimulationResult) => {
+    navigate('/simulation', { state: { params: run.simulation_params } });
+  };
+
+  const filterClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <div className="bg-indigo-500 p-3 rounded-lg">
+            <History className="h-6 w-6 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 ml-4">Simulation History</h1>
+        </div>
+        <div className="flex space-x-3">
+          <ExportButton path="/simulation/history/export" name="simulation-history" params={query} />
+          {canDelete && selected.length > 0 && (
+            <button
+              onClick={() => handleDelete(selected)}
+              className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Selected ({selected.length})
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Run Date</label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="date"
+                value={dates.from}
+                onChange={(e) => handleDateChange('from', e.target.value)}
+                className={filterClass}
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="date"
+                value={dates.to}
+                onChange={(e) => handleDateChange('to', e.target.value)}
+                className={filterClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Drivers</label>
+            <input
+              type="number"
+              min="1"
+              value={filters.drivers ?? ''}
+              onChange={(e) => setFilter('drivers', e.target.value)}
+              placeholder="Any"
+              className={filterClass + ' w-24'}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Start Time</label>
+            <input
+              type="time"
+              value={filters.start_time ?? ''}
+              onChange={(e) => setFilter('start_time', e.target.value)}
+              className={filterClass}
+            />
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {canDelete && (
+                  <th className="px-4 py-3">
+                    <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all" />
+                  </th>
+                )}
+                <SortableHeader label="Run At" field="timestamp" sort={sort} onSort={toggleSort} />
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Parameters
+                </th>
+                <SortableHeader label="Profit" field="total_profit" sort={sort} onSort={toggleSort} />
+                <SortableHeader label="Efficiency" field="efficiency_score" sort={sort} onSort={toggleSort} />
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  On-time / Late
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {runs.map((run) => {
+                const params = run.simulation_params;
+                const isExpanded = expanded === run._id;
+                return (
+                  <React.Fragment key={run._id}>
+                    <tr className={selected.includes(run._id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                      {canDelete && (
+                        <td className="px-4 py-4">
+                          <input
+                            type="checkbox"
+                            checked={selected.includes(run._id)}
+                            onChange={() => toggleSelected(run._id)}
+                            aria-label="Select run"
+                          />
+                        </td>
+                      )}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <button
+                          onClick={() => setExpanded(isExpanded ? null : run._id)}
+                          className="flex items-center hover:text-blue-700"
+                        >
+                          {isExpanded ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                          {new Date(run.timestamp).toLocaleString()}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {params.available_drivers} drivers · {params.start_time} · {params.max_hours_per_day}h
+                        {(params.days ?? 1) > 1 && ` · ${params.days} days`}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        ₹{run.total_profit.toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {run.efficiency_score.toFixed(1)}%
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className="text-green-600">{run.on_time_deliveries}</span>
+                        {' / '}
+                        <span className="text-red-600">{run.late_deliveries}</span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <div className="flex space-x-2">
+                          {canRun && (
+                            <button
+                              onClick={() => handleRerun(run)}
+                              className="text-blue-600 hover:text-blue-900"
+                              title="Re-run with these parameters"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </button>
+                          )}
+                          {canDelete && (
+                            <button
+                              onClick={() => handleDelete([run._id])}
+                              className="text-red-600 hover:text-red-900"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={canDelete ? 7 : 6} className="px-6 py-4">
+                          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                            <div>
+                              <dt className="text-gray-500">Available drivers</dt>
+                              <dd className="font-medium text-gray-900">{params.available_drivers}</dd>
+                            </div>
+                            <div>
+                              <dt className="text-gray-500">Start time</dt>
+                              <dd className="font-medium text-gray-900">{params.start_time}</dd>
+                            </div>
+                            <div>
+                              <dt className="text-gray-500">Max hours per day</dt>
+                              <dd className="font-medium text-gray-900">{params.max_hours_per_day}</dd>
+                            </div>
+                            <div>
+                              <dt className="text-gray-500">Days</dt>
+                              <dd className="font-medium text-gray-900">{params.days ?? 1}</dd>
+                            </div>
+                            <div>
+                              <dt className="text-gray-500">Seed</dt>
+                              <dd className="font-medium text-gray-900">{params.seed ?? '—'}</dd>
+                            </div>
+                            <div>
+                              <dt className="text-gray-500">Rule set</dt>
+                              <dd className="font-medium text-gray-900">
+                                {run.rule_set_version ? `Version ${run.rule_set_version}` : 'Defaults'}
+                              </dd>
+                            </div>
+                            <div>
+                              <dt className="text-gray-500">Fuel cost</dt>
+                              <dd className="font-medium text-gray-900">
+                                ₹{run.fuel_cost_breakdown.total.toLocaleString()}
+                                <span className="text-gray-500 font-normal"> (₹{run.fuel_cost_breakdown.surcharge.toLocaleString()} surcharge)</span>
+                              </dd>
+                            </div>
+                            <div>
+                              <dt className="text-gray-500">Unassigned / orphaned orders</dt>
+                              <dd className="font-medium text-gray-900">
+                                {run.unassigned_orders.length} / {run.orphaned_orders.length}
+                              </dd>
+                            </div>
+                          </dl>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {runs.length === 0 && !loading && (
+          <div className="text-center py-12">
+            <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">
+              {Object.values(filters).some(value => value)
+                ? 'No simulation runs match these filters.'
+                : 'No simulations have been run yet.'}
+            </p>
+          </div>
+        )}
+
+        <PaginationControls pagination={pagination} onPageChange={setPage} noun="runs" />
+      </div>
+    </div>
+  );
+};
+
+export default SimulationHistory;
@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { useData, Sweep, SweepRun } from '../contexts/DataContext';
+import { errorMessage, request } from '../services/api';
+import { Grid3x3, Play, Save, Trophy } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type SweepMetric = 'total_profit' | 'efficiency_score';
+
+const sameParams = (a: SweepRun | null, b: SweepRun) =>
+  !!a &&
+  a.params.available_drivers === b.params.available_drivers &&
+  a.params.start_time === b.params.start_time &&
+  a.params.max_hours_per_day === b.params.max_hours_per_day;
+
+const formatMetric = (metric: SweepMetric, value: number) =>
+  metric === 'total_profit' ? `₹${value.toLocaleString()}` : `${value.toFixed(1)}%`;
+
+const SimulationSweep: React.FC = () => {
+  const { counts, runSimulation } = useData();
+  const [form, setForm] = useState({
+    drivers_min: 1,
+    drivers_max: Math.max(counts.drivers, 1),
+    start_times: '08:00, 09:00, 10:00',
+    hours_min: 8,
+    hours_max: 8,
+    hours_step: 1,
+    seed: '',
+  });
+  const [sweep, setSweep] = useState<Sweep | null>(null);
+  const [metric, setMetric] = useState<SweepMetric>('total_profit');
+  const [hours, setHours] = useState<number | null>(null);
+  const [selected, setSelected] = useState<SweepRun | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({
+      ...prev,
+      [name]: name === 'start_times' || name === 'seed' ? value : parseInt(value) || 0
+    }));
+  };
+
+  const handleRunSweep = async () => {
+    const startTimes = form.start_times.split(',').map(t => t.trim()).filter(Boolean);
+    if (startTimes.length === 0) {
+      toast.error('Enter at least one start time');
+      return;
+    }
+
+    if (form.drivers_max > counts.drivers) {
+      toast.error(`Cannot exceed available drivers (${counts.drivers})`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await request('POST /simulation/sweep', {
+        body: {
+          available_drivers: { min: form.drivers_min, max: form.drivers_max },
+          start_time: startTimes,
+          max_hours_per_day: { min: form.hours_min, max: form.hours_max, step: form.hours_step },
+          ...(form.seed.trim() ? { seed: parseInt(form.seed) } : {}),
+        },
+      });
+      setSweep(result);
+      setHours(result.best[metric].params.max_hours_per_day);
+      setSelected(result.best[metric]);
+      toast.success(`Ran ${result.results.length} simulations`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Sweep failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+
+    setSaving(true);
+    try {
+      await runSimulation(selected.params);
+      toast.success('Saved as a simulation result');
+    } catch (error) {
+      toast.error(errorMessage(error, 'Save failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const visibleCells = sweep?.results.filter(cell => cell.params.max_hours_per_day === hours) || [];
+  const values = visibleCells.map(cell => cell.kpis[metric]);
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+
+  const cellFor = (startTime: string, driverCount: number) =>
+    visibleCells.find(cell =>
+      cell.params.start_time === startTime && cell.params.available_drivers === driverCount
+    );
+
+  const cellColor = (value: number) => {
+    const ratio = maxValue === minValue ? 1 : (value - minValue) / (maxValue - minValue);
+    return `rgba(16, 185, 129, ${0.1 + ratio * 0.8})`;
+  };
+
+  const isBest = (cell: SweepRun) => !!sweep && sameParams(sweep.best[metric], cell);
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <div className="bg-teal-500 p-3 rounded-lg">
+          <Grid3x3 className="h-6 w-6 text-white" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-900 ml-4">What-if Sweep</h1>
+      </div>
+
+      {/* Sweep Parameters */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Drivers (from – to)</label>
+            <div className="flex space-x-2">
+              <input type="number" name="drivers_min" min="1" value={form.drivers_min} onChange={handleInputChange} className={inputClass} />
+              <input type="number" name="drivers_max" min="1" max={counts.drivers} value={form.drivers_max} onChange={handleInputChange} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Start Times</label>
+            <input type="text" name="start_times" value={form.start_times} onChange={handleInputChange} className={inputClass} />
+            <p className="text-xs text-gray-500 mt-1">Comma separated, HH:MM</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max Hours (from – to, step)</label>
+            <div className="flex space-x-2">
+              <input type="number" name="hours_min" min="1" max="24" value={form.hours_min} onChange={handleInputChange} className={inputClass} />
+              <input type="number" name="hours_max" min="1" max="24" value={form.hours_max} onChange={handleInputChange} className={inputClass} />
+              <input type="number" name="hours_step" min="1" value={form.hours_step} onChange={handleInputChange} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Seed (optional)</label>
+            <input type="text" inputMode="numeric" name="seed" value={form.seed} onChange={handleInputChange} placeholder="Random" className={inputClass} />
+          </div>
+        </div>
+
+        <button
+          onClick={handleRunSweep}
+          disabled={loading}
+          className="mt-6 flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+          ) : (
+            <Play className="h-4 w-4 mr-2" />
+          )}
+          Run Sweep
+        </button>
+      </div>
+
+      {sweep && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Results <span className="text-sm font-normal text-gray-500">(seed {sweep.seed})</span>
+            </h2>
+            <div className="flex items-center space-x-3">
+              <select
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as SweepMetric)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="total_profit">Total Profit</option>
+                <option value="efficiency_score">Efficiency Score</option>
+              </select>
+              {sweep.axes.max_hours_per_day.length > 1 && (
+                <select
+                  value={hours ?? ''}
+                  onChange={(e) => setHours(parseInt(e.target.value))}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {sweep.axes.max_hours_per_day.map(h => (
+                    <option key={h} value={h}>{h}h max per day</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+
+          {/* Heatmap */}
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-separate" style={{ borderSpacing: 4 }}>
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Start \ Drivers
+                  </th>
+                  {sweep.axes.available_drivers.map(count => (
+                    <th key={count} className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {count}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sweep.axes.start_time.map(startTime => (
+                  <tr key={startTime}>
+                    <td className="px-3 py-2 text-sm font-medium text-gray-900">{startTime}</td>
+                    {sweep.axes.available_drivers.map(count => {
+                      const cell = cellFor(startTime, count);
+                      if (!cell) return <td key={count} />;
+                      return (
+                        <td
+                          key={count}
+                          onClick={() => setSelected(cell)}
+                          style={{ backgroundColor: cellColor(cell.kpis[metric]) }}
+                          className={`px-3 py-3 text-center text-sm rounded-md cursor-pointer text-gray-900 ${
+                            sameParams(selected, cell) ? 'ring-2 ring-blue-500' : ''
+                          }`}
+                        >
+                          <div className="flex items-center justify-center">
+                            {isBest(cell) && <Trophy className="h-3 w-3 text-yellow-600 mr-1" />}
+                            {formatMetric(metric, cell.kpis[metric])}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selected && (
+            <div className="mt-6 flex flex-wrap items-center justify-between gap-4 border-t pt-4">
+              <div className="text-sm text-gray-700">
+                <span className="font-medium">{selected.params.available_drivers} drivers @ {selected.params.start_time}, {selected.params.max_hours_per_day}h</span>
+                {' · '}₹{selected.kpis.total_profit.toLocaleString()}
+                {' · '}{selected.kpis.efficiency_score.toFixed(1)}%
+                {' · '}{selected.kpis.unassigned_orders} unassigned
+              </div>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save as Simulation
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimulationSweep;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { SortState } from '../hooks/usePagedList';
+
+interface SortableHeaderProps {
+  label: string;
+  field: string;
+  sort: SortState;
+  onSort: (field: string) => void;
+}
+
+const SortableHeader: React.FC<SortableHeaderProps> = ({ label, field, sort, onSort }) => (
+  <th
+    onClick={() => onSort(field)}
+    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none hover:text-gray-700"
+  >
+    <span className="inline-flex items-center">
+      {label}
+      {sort.sort === field && (sort.order === 'asc'
+        ? <ArrowUp className="h-3 w-3 ml-1" />
+        : <ArrowDown className="h-3 w-3 ml-1" />)}
+    </span>
+  </th>
+);
+
+export default SortableHeader;
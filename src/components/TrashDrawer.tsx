@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Trash2, RotateCcw, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { api, errorMessage } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { usePagedList } from '../hooks/usePagedList';
+import PaginationControls from './PaginationControls';
+
+interface TrashedItem {
+  _id?: string;
+  deleted_at?: string | null;
+}
+
+interface TrashDrawerProps<T extends TrashedItem> {
+  path: '/drivers' | '/routes' | '/orders';
+  noun: string;
+  describe: (item: T) => string;
+  onRestored: () => Promise<void>;
+  onClose: () => void;
+}
+
+// Side panel listing deleted records of one kind, with restore and, for
+// admins, a purge of everything deleted more than some days ago
+const TrashDrawer = <T extends TrashedItem>({ path, noun, describe, onRestored, onClose }: TrashDrawerProps<T>) => {
+  const { can } = useAuth();
+  const canRestore = can('records:delete');
+  const { items, pagination, setPage, loading, reload } = usePagedList<T>(
+    `GET ${path}/trash`,
+    { sort: 'deleted_at', order: 'desc' },
+    10,
+  );
+  const [purgeDays, setPurgeDays] = useState(30);
+
+  const handleRestore = async (item: T) => {
+    try {
+      await api.post(`${path}/${item._id}/restore`);
+      await Promise.all([reload(), onRestored()]);
+      toast.success(`${describe(item)} restored`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Restore failed'));
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!window.confirm(`Permanently delete ${noun} deleted ${purgeDays} or more days ago? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      const response = await api.delete(`${path}/trash`, { params: { older_than_days: purgeDays } });
+      await reload();
+      toast.success(response.data.message);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Purge failed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose} />
+      <div className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center">
+            <Trash2 className="h-5 w-5 text-gray-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-900 capitalize">Deleted {noun}</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {items.map(item => (
+            <div key={item._id} className="flex items-center justify-between border border-gray-200 rounded-lg p-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{describe(item)}</p>
+                <p className="text-xs text-gray-500">
+                  Deleted {item.deleted_at ? new Date(item.deleted_at).toLocaleString() : ''}
+                </p>
+              </div>
+              {canRestore && (
+                <button
+                  onClick={() => handleRestore(item)}
+                  className="flex items-center text-sm text-blue-600 hover:text-blue-900"
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Restore
+                </button>
+              )}
+            </div>
+          ))}
+
+          {!loading && items.length === 0 && (
+            <p className="text-center py-8 text-sm text-gray-600">The trash is empty.</p>
+          )}
+        </div>
+
+        <PaginationControls pagination={pagination} onPageChange={setPage} noun={noun} />
+
+        {canRestore && (
+          <div className="flex items-center gap-2 px-6 py-4 border-t border-gray-200 text-sm text-gray-700">
+            <span>Purge deleted</span>
+            <input
+              type="number"
+              min="0"
+              value={purgeDays}
+              onChange={(e) => setPurgeDays(Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span>or more days ago</span>
+            <button
+              onClick={handlePurge}
+              className="ml-auto px-3 py-1 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+            >
+              Purge
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashDrawer;
@@ -0,0 +1,375 @@
+import React, { useState } from 'react';
+import { errorMessage, request } from '../services/api';
+import { useAuth, Role, User } from '../contexts/AuthContext';
+import { UserCog, Plus, Edit, Trash2, Save, X, Search, UserCheck, UserX } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePagedList } from '../hooks/usePagedList';
+import SortableHeader from './SortableHeader';
+import PaginationControls from './PaginationControls';
+
+const emptyForm = {
+  name: '',
+  email: '',
+  role: 'manager' as Role,
+  active: true,
+  password: '',
+};
+
+const UsersManagement: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const {
+    items: users,
+    pagination,
+    setPage,
+    sort,
+    toggleSort,
+    filters,
+    setFilter,
+    reload,
+  } = usePagedList<User>('GET /users', { sort: 'name', order: 'asc' });
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const isSelf = (user: User) => user._id === currentUser?.id;
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    if (name === 'active') {
+      setFormData(prev => ({ ...prev, active: value === 'true' }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: value }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim() || !formData.email.trim()) {
+      toast.error('Name and email are required');
+      return;
+    }
+
+    if ((!editingUser || formData.password) && formData.password.length < 6) {
+      toast.error('Password must be at least 6 characters');
+      return;
+    }
+
+    const { password, ...details } = formData;
+
+    try {
+      if (editingUser) {
+        await request('PUT /users/{id}', { path: { id: editingUser._id }, body: details });
+        if (password) {
+          await request('PUT /users/{id}/password', { path: { id: editingUser._id }, body: { password } });
+        }
+        toast.success('User updated successfully');
+      } else {
+        await request('POST /users', { body: formData });
+        toast.success('User added successfully');
+      }
+      await reload();
+      closeModal();
+    } catch (error) {
+      toast.error(errorMessage(error, 'Operation failed'));
+    }
+  };
+
+  const handleEdit = (user: User) => {
+    setEditingUser(user);
+    setFormData({
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      active: user.active,
+      password: '',
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleToggleActive = async (user: User) => {
+    try {
+      await request('PUT /users/{id}', {
+        path: { id: user._id },
+        body: {
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          active: !user.active,
+        },
+      });
+      await reload();
+      toast.success(`${user.name} ${user.active ? 'disabled' : 'enabled'}`);
+    } catch (error) {
+      toast.error(errorMessage(error, 'Update failed'));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (window.confirm('Are you sure you want to delete this user?')) {
+      try {
+        await request('DELETE /users/{id}', { path: { id } });
+        await reload();
+        toast.success('User deleted successfully');
+      } catch (error) {
+        toast.error(errorMessage(error, 'Delete failed'));
+      }
+    }
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingUser(null);
+    setFormData(emptyForm);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <div className="bg-gray-700 p-3 rounded-lg">
+            <UserCog className="h-6 w-6 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 ml-4">Users</h1>
+        </div>
+        <button
+          onClick={() => setIsModalOpen(true)}
+          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add User
+        </button>
+      </div>
+
+      {/* Users Table */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex flex-wrap gap-4">
+          <div className="relative flex-1 max-w-sm">
+            <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={filters.search ?? ''}
+              onChange={(e) => setFilter('search', e.target.value)}
+              placeholder="Search by name or email"
+              className={inputClass + ' pl-9'}
+            />
+          </div>
+          <select
+            value={filters.role ?? ''}
+            onChange={(e) => setFilter('role', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All roles</option>
+            <option value="viewer">Viewers</option>
+            <option value="manager">Managers</option>
+            <option value="admin">Admins</option>
+          </select>
+          <select
+            value={filters.active ?? ''}
+            onChange={(e) => setFilter('active', e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Active and disabled</option>
+            <option value="true">Active</option>
+            <option value="false">Disabled</option>
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <SortableHeader label="Name" field="name" sort={sort} onSort={toggleSort} />
+                <SortableHeader label="Email" field="email" sort={sort} onSort={toggleSort} />
+                <SortableHeader label="Role" field="role" sort={sort} onSort={toggleSort} />
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <SortableHeader label="Created" field="createdAt" sort={sort} onSort={toggleSort} />
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map((user) => (
+                <tr key={user._id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {user.name}
+                    {isSelf(user) && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{user.email}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${
+                      user.role === 'admin' ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'
+                    }`}>
+                      {user.role}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      user.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {user.active ? 'Active' : 'Disabled'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {new Date(user.createdAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(user)}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Edit"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      {!isSelf(user) && (
+                        <>
+                          <button
+                            onClick={() => handleToggleActive(user)}
+                            className="text-gray-600 hover:text-gray-900"
+                            title={user.active ? 'Disable' : 'Enable'}
+                          >
+                            {user.active ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                          </button>
+                          <button
+                            onClick={() => handleDelete(user._id)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {users.length === 0 && (
+          <div className="text-center py-12">
+            <UserCog className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No users match these filters.</p>
+          </div>
+        )}
+
+        <PaginationControls pagination={pagination} onPageChange={setPage} noun="users" />
+      </div>
+
+      {/* Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingUser ? 'Edit User' : 'Add New User'}
+              </h2>
+              <button
+                onClick={closeModal}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  name="name"
+                  value={formData.name}
+                  onChange={handleInputChange}
+                  className={inputClass}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                <input
+                  type="email"
+                  name="email"
+                  value={formData.email}
+                  onChange={handleInputChange}
+                  className={inputClass}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                  <select
+                    name="role"
+                    value={formData.role}
+                    onChange={handleInputChange}
+                    disabled={!!editingUser && isSelf(editingUser)}
+                    className={inputClass}
+                  >
+                    <option value="viewer">Viewer</option>
+                    <option value="manager">Manager</option>
+                    <option value="admin">Admin</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+                  <select
+                    name="active"
+                    value={String(formData.active)}
+                    onChange={handleInputChange}
+                    disabled={!!editingUser && isSelf(editingUser)}
+                    className={inputClass}
+                  >
+                    <option value="true">Active</option>
+                    <option value="false">Disabled</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {editingUser ? 'New Password' : 'Password'}
+                </label>
+                <input
+                  type="password"
+                  name="password"
+                  value={formData.password}
+                  onChange={handleInputChange}
+                  className={inputClass}
+                  placeholder={editingUser ? 'Leave blank to keep the current password' : 'At least 6 characters'}
+                  required={!editingUser}
+                />
+              </div>
+
+              <div className="flex space-x-3 pt-4">
+                <button
+                  type="submit"
+                  className="flex-1 flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {editingUser ? 'Update' : 'Add'} User
+                </button>
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsersManagement;
@@ -1,19 +1,38 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { api } from '../services/api';
+import { request, storeTokens, clearTokens, getRefreshToken, errorMessage } from '../services/api';
+import type { AuthUser, Role } from '../services/apiTypes';
 import toast from 'react-hot-toast';
 
-interface User {
-  id: string;
-  email: string;
-  name: string;
-}
+export type { AuthUser, Role, User, UserInput } from '../services/apiTypes';
+
+export type Permission =
+  | 'simulation:run'
+  | 'orders:write'
+  | 'drivers:write'
+  | 'routes:write'
+  | 'records:delete'
+  | 'rules:write'
+  | 'users:manage';
+
+// Roles allowed to perform each action; mirrors backend/utils/permissions.js
+const PERMISSIONS: Record<Permission, Role[]> = {
+  'simulation:run': ['manager', 'admin'],
+  'orders:write': ['manager', 'admin'],
+  'drivers:write': ['admin'],
+  'routes:write': ['admin'],
+  'records:delete': ['admin'],
+  'rules:write': ['admin'],
+  'users:manage': ['admin'],
+};
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   isAuthenticated: boolean;
   loading: boolean;
   login: (email: string, password: string) => Promise<boolean>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  logoutAll: () => Promise<void>;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -31,21 +50,19 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const token = localStorage.getItem('token');
     if (token) {
-      api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
-      // Verify token validity
-      api.get('/auth/verify')
+      // Verify token validity; an expired token is refreshed by the api interceptor
+      request('GET /auth/verify')
         .then(response => {
-          setUser(response.data.user);
+          setUser(response.user);
         })
         .catch(() => {
-          localStorage.removeItem('token');
-          delete api.defaults.headers.common['Authorization'];
+          clearTokens();
         })
         .finally(() => {
           setLoading(false);
@@ -57,34 +74,56 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
-      const response = await api.post('/auth/login', { email, password });
-      const { token, user: userData } = response.data;
+      const { token, refresh_token, user: userData } = await request('POST /auth/login', { body: { email, password } });
       
-      localStorage.setItem('token', token);
-      api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+      storeTokens({ token, refresh_token });
       setUser(userData);
       
       toast.success('Login successful!');
       return true;
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Login failed');
+    } catch (error) {
+      toast.error(errorMessage(error, 'Login failed'));
       return false;
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('token');
-    delete api.defaults.headers.common['Authorization'];
+  const endSession = (message: string) => {
+    clearTokens();
     setUser(null);
-    toast.success('Logged out successfully');
+    toast.success(message);
   };
 
+  // Revoke this session's refresh token; the user is logged out locally
+  // even if the server cannot be reached
+  const logout = async () => {
+    const refreshToken = getRefreshToken();
+    try {
+      if (refreshToken) await request('POST /auth/logout', { body: { refresh_token: refreshToken } });
+    } catch (error) {
+      console.error('Error revoking session:', error);
+    }
+    endSession('Logged out successfully');
+  };
+
+  const logoutAll = async () => {
+    try {
+      await request('POST /auth/logout-all');
+      endSession('Logged out of all sessions');
+    } catch (error) {
+      toast.error(errorMessage(error, 'Logout failed'));
+    }
+  };
+
+  const can = (permission: Permission) => !!user && PERMISSIONS[permission].includes(user.role);
+
   const value = {
     user,
     isAuthenticated: !!user,
     loading,
     login,
     logout,
+    logoutAll,
+    can,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
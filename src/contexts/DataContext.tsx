@@ -1,64 +1,134 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { api } from '../services/api';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { errorMessage, request, streamEvents } from '../services/api';
+import type {
+  DriverInput,
+  Route,
+  RouteInput,
+  OrderInput,
+  SimulationParams,
+  SimulationResult,
+  SimulationJob,
+  RuleSet,
+  Pagination,
+} from '../services/apiTypes';
 import { useAuth } from './AuthContext';
 
-export interface Driver {
-  _id?: string;
-  name: string;
-  shift_hours: number;
-  past_week_hours: number[];
-}
+// Types of the API's records and responses come from its contract
+export type {
+  Driver,
+  DriverInput,
+  Route,
+  RouteInput,
+  Order,
+  OrderInput,
+  TrafficLevel,
+  TimingBucket,
+  SimulationDay,
+  SimulationParams,
+  SimulationResult,
+  SimulationDelivery,
+  SimulationProgress,
+  SimulationJob,
+  KpiTrendPoint,
+  KpiTrends,
+  RouteAnalytics,
+  RouteAnalyticsReport,
+  RushHourWindow,
+  TrafficLevelModel,
+  TrafficModel,
+  RuleSet,
+  RuleSetInput,
+  SimulationKpis,
+  SweepInput,
+  SweepRun,
+  Sweep,
+  ComparedRun,
+  Comparison,
+  DriverReport,
+  DriverReportRow,
+  ImportReport,
+  AuditEntity,
+  AuditAction,
+  AuditEntry,
+  Pagination,
+} from '../services/apiTypes';
 
-export interface Route {
-  _id?: string;
-  route_id: number;
-  distance: number;
-  traffic_level: 'Low' | 'Medium' | 'High';
-  base_time: number;
+export interface Page<T> {
+  results: T[];
+  pagination: Pagination;
 }
 
-export interface Order {
-  _id?: string;
-  order_id: number;
-  value_rs: number;
-  route_id: number;
-  delivery_time: string;
+export interface EntityCounts {
+  drivers: number;
+  routes: number;
+  orders: number;
 }
 
-export interface SimulationResult {
-  _id?: string;
-  total_profit: number;
-  efficiency_score: number;
-  on_time_deliveries: number;
-  late_deliveries: number;
-  fuel_cost_breakdown: {
-    base_cost: number;
-    surcharge: number;
-    total: number;
-  };
-  timestamp: string;
+// Largest page the list endpoints return
+export const MAX_PAGE_SIZE = 100;
+
+// Simulation results per page of history
+export const HISTORY_PAGE_SIZE = 10;
+
+// What the data layer fetches and keeps
+export type Resource = 'counts' | 'routes' | 'history' | 'ruleSet';
+
+export interface ResourceStatus {
+  loading: boolean;
+  // Message of the last failed fetch, cleared when the resource is fetched again
+  error: string | null;
 }
 
+const idle: ResourceStatus = { loading: false, error: null };
+
+// Run a fetch while tracking its resource's loading and error state.
+// Failures are recorded and logged rather than thrown.
+const loadResource = async (
+  setStatus: React.Dispatch<React.SetStateAction<Record<Resource, ResourceStatus>>>,
+  resource: Resource,
+  fetch: () => Promise<void>,
+) => {
+  setStatus(previous => ({ ...previous, [resource]: { loading: true, error: null } }));
+  try {
+    await fetch();
+    setStatus(previous => ({ ...previous, [resource]: idle }));
+  } catch (error) {
+    console.error(`Error fetching ${resource}:`, error);
+    setStatus(previous => ({ ...previous, [resource]: { loading: false, error: errorMessage(error) } }));
+  }
+};
+
 interface DataContextType {
-  drivers: Driver[];
+  counts: EntityCounts;
   routes: Route[];
-  orders: Order[];
+  // The fetched page of simulation history, newest first
   simulationResults: SimulationResult[];
+  historyPagination: Pagination | null;
+  ruleSet: RuleSet | null;
+  status: Record<Resource, ResourceStatus>;
+  // True while any resource is being fetched
   loading: boolean;
-  fetchDrivers: () => Promise<void>;
+  fetchCounts: () => Promise<void>;
   fetchRoutes: () => Promise<void>;
-  fetchOrders: () => Promise<void>;
-  fetchSimulationResults: () => Promise<void>;
-  addDriver: (driver: Omit<Driver, '_id'>) => Promise<void>;
-  updateDriver: (id: string, driver: Omit<Driver, '_id'>) => Promise<void>;
+  // Fetches the given page of history, or the current one
+  fetchSimulationResults: (page?: number) => Promise<void>;
+  fetchRuleSet: () => Promise<void>;
+  addDriver: (driver: DriverInput) => Promise<void>;
+  updateDriver: (id: string, driver: DriverInput) => Promise<void>;
   deleteDriver: (id: string) => Promise<void>;
-  addRoute: (route: Omit<Route, '_id'>) => Promise<void>;
-  updateRoute: (id: string, route: Omit<Route, '_id'>) => Promise<void>;
-  deleteRoute: (id: string) => Promise<void>;
-  addOrder: (order: Omit<Order, '_id'>) => Promise<void>;
-  updateOrder: (id: string, order: Omit<Order, '_id'>) => Promise<void>;
+  addRoute: (route: RouteInput) => Promise<void>;
+  // Both resolve to the order_ids moved off the route
+  updateRoute: (id: string, route: RouteInput, reassignTo?: number) => Promise<number[]>;
+  deleteRoute: (id: string, reassignTo?: number) => Promise<number[]>;
+  addOrder: (order: OrderInput) => Promise<void>;
+  updateOrder: (id: string, order: OrderInput) => Promise<void>;
   deleteOrder: (id: string) => Promise<void>;
-  runSimulation: (params: any) => Promise<SimulationResult>;
+  runSimulation: (params: SimulationParams) => Promise<SimulationResult>;
+  // Resolves to null when the job is cancelled
+  runSimulationJob: (params: SimulationParams, onUpdate: (job: SimulationJob) => void) => Promise<SimulationResult | null>;
+  cancelSimulationJob: (id: string) => Promise<void>;
+  // Resolves to the number of results deleted
+  deleteSimulationResults: (ids: string[]) => Promise<number>;
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
@@ -76,123 +146,171 @@ interface DataProviderProps {
 }
 
 export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
-  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [counts, setCounts] = useState<EntityCounts>({ drivers: 0, routes: 0, orders: 0 });
   const [routes, setRoutes] = useState<Route[]>([]);
-  const [orders, setOrders] = useState<Order[]>([]);
   const [simulationResults, setSimulationResults] = useState<SimulationResult[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [historyPagination, setHistoryPagination] = useState<Pagination | null>(null);
+  // Page of history to refetch when no page is given
+  const historyPage = useRef(1);
+  const [ruleSet, setRuleSet] = useState<RuleSet | null>(null);
+  const [status, setStatus] = useState<Record<Resource, ResourceStatus>>({
+    counts: idle,
+    routes: idle,
+    history: idle,
+    ruleSet: idle,
+  });
   const { isAuthenticated } = useAuth();
 
-  const fetchDrivers = async () => {
-    try {
-      const response = await api.get('/drivers');
-      setDrivers(response.data);
-    } catch (error) {
-      console.error('Error fetching drivers:', error);
-    }
-  };
+  // Lists are paged, so only their sizes are kept here; the management
+  // pages fetch the records page by page
+  const fetchCounts = () => loadResource(setStatus, 'counts', async () => {
+    const query = { limit: 1 };
+    const [driverPage, routePage, orderPage] = await Promise.all([
+      request('GET /drivers', { query }),
+      request('GET /routes', { query }),
+      request('GET /orders', { query }),
+    ]);
+    setCounts({
+      drivers: driverPage.pagination.total_results,
+      routes: routePage.pagination.total_results,
+      orders: orderPage.pagination.total_results,
+    });
+  });
 
-  const fetchRoutes = async () => {
-    try {
-      const response = await api.get('/routes');
-      setRoutes(response.data);
-    } catch (error) {
-      console.error('Error fetching routes:', error);
+  // All routes, used to pick and look up routes for orders, a page at a time
+  const fetchRoutes = () => loadResource(setStatus, 'routes', async () => {
+    const all: Route[] = [];
+    for (let page = 1; ; page++) {
+      const response = await request('GET /routes', { query: { page, limit: MAX_PAGE_SIZE } });
+      all.push(...response.results);
+      if (!response.pagination.has_next) break;
     }
-  };
+    setRoutes(all);
+  });
 
-  const fetchOrders = async () => {
-    try {
-      const response = await api.get('/orders');
-      setOrders(response.data);
-    } catch (error) {
-      console.error('Error fetching orders:', error);
-    }
-  };
+  const fetchSimulationResults = (page = historyPage.current) => loadResource(setStatus, 'history', async () => {
+    historyPage.current = page;
+    const history = await request('GET /simulation/history', { query: { page, limit: HISTORY_PAGE_SIZE } });
+    setSimulationResults(history.results);
+    setHistoryPagination(history.pagination);
+  });
 
-  const fetchSimulationResults = async () => {
-    try {
-      const response = await api.get('/simulation/history');
-      setSimulationResults(response.data);
-    } catch (error) {
-      console.error('Error fetching simulation results:', error);
-    }
-  };
+  const fetchRuleSet = () => loadResource(setStatus, 'ruleSet', async () => {
+    setRuleSet(await request('GET /rules/active'));
+  });
 
   useEffect(() => {
     if (isAuthenticated) {
-      fetchDrivers();
+      fetchCounts();
       fetchRoutes();
-      fetchOrders();
-      fetchSimulationResults();
+      fetchSimulationResults(1);
+      fetchRuleSet();
     }
   }, [isAuthenticated]);
 
   // Driver CRUD operations
-  const addDriver = async (driver: Omit<Driver, '_id'>) => {
-    const response = await api.post('/drivers', driver);
-    setDrivers([...drivers, response.data]);
+  const addDriver = async (driver: DriverInput) => {
+    await request('POST /drivers', { body: driver });
+    await fetchCounts();
   };
 
-  const updateDriver = async (id: string, driver: Omit<Driver, '_id'>) => {
-    const response = await api.put(`/drivers/${id}`, driver);
-    setDrivers(drivers.map(d => d._id === id ? response.data : d));
+  const updateDriver = async (id: string, driver: DriverInput) => {
+    await request('PUT /drivers/{id}', { path: { id }, body: driver });
   };
 
   const deleteDriver = async (id: string) => {
-    await api.delete(`/drivers/${id}`);
-    setDrivers(drivers.filter(d => d._id !== id));
+    await request('DELETE /drivers/{id}', { path: { id } });
+    await fetchCounts();
   };
 
   // Route CRUD operations
-  const addRoute = async (route: Omit<Route, '_id'>) => {
-    const response = await api.post('/routes', route);
-    setRoutes([...routes, response.data]);
+  const addRoute = async (route: RouteInput) => {
+    await request('POST /routes', { body: route });
+    await Promise.all([fetchCounts(), fetchRoutes()]);
   };
 
-  const updateRoute = async (id: string, route: Omit<Route, '_id'>) => {
-    const response = await api.put(`/routes/${id}`, route);
-    setRoutes(routes.map(r => r._id === id ? response.data : r));
+  const updateRoute = async (id: string, route: RouteInput, reassignTo?: number) => {
+    const updated = await request('PUT /routes/{id}', { path: { id }, query: { reassignTo }, body: route });
+    await fetchRoutes();
+    return updated.affected_orders;
   };
 
-  const deleteRoute = async (id: string) => {
-    await api.delete(`/routes/${id}`);
-    setRoutes(routes.filter(r => r._id !== id));
+  const deleteRoute = async (id: string, reassignTo?: number) => {
+    const deleted = await request('DELETE /routes/{id}', { path: { id }, query: { reassignTo } });
+    await Promise.all([fetchCounts(), fetchRoutes()]);
+    return deleted.affected_orders;
   };
 
   // Order CRUD operations
-  const addOrder = async (order: Omit<Order, '_id'>) => {
-    const response = await api.post('/orders', order);
-    setOrders([...orders, response.data]);
+  const addOrder = async (order: OrderInput) => {
+    await request('POST /orders', { body: order });
+    await fetchCounts();
   };
 
-  const updateOrder = async (id: string, order: Omit<Order, '_id'>) => {
-    const response = await api.put(`/orders/${id}`, order);
-    setOrders(orders.map(o => o._id === id ? response.data : o));
+  const updateOrder = async (id: string, order: OrderInput) => {
+    await request('PUT /orders/{id}', { path: { id }, body: order });
   };
 
   const deleteOrder = async (id: string) => {
-    await api.delete(`/orders/${id}`);
-    setOrders(orders.filter(o => o._id !== id));
+    await request('DELETE /orders/{id}', { path: { id } });
+    await fetchCounts();
   };
 
-  const runSimulation = async (params: any): Promise<SimulationResult> => {
-    const response = await api.post('/simulation/run', params);
-    const result = response.data;
-    setSimulationResults([result, ...simulationResults]);
+  // New results go to the top of the history, so both runs refetch its
+  // first page
+  const runSimulation = async (params: SimulationParams): Promise<SimulationResult> => {
+    const result = await request('POST /simulation/run', { body: params });
+    await fetchSimulationResults(1);
+    return result;
+  };
+
+  // Run the simulation as a background job, passing each progress update of
+  // its event stream to onUpdate
+  const runSimulationJob = async (
+    params: SimulationParams,
+    onUpdate: (job: SimulationJob) => void,
+  ): Promise<SimulationResult | null> => {
+    let job = await request('POST /simulation/jobs', { body: params });
+    onUpdate(job);
+
+    await streamEvents<SimulationJob>(`/simulation/jobs/${job.id}/events`, (_event, update) => {
+      job = update;
+      onUpdate(update);
+    });
+
+    if (job.status === 'running') throw new Error('Lost the connection to the simulation');
+    if (job.status === 'failed') throw new Error(job.error ?? 'Simulation failed');
+    if (job.status !== 'completed' || !job.result_id) return null;
+
+    const [result] = await Promise.all([
+      request('GET /simulation/history/{id}', { path: { id: job.result_id } }),
+      fetchSimulationResults(1),
+    ]);
     return result;
   };
 
+  const cancelSimulationJob = async (id: string) => {
+    await request('DELETE /simulation/jobs/{id}', { path: { id } });
+  };
+
+  const deleteSimulationResults = async (ids: string[]) => {
+    const { deleted } = await request('DELETE /simulation/history', { body: { ids } });
+    await fetchSimulationResults();
+    return deleted;
+  };
+
   const value = {
-    drivers,
+    counts,
     routes,
-    orders,
     simulationResults,
-    loading,
-    fetchDrivers,
+    historyPagination,
+    ruleSet,
+    status,
+    loading: Object.values(status).some(resource => resource.loading),
+    fetchCounts,
     fetchRoutes,
-    fetchOrders,
     fetchSimulationResults,
+    fetchRuleSet,
     addDriver,
     updateDriver,
     deleteDriver,
@@ -203,7 +321,10 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
     updateOrder,
     deleteOrder,
     runSimulation,
+    runSimulationJob,
+    cancelSimulationJob,
+    deleteSimulationResults,
   };
 
   return <DataContext.Provider value={value}>{children}</DataContext.Provider>;
-};
\ No newline at end of file
+};
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import axios from 'axios';
+import { ApiRequest, ApiResponse, request } from '../services/api';
+import type { ApiOperations } from '../services/apiTypes';
+import { Page, Pagination } from '../contexts/DataContext';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortState {
+  sort: string;
+  order: SortOrder;
+}
+
+// The GET operations of the API that return a page of records
+export type ListOperation = {
+  [K in keyof ApiOperations]: K extends `GET ${string}`
+    ? ApiResponse<K> extends Page<unknown> ? K : never
+    : never;
+}[keyof ApiOperations];
+
+// How long filter inputs must settle before the list is fetched again
+const FILTER_DEBOUNCE_MS = 300;
+
+// Fetch a paged, sortable and filterable list endpoint one page at a time.
+// Changing the sort or a filter goes back to the first page. Filters apply
+// once typing pauses, and only the latest request may update the list.
+export const usePagedList = <T,>(
+  operation: ListOperation,
+  initialSort: SortState,
+  limit = 20,
+  initialFilters: Record<string, string> = {},
+) => {
+  const [items, setItems] = useState<T[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<SortState>(initialSort);
+  const [filters, setFilters] = useState<Record<string, string>>(initialFilters);
+  // Filters the list is fetched with, trailing the inputs by the debounce
+  const [appliedFilters, setAppliedFilters] = useState(filters);
+  const [loading, setLoading] = useState(false);
+  const inFlight = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setAppliedFilters(filters);
+      setPage(1);
+    }, FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  // Query parameters for the current sort and filters, without paging, so
+  // exports can ask for the same records
+  const query = useMemo(() => {
+    const params: Record<string, string> = { ...sort };
+    Object.entries(appliedFilters).forEach(([name, value]) => {
+      if (value.trim()) params[name] = value.trim();
+    });
+    return params;
+  }, [sort, appliedFilters]);
+
+  const reload = useCallback(async () => {
+    // A slower earlier response must not overwrite this one
+    inFlight.current?.abort();
+    const controller = new AbortController();
+    inFlight.current = controller;
+
+    setLoading(true);
+    try {
+      // The filters are free-form strings; the server validates them
+      const listQuery = { ...query, page, limit } as ApiRequest<ListOperation>['query'];
+      const response = await request(operation, { query: listQuery, signal: controller.signal }) as Page<T>;
+      // Step back when the last record of a page was deleted
+      if (response.results.length === 0 && page > 1) {
+        setPage(page - 1);
+        return;
+      }
+      setItems(response.results);
+      setPagination(response.pagination);
+    } catch (error) {
+      if (!axios.isCancel(error)) console.error(`Error fetching ${operation}:`, error);
+    } finally {
+      if (inFlight.current === controller) setLoading(false);
+    }
+  }, [operation, query, page, limit]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const toggleSort = (field: string) => {
+    setSort(prev => ({
+      sort: field,
+      order: prev.sort === field && prev.order === 'asc' ? 'desc' : 'asc',
+    }));
+    setPage(1);
+  };
+
+  const setFilter = (name: string, value: string) => {
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  return { items, pagination, page, setPage, sort, toggleSort, filters, setFilter, query, loading, reload };
+};
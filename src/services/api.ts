@@ -1,4 +1,5 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import type { ApiOperations, AuthTokens, ValidationError } from './apiTypes';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -9,6 +10,18 @@ export const api = axios.create({
   },
 });
 
+export const storeTokens = ({ token, refresh_token }: Pick<AuthTokens, 'token' | 'refresh_token'>) => {
+  localStorage.setItem('token', token);
+  localStorage.setItem('refresh_token', refresh_token);
+};
+
+export const clearTokens = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refresh_token');
+};
+
+export const getRefreshToken = () => localStorage.getItem('refresh_token');
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
@@ -23,14 +36,139 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle errors
+// One refresh at a time; requests that fail while it runs wait for it
+let refreshing: Promise<string> | null = null;
+
+const refreshAccessToken = async (): Promise<string> => {
+  const startingToken = getRefreshToken();
+
+  const refresh = async () => {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) throw new Error('No refresh token');
+    // Another tab refreshed while this one waited; its tokens are stored
+    if (refreshToken !== startingToken) return localStorage.getItem('token') ?? '';
+
+    // Plain axios so this request does not go through the interceptors
+    const response = await axios.post<AuthTokens>(`${API_BASE_URL}/auth/refresh`, { refresh_token: refreshToken });
+    storeTokens(response.data);
+    return response.data.token;
+  };
+
+  // Tabs share the stored tokens, and a refresh token used twice ends every
+  // session, so refreshes take turns across tabs where the browser can
+  return navigator.locks ? navigator.locks.request('refresh-token', refresh) : refresh();
+};
+
+// Response interceptor: on 401, swap the refresh token for a new access
+// token and retry once; go back to login when that fails too
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      window.location.href = '/login';
+  async (error: AxiosError) => {
+    const config = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+    const isAuthRequest = config?.url?.startsWith('/auth/') && config.url !== '/auth/verify';
+
+    if (error.response?.status !== 401 || !config || isAuthRequest) {
+      return Promise.reject(error);
     }
+
+    if (!config._retried && getRefreshToken()) {
+      config._retried = true;
+      try {
+        refreshing = refreshing ?? refreshAccessToken().finally(() => {
+          refreshing = null;
+        });
+        const token = await refreshing;
+        config.headers.Authorization = `Bearer ${token}`;
+        return api(config);
+      } catch {
+        // Fall through to the login redirect
+      }
+    }
+
+    clearTokens();
+    window.location.href = '/login';
     return Promise.reject(error);
   }
-);
\ No newline at end of file
+);
+
+// The message to show for a failed request: the first validation error or
+// the server's message, else the fallback or the error's own message
+export const errorMessage = (error: unknown, fallback?: string) => {
+  if (axios.isAxiosError<Partial<ValidationError>>(error)) {
+    const data = error.response?.data;
+    const message = data?.errors?.[0]?.msg || data?.message;
+    if (message) return message;
+  }
+  if (fallback) return fallback;
+  return error instanceof Error ? error.message : 'Request failed';
+};
+
+// What a typed request takes besides the operation: path parameters, query
+// and body, as the OpenAPI document defines them
+export type ApiRequest<K extends keyof ApiOperations> = Omit<ApiOperations[K], 'response'>;
+
+// A request's options: its ApiRequest plus a signal that can cancel it
+export type RequestOptions<K extends keyof ApiOperations> = ApiRequest<K> & { signal?: AbortSignal };
+
+export type ApiResponse<K extends keyof ApiOperations> = ApiOperations[K]['response'];
+
+// Call an operation of the API contract by its 'METHOD /path', e.g.
+// request('PUT /drivers/{id}', { path: { id }, body: driver }). The options
+// can be left out when nothing in them is required.
+export const request = async <K extends keyof ApiOperations>(
+  operation: K,
+  ...[options]: Record<string, never> extends ApiRequest<K> ? [RequestOptions<K>?] : [RequestOptions<K>]
+): Promise<ApiResponse<K>> => {
+  const [method, template] = operation.split(' ');
+  const { path = {}, query, body, signal } = (options ?? {}) as {
+    path?: Record<string, string>;
+    query?: object;
+    body?: unknown;
+    signal?: AbortSignal;
+  };
+  const url = template.replace(/\{(\w+)\}/g, (_match, name: string) => encodeURIComponent(path[name]));
+
+  const response = await api.request<ApiResponse<K>>({ method, url, params: query, data: body, signal });
+  return response.data;
+};
+
+// Read a Server-Sent Events stream from the API until the server closes it,
+// calling onEvent with each event's name and parsed data. fetch is used
+// rather than EventSource so the request can carry the Authorization header.
+export const streamEvents = async <T,>(
+  path: string,
+  onEvent: (event: string, data: T) => void,
+  signal?: AbortSignal,
+) => {
+  const token = localStorage.getItem('token');
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Event stream failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+
+    // Events are separated by a blank line
+    let end = buffer.indexOf('\n\n');
+    while (end !== -1) {
+      let event = 'message';
+      let data = '';
+      buffer.slice(0, end).split('\n').forEach(line => {
+        if (line.startsWith('event: ')) event = line.slice(7);
+        if (line.startsWith('data: ')) data += line.slice(6);
+      });
+      if (data) onEvent(event, JSON.parse(data));
+
+      buffer = buffer.slice(end + 2);
+      end = buffer.indexOf('\n\n');
+    }
+  }
+};
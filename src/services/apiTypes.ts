@@ -0,0 +1,896 @@
+// Generated from the OpenAPI document in backend/openapi. Do not edit by
+// hand: change the schemas and run `npm run generate:api-types` in backend.
+
+export interface Message {
+  message: string;
+}
+
+export interface ValidationError {
+  message: string;
+  errors: {
+    path?: string;
+    msg?: string;
+  }[];
+}
+
+export interface Pagination {
+  current_page: number;
+  total_pages: number;
+  total_results: number;
+  has_next: boolean;
+  has_prev: boolean;
+}
+
+export type TrafficLevel = 'Low' | 'Medium' | 'High';
+
+export interface DriverInput {
+  name: string;
+  shift_hours: number;
+  past_week_hours: number[];
+}
+
+export type Driver = DriverInput & {
+  _id: string;
+  createdAt?: string;
+  updatedAt?: string;
+  deleted_at?: string | null;
+  averageHoursPerDay: number;
+  totalHoursLastWeek: number;
+};
+
+export interface RouteInput {
+  route_id: number;
+  distance: number;
+  traffic_level: TrafficLevel;
+  base_time: number;
+}
+
+export interface FuelCost {
+  base: number;
+  surcharge: number;
+  total: number;
+}
+
+export type Route = RouteInput & {
+  _id: string;
+  createdAt?: string;
+  updatedAt?: string;
+  deleted_at?: string | null;
+  fuelCost: FuelCost;
+  effectiveTimes: Record<string, number>;
+};
+
+export type RouteUpdate = Route & {
+  affected_orders: number[];
+};
+
+export interface RouteDeleted {
+  message: string;
+  affected_orders: number[];
+}
+
+export interface RouteAnalytics {
+  route_id: number;
+  distance: number;
+  traffic_level: TrafficLevel;
+  base_time: number;
+  order_count: number;
+  total_value: number;
+  fuel_cost: number;
+  profit: number;
+  profit_per_km: number;
+  expected_late_rate: number;
+}
+
+export interface RouteAnalyticsReport {
+  rule_set_version: number;
+  routes: RouteAnalytics[];
+}
+
+export interface OrderInput {
+  order_id: number;
+  value_rs: number;
+  route_id: number;
+  delivery_time: string;
+}
+
+export type Order = OrderInput & {
+  _id: string;
+  createdAt?: string;
+  updatedAt?: string;
+  deleted_at?: string | null;
+  isHighValue: boolean;
+};
+
+export interface SimulationParams {
+  available_drivers: number;
+  start_time: string;
+  max_hours_per_day: number;
+  days?: number;
+  seed?: number;
+}
+
+export interface TimingBucket {
+  range: string;
+  count: number;
+}
+
+export interface SimulationDay {
+  day: number;
+  total_profit: number;
+  efficiency_score: number;
+  on_time_deliveries: number;
+  late_deliveries: number;
+  unassigned_orders: number;
+  fuel_cost: number;
+  fatigued_drivers: number;
+}
+
+export interface SimulationResult {
+  _id: string;
+  createdAt?: string;
+  updatedAt?: string;
+  total_profit: number;
+  efficiency_score: number;
+  on_time_deliveries: number;
+  late_deliveries: number;
+  unassigned_orders: number[];
+  orphaned_orders: number[];
+  fuel_cost_breakdown: {
+    base_cost: number;
+    surcharge: number;
+    total: number;
+  };
+  timing_distribution: {
+    early: TimingBucket[];
+    late: TimingBucket[];
+  };
+  days: SimulationDay[];
+  simulation_params: SimulationParams;
+  rule_set_version?: number;
+  timestamp: string;
+}
+
+export interface SimulationResultIds {
+  ids: string[];
+}
+
+export interface SimulationResultsDeleted {
+  message: string;
+  deleted: number;
+}
+
+export interface SimulationDelivery {
+  _id: string;
+  order_id: number;
+  day?: number;
+  status: 'delivered' | 'unassigned' | 'orphaned';
+  driver?: string;
+  driver_name?: string;
+  route_id: number;
+  dispatch_time?: string;
+  arrival_time?: string;
+  promised_time?: string;
+  lateness_minutes: number;
+  earliness_minutes?: number;
+  is_late: boolean;
+  fuel_cost: number;
+  penalty: number;
+  bonus: number;
+}
+
+export interface KpiTrendPoint {
+  period_start: string;
+  runs: number;
+  total_profit: number;
+  efficiency_score: number;
+  on_time_rate: number;
+  fuel_cost: number;
+}
+
+export interface KpiTrends {
+  bucket: 'day' | 'week';
+  points: KpiTrendPoint[];
+}
+
+export interface SimulationProgress {
+  processed: number;
+  total: number;
+  percent: number;
+  total_profit: number;
+  on_time_deliveries: number;
+  late_deliveries: number;
+  on_time_rate: number;
+}
+
+export interface SimulationJob {
+  id: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  params: SimulationParams;
+  progress: SimulationProgress;
+  result_id: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+export interface SweepRange {
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export interface SweepInput {
+  available_drivers: number | number[] | SweepRange;
+  start_time: string | string[];
+  max_hours_per_day: number | number[] | SweepRange;
+  seed?: number;
+}
+
+export interface SimulationKpis {
+  total_profit: number;
+  efficiency_score: number;
+  on_time_deliveries: number;
+  late_deliveries: number;
+  unassigned_orders: number;
+  fuel_cost: number;
+}
+
+export interface SweepRun {
+  params: SimulationParams;
+  kpis: SimulationKpis;
+}
+
+export interface Sweep {
+  seed: number;
+  rule_set_version: number;
+  axes: {
+    available_drivers: number[];
+    start_time: string[];
+    max_hours_per_day: number[];
+  };
+  results: SweepRun[];
+  best: {
+    total_profit: SweepRun;
+    efficiency_score: SweepRun;
+  };
+}
+
+export interface ComparedRun {
+  _id: string;
+  timestamp: string;
+  simulation_params: SimulationParams;
+  kpis: SimulationKpis;
+}
+
+export interface Comparison {
+  baseline: string;
+  runs: ComparedRun[];
+  differences: {
+    _id: string;
+    against: string;
+    kpis: SimulationKpis;
+  }[];
+}
+
+export interface SimulationResultIdsError {
+  message: string;
+  ids?: string[];
+}
+
+export interface RushHourWindow {
+  start: string;
+  end: string;
+  multiplier: number;
+}
+
+export interface TrafficLevelModel {
+  multiplier: number;
+  rush_hours: RushHourWindow[];
+}
+
+export interface TrafficModel {
+  Low: TrafficLevelModel;
+  Medium: TrafficLevelModel;
+  High: TrafficLevelModel;
+}
+
+export interface RuleSetInput {
+  fuel_cost_per_km?: number;
+  high_traffic_surcharge_per_km?: number;
+  late_penalty?: number;
+  high_value_threshold?: number;
+  high_value_bonus_rate?: number;
+  late_grace_minutes?: number;
+  fatigue_threshold_hours?: number;
+  fatigue_speed_factor?: number;
+  weekly_hours_cap?: number;
+  traffic_model?: {
+    Low?: TrafficLevelModel;
+    Medium?: TrafficLevelModel;
+    High?: TrafficLevelModel;
+  };
+  notes?: string;
+}
+
+export interface RuleSet {
+  _id: string;
+  createdAt: string;
+  updatedAt?: string;
+  version: number;
+  fuel_cost_per_km: number;
+  high_traffic_surcharge_per_km: number;
+  late_penalty: number;
+  high_value_threshold: number;
+  high_value_bonus_rate: number;
+  late_grace_minutes: number;
+  fatigue_threshold_hours: number;
+  fatigue_speed_factor: number;
+  weekly_hours_cap: number;
+  traffic_model: TrafficModel;
+  active: boolean;
+  notes?: string;
+  created_by?: string;
+}
+
+export type RuleSetList = RuleSet[];
+
+export interface DriverReportRow {
+  _id: string;
+  name: string;
+  shift_hours: number;
+  past_week_hours: number[];
+  total_hours: number;
+  average_hours_per_day: number;
+  utilization: number;
+  is_fatigued: boolean;
+  consecutive_days_over: number;
+  projected_week_hours: number;
+  exceeds_weekly_cap: boolean;
+}
+
+export interface DriverReport {
+  rule_set_version: number;
+  fatigue_threshold_hours: number;
+  weekly_hours_cap: number;
+  drivers: DriverReportRow[];
+}
+
+export interface ImportReport {
+  message: string;
+  mode: 'merge' | 'replace';
+  dry_run: boolean;
+  total_rows: number;
+  valid_rows: number;
+  errors: {
+    line: number;
+    errors: string[];
+  }[];
+  inserted?: number;
+  updated?: number;
+  affected_orders?: number[];
+}
+
+export type AuditEntity = 'driver' | 'route' | 'order' | 'simulation';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'import';
+
+export interface AuditEntry {
+  _id: string;
+  user?: string;
+  user_name?: string;
+  action: AuditAction;
+  entity: AuditEntity;
+  entity_id?: string;
+  label?: string;
+  changes: {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+  }[];
+  details?: unknown;
+  createdAt: string;
+}
+
+export type Role = 'viewer' | 'manager' | 'admin';
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+}
+
+export interface AuthTokens {
+  message: string;
+  token: string;
+  refresh_token: string;
+}
+
+export type AuthSession = AuthTokens & {
+  user: AuthUser;
+};
+
+export interface AuthVerification {
+  message: string;
+  user: AuthUser;
+}
+
+export interface RegisterInput {
+  name: string;
+  email: string;
+  password: string;
+}
+
+export interface LoginInput {
+  email: string;
+  password: string;
+}
+
+export interface RefreshTokenInput {
+  refresh_token: string;
+}
+
+export interface UserInput {
+  name: string;
+  email: string;
+  role: Role;
+  active?: boolean;
+}
+
+export interface PasswordInput {
+  password: string;
+}
+
+export type UserCreateInput = UserInput & PasswordInput;
+
+export type User = UserInput & {
+  _id: string;
+  createdAt: string;
+  updatedAt?: string;
+  active: boolean;
+};
+
+export interface DriverPage {
+  results: Driver[];
+  pagination: Pagination;
+}
+
+export interface RoutePage {
+  results: Route[];
+  pagination: Pagination;
+}
+
+export interface OrderPage {
+  results: Order[];
+  pagination: Pagination;
+}
+
+export interface SimulationResultPage {
+  results: SimulationResult[];
+  pagination: Pagination;
+}
+
+export interface SimulationDeliveryPage {
+  results: SimulationDelivery[];
+  pagination: Pagination;
+}
+
+export interface AuditEntryPage {
+  results: AuditEntry[];
+  pagination: Pagination;
+}
+
+export interface UserPage {
+  results: User[];
+  pagination: Pagination;
+}
+
+export interface ApiOperations {
+  'POST /auth/register': {
+    body: RegisterInput;
+    response: AuthSession;
+  };
+  'POST /auth/login': {
+    body: LoginInput;
+    response: AuthSession;
+  };
+  'POST /auth/refresh': {
+    body: RefreshTokenInput;
+    response: AuthTokens;
+  };
+  'POST /auth/logout': {
+    body: RefreshTokenInput;
+    response: Message;
+  };
+  'POST /auth/logout-all': {
+    response: Message;
+  };
+  'GET /auth/verify': {
+    response: AuthVerification;
+  };
+  'GET /users': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'name' | 'email' | 'role' | 'createdAt';
+      order?: 'asc' | 'desc';
+      search?: string;
+      role?: Role;
+      active?: boolean;
+    };
+    response: UserPage;
+  };
+  'POST /users': {
+    body: UserCreateInput;
+    response: User;
+  };
+  'GET /users/{id}': {
+    path: {
+      id: string;
+    };
+    response: User;
+  };
+  'PUT /users/{id}': {
+    path: {
+      id: string;
+    };
+    body: UserInput;
+    response: User;
+  };
+  'DELETE /users/{id}': {
+    path: {
+      id: string;
+    };
+    response: Message;
+  };
+  'PUT /users/{id}/password': {
+    path: {
+      id: string;
+    };
+    body: PasswordInput;
+    response: Message;
+  };
+  'GET /rules': {
+    response: RuleSetList;
+  };
+  'POST /rules': {
+    body: RuleSetInput;
+    response: RuleSet;
+  };
+  'GET /rules/active': {
+    response: RuleSet;
+  };
+  'PUT /rules/{id}/activate': {
+    path: {
+      id: string;
+    };
+    response: RuleSet;
+  };
+  'GET /audit': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'createdAt' | 'entity' | 'action' | 'user_name';
+      order?: 'asc' | 'desc';
+      entity?: AuditEntity;
+      entity_id?: string;
+      action?: AuditAction;
+      user?: string;
+      from?: string;
+      to?: string;
+    };
+    response: AuditEntryPage;
+  };
+  'GET /drivers': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'name' | 'shift_hours' | 'createdAt';
+      order?: 'asc' | 'desc';
+      search?: string;
+    };
+    response: DriverPage;
+  };
+  'POST /drivers': {
+    body: DriverInput;
+    response: Driver;
+  };
+  'GET /drivers/export': {
+    query?: {
+      format?: 'csv' | 'json' | 'xlsx';
+      sort?: 'name' | 'shift_hours' | 'createdAt';
+      order?: 'asc' | 'desc';
+      search?: string;
+    };
+    response: Driver[];
+  };
+  'POST /drivers/import': {
+    query?: {
+      mode?: 'merge' | 'replace';
+      dry_run?: boolean;
+    };
+    body: string;
+    response: ImportReport;
+  };
+  'GET /drivers/trash': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'deleted_at';
+      order?: 'asc' | 'desc';
+    };
+    response: DriverPage;
+  };
+  'GET /drivers/{id}': {
+    path: {
+      id: string;
+    };
+    response: Driver;
+  };
+  'PUT /drivers/{id}': {
+    path: {
+      id: string;
+    };
+    body: DriverInput;
+    response: Driver;
+  };
+  'DELETE /drivers/{id}': {
+    path: {
+      id: string;
+    };
+    response: Message;
+  };
+  'POST /drivers/{id}/restore': {
+    path: {
+      id: string;
+    };
+    response: Driver;
+  };
+  'GET /drivers/report': {
+    response: DriverReport;
+  };
+  'GET /routes': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'route_id' | 'distance' | 'traffic_level' | 'base_time';
+      order?: 'asc' | 'desc';
+      traffic_level?: TrafficLevel;
+    };
+    response: RoutePage;
+  };
+  'POST /routes': {
+    body: RouteInput;
+    response: Route;
+  };
+  'GET /routes/export': {
+    query?: {
+      format?: 'csv' | 'json' | 'xlsx';
+      sort?: 'route_id' | 'distance' | 'traffic_level' | 'base_time';
+      order?: 'asc' | 'desc';
+      traffic_level?: TrafficLevel;
+    };
+    response: Route[];
+  };
+  'POST /routes/import': {
+    query?: {
+      mode?: 'merge' | 'replace';
+      dry_run?: boolean;
+    };
+    body: string;
+    response: ImportReport;
+  };
+  'GET /routes/trash': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'deleted_at';
+      order?: 'asc' | 'desc';
+    };
+    response: RoutePage;
+  };
+  'GET /routes/{id}': {
+    path: {
+      id: string;
+    };
+    response: Route;
+  };
+  'PUT /routes/{id}': {
+    path: {
+      id: string;
+    };
+    query?: {
+      reassignTo?: number;
+    };
+    body: RouteInput;
+    response: RouteUpdate;
+  };
+  'DELETE /routes/{id}': {
+    path: {
+      id: string;
+    };
+    query?: {
+      reassignTo?: number;
+    };
+    response: RouteDeleted;
+  };
+  'POST /routes/{id}/restore': {
+    path: {
+      id: string;
+    };
+    response: Route;
+  };
+  'GET /routes/analytics': {
+    response: RouteAnalyticsReport;
+  };
+  'GET /orders': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'order_id' | 'value_rs' | 'route_id' | 'delivery_time';
+      order?: 'asc' | 'desc';
+      min_value?: number;
+      max_value?: number;
+      route_id?: number;
+      delivery_from?: string;
+      delivery_to?: string;
+    };
+    response: OrderPage;
+  };
+  'POST /orders': {
+    body: OrderInput;
+    response: Order;
+  };
+  'GET /orders/export': {
+    query?: {
+      format?: 'csv' | 'json' | 'xlsx';
+      sort?: 'order_id' | 'value_rs' | 'route_id' | 'delivery_time';
+      order?: 'asc' | 'desc';
+      min_value?: number;
+      max_value?: number;
+      route_id?: number;
+      delivery_from?: string;
+      delivery_to?: string;
+    };
+    response: Order[];
+  };
+  'POST /orders/import': {
+    query?: {
+      mode?: 'merge' | 'replace';
+      dry_run?: boolean;
+    };
+    body: string;
+    response: ImportReport;
+  };
+  'GET /orders/trash': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'deleted_at';
+      order?: 'asc' | 'desc';
+    };
+    response: OrderPage;
+  };
+  'GET /orders/{id}': {
+    path: {
+      id: string;
+    };
+    response: Order;
+  };
+  'PUT /orders/{id}': {
+    path: {
+      id: string;
+    };
+    body: OrderInput;
+    response: Order;
+  };
+  'DELETE /orders/{id}': {
+    path: {
+      id: string;
+    };
+    response: Message;
+  };
+  'POST /orders/{id}/restore': {
+    path: {
+      id: string;
+    };
+    response: Order;
+  };
+  'POST /simulation/run': {
+    body: SimulationParams;
+    response: SimulationResult;
+  };
+  'POST /simulation/jobs': {
+    body: SimulationParams;
+    response: SimulationJob;
+  };
+  'GET /simulation/jobs/{id}': {
+    path: {
+      id: string;
+    };
+    response: SimulationJob;
+  };
+  'DELETE /simulation/jobs/{id}': {
+    path: {
+      id: string;
+    };
+    response: SimulationJob;
+  };
+  'GET /simulation/history': {
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'timestamp' | 'total_profit' | 'efficiency_score';
+      order?: 'asc' | 'desc';
+      from?: string;
+      to?: string;
+      drivers?: number;
+      start_time?: string;
+    };
+    response: SimulationResultPage;
+  };
+  'DELETE /simulation/history': {
+    body: SimulationResultIds;
+    response: SimulationResultsDeleted;
+  };
+  'GET /simulation/history/export': {
+    query?: {
+      format?: 'csv' | 'json' | 'xlsx';
+      sort?: 'timestamp' | 'total_profit' | 'efficiency_score';
+      order?: 'asc' | 'desc';
+      from?: string;
+      to?: string;
+      drivers?: number;
+      start_time?: string;
+    };
+    response: SimulationResult[];
+  };
+  'POST /simulation/sweep': {
+    body: SweepInput;
+    response: Sweep;
+  };
+  'GET /simulation/compare': {
+    query: {
+      ids: string;
+    };
+    response: Comparison;
+  };
+  'GET /simulation/trends': {
+    query?: {
+      from?: string;
+      to?: string;
+      bucket?: 'day' | 'week';
+    };
+    response: KpiTrends;
+  };
+  'GET /simulation/history/{id}': {
+    path: {
+      id: string;
+    };
+    response: SimulationResult;
+  };
+  'DELETE /simulation/history/{id}': {
+    path: {
+      id: string;
+    };
+    response: Message;
+  };
+  'GET /simulation/history/{id}/deliveries': {
+    path: {
+      id: string;
+    };
+    query?: {
+      page?: number;
+      limit?: number;
+      sort?: 'day' | 'order_id' | 'route_id' | 'lateness_minutes';
+      order?: 'asc' | 'desc';
+      late?: boolean;
+      status?: 'delivered' | 'unassigned' | 'orphaned';
+      driver?: string;
+      driver_name?: string;
+      route_id?: number;
+      day?: number;
+    };
+    response: SimulationDeliveryPage;
+  };
+}